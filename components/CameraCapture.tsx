@@ -0,0 +1,222 @@
+/**
+ * Taking the toy photo with the device camera: a live preview with a framing guide, then
+ * the snapshot to retake, rotate or crop before it is used (see lib/photoCapture.ts).
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { useEffect, useRef, useState } from 'preact/hooks';
+import { jsx } from 'preact/jsx-runtime';
+import { cropBetween, FULL_CROP, guideCrop, preparePhoto, renderPhoto, rotateCrop } from '../lib/photoCapture';
+import type { CropRect, Rotation } from '../lib/photoCapture';
+import type { MessageKey, Translate } from '../lib/i18n';
+
+type Props = {
+  t: Translate;
+  onCapture: (photo: File) => void;
+  onError: (message: string) => void; // the camera could not start; the dialog should close
+  onClose: () => void;
+};
+
+const PREVIEW_SIZE = 720; // longest side of the snapshot shown for editing, px
+const MIN_CROP = 0.05; // smaller drags are treated as taps and keep the previous crop
+
+const CAMERA_ERRORS: Record<string, MessageKey> = {
+  NotAllowedError: 'error.cameraPermission',
+  SecurityError: 'error.cameraPermission',
+  NotFoundError: 'error.noCamera',
+  OverconstrainedError: 'error.noCamera',
+};
+
+const percent = (crop: CropRect) => ({ left: `${crop.x * 100}%`, top: `${crop.y * 100}%`, width: `${crop.width * 100}%`, height: `${crop.height * 100}%` });
+
+export function CameraCapture({ t, onCapture, onError, onClose }: Props) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const previewRef = useRef<HTMLCanvasElement | null>(null);
+  const snapshotRef = useRef<HTMLCanvasElement | null>(null); // the full-resolution frame
+  const dragRef = useRef<{ x: number; y: number; before: CropRect } | null>(null);
+  const [snapshot, setSnapshot] = useState(false); // false while the camera is live
+  const [facing, setFacing] = useState<'environment' | 'user'>('environment');
+  const [cameras, setCameras] = useState(0);
+  const [frame, setFrame] = useState<{ width: number; height: number } | null>(null); // live video size, once known
+  const [rotation, setRotation] = useState<Rotation>(0);
+  const [crop, setCrop] = useState<CropRect>(FULL_CROP);
+  const [saving, setSaving] = useState(false);
+
+  // the camera only runs while live; a snapshot frees it until "retake"
+  useEffect(() => {
+    if (snapshot) return;
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setFrame(null);
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: facing, width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then(async (s) => {
+        if (cancelled) return s.getTracks().forEach((track) => track.stop());
+        stream = s;
+        const video = videoRef.current;
+        if (video) {
+          video.srcObject = s;
+          video.onloadedmetadata = () => setFrame({ width: video.videoWidth, height: video.videoHeight });
+        }
+        // device labels and counts are only complete once permission is granted
+        const devices = await navigator.mediaDevices.enumerateDevices().catch(() => []);
+        if (!cancelled) setCameras(devices.filter((d) => d.kind === 'videoinput').length);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Could not start the camera', err);
+        onError(t(CAMERA_ERRORS[err?.name] ?? 'error.camera'));
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [snapshot, facing]);
+
+  // the snapshot, turned as chosen, at preview size
+  useEffect(() => {
+    const source = snapshotRef.current;
+    const preview = previewRef.current;
+    if (!snapshot || !source || !preview) return;
+    const turned = renderPhoto(source, { rotation, crop: FULL_CROP }, PREVIEW_SIZE);
+    preview.width = turned.width;
+    preview.height = turned.height;
+    preview.getContext('2d')!.drawImage(turned, 0, 0);
+  }, [snapshot, rotation]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => e.key === 'Escape' && onClose();
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !frame) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+    canvas.getContext('2d')!.drawImage(video, 0, 0);
+    snapshotRef.current = canvas;
+    setRotation(0);
+    setCrop(guideCrop(frame.width, frame.height));
+    setSnapshot(true);
+  };
+
+  const retake = () => {
+    snapshotRef.current = null;
+    setSnapshot(false);
+  };
+
+  const turn = (quarters: 1 | 3) => {
+    let next = crop;
+    for (let i = 0; i < quarters; i++) next = rotateCrop(next);
+    setCrop(next);
+    setRotation(((rotation + quarters * 90) % 360) as Rotation);
+  };
+
+  const use = async () => {
+    if (!snapshotRef.current) return;
+    setSaving(true);
+    try {
+      onCapture(await preparePhoto(snapshotRef.current, { rotation, crop }));
+    } catch (err) {
+      console.error(err);
+      onError(t('error.readImage'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // dragging over the snapshot draws a new crop
+  const pointAt = (e: PointerEvent) => {
+    const box = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    return { x: (e.clientX - box.left) / box.width, y: (e.clientY - box.top) / box.height };
+  };
+  const cropEvents = {
+    onPointerDown: (e: PointerEvent) => {
+      (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+      dragRef.current = { ...pointAt(e), before: crop };
+    },
+    onPointerMove: (e: PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      const at = pointAt(e);
+      setCrop(cropBetween(drag.x, drag.y, at.x, at.y));
+    },
+    onPointerUp: (e: PointerEvent) => {
+      const drag = dragRef.current;
+      dragRef.current = null;
+      if (!drag) return;
+      const at = pointAt(e);
+      const next = cropBetween(drag.x, drag.y, at.x, at.y);
+      setCrop(next.width < MIN_CROP || next.height < MIN_CROP ? drag.before : next);
+    },
+  };
+
+  const live = jsx('div', {
+    className: 'camera-stage',
+    children: [
+      jsx('div', {
+        className: 'camera-frame',
+        children: [
+          jsx('video', { ref: videoRef as any, className: facing === 'user' ? 'mirrored' : '', autoPlay: true, playsInline: true, muted: true }),
+          frame && jsx('div', { className: 'camera-guide', style: percent(guideCrop(frame.width, frame.height)) }),
+        ],
+      }),
+      jsx('p', { className: 'camera-hint', children: frame ? t('camera.hint') : t('camera.starting') }),
+      jsx('div', {
+        className: 'camera-actions',
+        children: [
+          jsx('button', { onClick: capture, disabled: !frame, children: t('camera.capture') }),
+          cameras > 1 &&
+            jsx('button', {
+              className: 'secondary-btn',
+              onClick: () => setFacing(facing === 'user' ? 'environment' : 'user'),
+              children: t('camera.switch'),
+            }),
+        ],
+      }),
+    ],
+  });
+
+  const review = jsx('div', {
+    className: 'camera-stage',
+    children: [
+      jsx('div', {
+        className: 'camera-frame cropping',
+        ...cropEvents,
+        children: [jsx('canvas', { ref: previewRef as any }), jsx('div', { className: 'camera-crop', style: percent(crop) })],
+      }),
+      jsx('p', { className: 'camera-hint', children: t('camera.cropHint') }),
+      jsx('div', {
+        className: 'camera-actions',
+        children: [
+          jsx('button', { className: 'secondary-btn', onClick: () => turn(3), 'aria-label': t('camera.rotateLeft'), title: t('camera.rotateLeft'), children: '⟲' }),
+          jsx('button', { className: 'secondary-btn', onClick: () => turn(1), 'aria-label': t('camera.rotateRight'), title: t('camera.rotateRight'), children: '⟳' }),
+          jsx('button', { className: 'secondary-btn', onClick: () => setCrop(FULL_CROP), children: t('camera.wholePhoto') }),
+          jsx('button', { className: 'secondary-btn', onClick: retake, children: t('camera.retake') }),
+          jsx('button', { onClick: use, disabled: saving, children: t('camera.use') }),
+        ],
+      }),
+    ],
+  });
+
+  return jsx('div', {
+    className: 'modal-backdrop',
+    onClick: (e: Event) => {
+      if (e.target === e.currentTarget) onClose();
+    },
+    children: jsx('div', {
+      className: 'modal camera-capture',
+      role: 'dialog',
+      'aria-modal': 'true',
+      'aria-label': t('camera.title'),
+      children: [
+        jsx('button', { className: 'modal-close', onClick: onClose, 'aria-label': t('gallery.close'), children: '×' }),
+        jsx('h2', { children: t('camera.title') }),
+        snapshot ? review : live,
+      ],
+    }),
+  });
+}
@@ -0,0 +1,149 @@
+/**
+ * Gallery of every picture the current toy has generated: favourites, deletion,
+ * a full-screen viewer and "do it again" to get a new variant of the same command.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { useEffect, useState } from 'preact/hooks';
+import { jsx } from 'preact/jsx-runtime';
+import type { GalleryImage } from '../lib/toyLibrary';
+import type { Translate } from '../lib/i18n';
+
+type Props = {
+  t: Translate;
+  name: string;
+  lang: string; // for timestamps
+  images: GalleryImage[]; // newest first
+  onToggleFavourite: (image: GalleryImage) => void;
+  onDelete: (image: GalleryImage) => void;
+  onRerun: (command: string) => void;
+  onSave: (image: GalleryImage) => void;
+  onClose: () => void;
+};
+
+export function GalleryPanel({ t, name, lang, images, onToggleFavourite, onDelete, onRerun, onSave, onClose }: Props) {
+  const [favouritesOnly, setFavouritesOnly] = useState(false);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const shown = favouritesOnly ? images.filter((img) => img.favourite) : images;
+  const viewingIndex = shown.findIndex((img) => img.id === viewingId);
+  const viewing = viewingIndex >= 0 ? shown[viewingIndex] : null;
+  const step = (delta: number) => {
+    if (!shown.length || viewingIndex < 0) return;
+    setViewingId(shown[(viewingIndex + delta + shown.length) % shown.length].id);
+  };
+
+  // Escape closes the viewer first, then the gallery; arrows page through the viewer
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') viewing ? setViewingId(null) : onClose();
+      else if (viewing && e.key === 'ArrowLeft') step(-1);
+      else if (viewing && e.key === 'ArrowRight') step(1);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  const when = (image: GalleryImage) => new Date(image.createdAt).toLocaleString(lang, { dateStyle: 'medium', timeStyle: 'short' });
+
+  const actions = (image: GalleryImage) =>
+    confirmDeleteId === image.id
+      ? [
+          jsx('button', {
+            className: 'danger-btn',
+            onClick: () => {
+              setConfirmDeleteId(null);
+              if (viewingId === image.id) setViewingId(null);
+              onDelete(image);
+            },
+            children: t('gallery.confirmDelete'),
+          }),
+          jsx('button', { className: 'link-btn', onClick: () => setConfirmDeleteId(null), children: t('gallery.keep') }),
+        ]
+      : [
+          jsx('button', {
+            className: `link-btn favourite-btn ${image.favourite ? 'on' : ''}`,
+            onClick: () => onToggleFavourite(image),
+            'aria-pressed': image.favourite ? 'true' : 'false',
+            'aria-label': image.favourite ? t('gallery.unfavourite') : t('gallery.favourite'),
+            children: image.favourite ? '★' : '☆',
+          }),
+          image.kind === 'action' && jsx('button', { className: 'link-btn', onClick: () => onRerun(image.command), children: t('gallery.rerun') }),
+          jsx('button', { className: 'link-btn', onClick: () => onSave(image), children: t('keepsake.saveImage') }),
+          jsx('button', { className: 'link-btn', onClick: () => setConfirmDeleteId(image.id), children: t('gallery.delete') }),
+        ];
+
+  const viewer = (image: GalleryImage) =>
+    jsx('div', {
+      className: 'gallery-viewer',
+      role: 'dialog',
+      'aria-modal': 'true',
+      'aria-label': image.command,
+      children: [
+        jsx('button', { className: 'modal-close', onClick: () => setViewingId(null), 'aria-label': t('gallery.close'), children: '×' }),
+        jsx('img', { src: image.imageUrl, alt: image.command }),
+        jsx('div', {
+          className: 'gallery-viewer-caption',
+          children: [
+            jsx('p', { children: image.command }),
+            jsx('p', { className: 'gallery-time', children: when(image) }),
+            jsx('div', { className: 'gallery-actions', children: actions(image) }),
+          ],
+        }),
+        shown.length > 1 && jsx('button', { className: 'gallery-step prev', onClick: () => step(-1), 'aria-label': t('gallery.prev'), children: '‹' }),
+        shown.length > 1 && jsx('button', { className: 'gallery-step next', onClick: () => step(1), 'aria-label': t('gallery.next'), children: '›' }),
+      ],
+    });
+
+  return jsx('div', {
+    className: 'modal-backdrop',
+    onClick: (e: Event) => {
+      if (e.target === e.currentTarget) onClose();
+    },
+    children: [
+      jsx('div', {
+        className: 'modal gallery-panel',
+        role: 'dialog',
+        'aria-modal': 'true',
+        'aria-label': t('gallery.title', { name }),
+        children: [
+          jsx('button', { className: 'modal-close', onClick: onClose, 'aria-label': t('gallery.close'), children: '×' }),
+          jsx('h2', { children: t('gallery.title', { name }) }),
+          jsx('label', {
+            className: 'gallery-filter',
+            children: [
+              jsx('input', { type: 'checkbox', checked: favouritesOnly, onChange: (e: any) => setFavouritesOnly(e.target.checked) }),
+              t('gallery.favouritesOnly'),
+            ],
+          }),
+          !shown.length && jsx('p', { className: 'gallery-empty', children: favouritesOnly ? t('gallery.noFavourites') : t('gallery.empty', { name }) }),
+          jsx('ul', {
+            className: 'gallery-grid',
+            children: shown.map((image) =>
+              jsx(
+                'li',
+                {
+                  className: 'gallery-card',
+                  children: [
+                    jsx('button', {
+                      className: 'gallery-thumb',
+                      onClick: () => setViewingId(image.id),
+                      'aria-label': t('gallery.view', { command: image.command }),
+                      children: jsx('img', { src: image.imageUrl, alt: '' }),
+                    }),
+                    jsx('p', { className: 'gallery-command', children: image.command }),
+                    jsx('p', { className: 'gallery-time', children: when(image) }),
+                    jsx('div', { className: 'gallery-actions', children: actions(image) }),
+                  ],
+                },
+                image.id
+              )
+            ),
+          }),
+        ],
+      }),
+      viewing && viewer(viewing),
+    ],
+  });
+}
@@ -0,0 +1,133 @@
+/**
+ * Mini-games on screen: the picker with each game's best score, and the board for the game
+ * being played, showing the round, the score and whatever the challenge needs (pictures to
+ * count, letters to fill in, answer buttons). Answers go through the same path as typed and
+ * spoken ones (see lib/games.ts).
+ */
+
+import { jsx } from 'preact/jsx-runtime';
+import { canPlay, challengeText, GAME_KINDS, thingName, triesLeft } from '../lib/games';
+import type { Game, GameKind, GameScores } from '../lib/games';
+import type { LocaleCode, Translate } from '../lib/i18n';
+import type { ReferenceSheet } from '../lib/referenceSheet';
+
+const GAME_ICONS: Record<GameKind, string> = { ispy: '🔍', twenty: '❓', simon: '🙌', quiz: '🔢' };
+const NUMBER_CHOICES = 10;
+
+// ---------- Picker ----------
+type PickerProps = {
+  t: Translate;
+  sheet: ReferenceSheet | null;
+  locale: LocaleCode;
+  scores: GameScores;
+  onPick: (kind: GameKind) => void;
+};
+
+export function GamePicker({ t, sheet, locale, scores, onPick }: PickerProps) {
+  return jsx('div', {
+    className: 'game-picker',
+    role: 'group',
+    'aria-label': t('game.pick'),
+    children: GAME_KINDS.map((kind) => {
+      const playable = canPlay(kind, sheet, locale);
+      const best = scores[kind]?.best;
+      return jsx('button', {
+        className: 'game-pick-btn',
+        onClick: () => onPick(kind),
+        disabled: !playable,
+        title: playable ? undefined : t(locale === 'en' ? 'game.ispyNeedsSheet' : 'game.ispyEnglishOnly'),
+        children: [
+          jsx('span', { className: 'game-icon', 'aria-hidden': 'true', children: GAME_ICONS[kind] }),
+          jsx('span', { children: t(`game.${kind}`) }),
+          best !== undefined && jsx('small', { children: t('game.best', { score: best }) }),
+        ],
+      });
+    }),
+  });
+}
+
+// ---------- Board ----------
+type BoardProps = {
+  t: Translate;
+  game: Game;
+  photoUrl: string | null;
+  best: number | undefined; // before this game
+  busy: boolean; // the toy is still saying its line
+  onAnswer: (answer: string) => void;
+  onStop: () => void;
+  onPlayAgain: () => void;
+};
+
+export function GameBoard({ t, game, photoUrl, best, busy, onAnswer, onStop, onPlayAgain }: BoardProps) {
+  const challenge = game.challenge;
+  const answerBtn = (label: string, answer = label, className = 'game-answer-btn') =>
+    jsx('button', { className, onClick: () => onAnswer(answer), disabled: busy, children: label });
+
+  let body;
+  switch (challenge?.type) {
+    case 'spy':
+      body = [
+        photoUrl && jsx('img', { className: 'game-photo', src: photoUrl, alt: '' }),
+        jsx('p', { children: t('game.guessesLeft', { count: triesLeft(game) }) }),
+        jsx('div', { className: 'game-answers', children: answerBtn(t('game.tellMe'), undefined, 'secondary-btn') }),
+      ];
+      break;
+    case 'secret':
+      body = [
+        jsx('div', { className: 'game-picture', 'aria-hidden': 'true', children: '❓' }),
+        jsx('p', { children: t('game.questionsLeft', { count: triesLeft(game) }) }),
+        jsx('div', { className: 'game-answers', children: answerBtn(t('game.tellMe'), undefined, 'secondary-btn') }),
+      ];
+      break;
+    case 'simon':
+      body = [
+        jsx('p', { className: 'game-challenge', children: challengeText(game, t) }),
+        jsx('div', { className: 'game-answers', children: [answerBtn(t('game.simon.did')), answerBtn(t('game.simon.stayed'))] }),
+      ];
+      break;
+    case 'count':
+      body = [
+        jsx('div', { className: 'game-picture', role: 'img', 'aria-label': challengeText(game, t), children: challenge.thing.emoji.repeat(challenge.count) }),
+        jsx('p', { className: 'game-challenge', children: challengeText(game, t) }),
+        jsx('div', { className: 'game-answers', children: Array.from({ length: NUMBER_CHOICES }, (_, i) => answerBtn(String(i + 1))) }),
+      ];
+      break;
+    case 'spell':
+      body = [
+        jsx('div', { className: 'game-picture', 'aria-hidden': 'true', children: challenge.thing.emoji }),
+        jsx('p', { className: 'game-challenge', children: challengeText(game, t) }),
+        jsx('p', { className: 'game-blanks', 'aria-hidden': 'true', children: Array.from(thingName(challenge.thing, game.locale)).map((_, i) => (i ? ' _' : '_')).join('') }),
+        jsx('p', { className: 'game-hint', children: t('game.quiz.spellHint') }),
+      ];
+      break;
+    default:
+      body = [
+        jsx('p', { className: 'game-challenge', children: t('game.over', { score: game.score, max: game.maxScore }) }),
+        best !== undefined && jsx('p', { children: t('game.best', { score: Math.max(best, game.score) }) }),
+        jsx('div', {
+          className: 'game-answers',
+          children: [
+            jsx('button', { onClick: onPlayAgain, disabled: busy, children: t('game.playAgain') }),
+            jsx('button', { className: 'secondary-btn', onClick: onStop, children: t('game.stop') }),
+          ],
+        }),
+      ];
+  }
+
+  return jsx('section', {
+    className: 'game-board',
+    'aria-label': t('game.aria'),
+    children: [
+      jsx('div', {
+        className: 'game-header',
+        children: [
+          jsx('h2', { children: [jsx('span', { 'aria-hidden': 'true', children: `${GAME_ICONS[game.kind]} ` }), t(`game.${game.kind}`)] }),
+          challenge && game.rounds > 1 && jsx('span', { children: t('game.round', { round: game.round, rounds: game.rounds }) }),
+          jsx('span', { className: 'game-score', children: t('game.score', { score: game.score }) }),
+          challenge && jsx('button', { className: 'link-btn', onClick: onStop, children: t('game.stop') }),
+        ],
+      }),
+      jsx('div', { className: 'game-body', 'aria-live': 'polite', children: body }),
+    ],
+  });
+}
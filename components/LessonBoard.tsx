@@ -0,0 +1,123 @@
+/**
+ * Lessons on screen: the picker with each pack's progress for the child learning, and the board
+ * for the lesson under way, showing the question, any choices to tap and how it is going.
+ * Answers go through the same path as typed and spoken ones (see lib/lessons.ts).
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jsx } from 'preact/jsx-runtime';
+import { currentItem, lessonOver, summarizePack } from '../lib/lessons';
+import type { Learner, LessonProgress, LessonSession } from '../lib/lessons';
+import type { LessonPack } from '../lib/lessonPacks';
+import type { Translate } from '../lib/i18n';
+
+export const learnerName = (t: Translate, learner: Learner, index: number) => learner.name || t('lesson.learnerDefault', { number: index + 1 });
+
+// ---------- Picker ----------
+type PickerProps = {
+  t: Translate;
+  packs: LessonPack[]; // in the app's language
+  progress: LessonProgress;
+  onLearner: (learnerId: string) => void;
+  onPick: (pack: LessonPack) => void;
+};
+
+export function LessonPicker({ t, packs, progress, onLearner, onPick }: PickerProps) {
+  const learner = progress.learners.find((l) => l.id === progress.activeId) ?? progress.learners[0];
+  return jsx('div', {
+    className: 'lesson-picker',
+    children: [
+      progress.learners.length > 1 &&
+        jsx('label', {
+          className: 'lesson-learner',
+          children: [
+            t('lesson.whoIsLearning'),
+            jsx('select', {
+              value: learner.id,
+              onChange: (e: any) => onLearner(e.target.value),
+              children: progress.learners.map((l, i) => jsx('option', { value: l.id, children: learnerName(t, l, i) }, l.id)),
+            }),
+          ],
+        }),
+      packs.length
+        ? jsx('div', {
+            className: 'game-picker',
+            role: 'group',
+            'aria-label': t('lesson.pick'),
+            children: packs.map((pack) => {
+              const summary = summarizePack(pack, learner);
+              return jsx(
+                'button',
+                {
+                  className: 'game-pick-btn lesson-pick-btn',
+                  onClick: () => onPick(pack),
+                  title: pack.description,
+                  children: [
+                    jsx('span', { children: pack.title }),
+                    jsx('small', { children: t('lesson.ages', { min: pack.ages.min, max: pack.ages.max }) }),
+                    jsx('small', { children: t('lesson.learned', { count: summary.mastered, total: summary.total }) }),
+                    summary.due > 0 && jsx('small', { className: 'lesson-due', children: t('lesson.due', { count: summary.due }) }),
+                  ],
+                },
+                pack.id
+              );
+            }),
+          })
+        : jsx('p', { className: 'hint', children: t('lesson.noPacks') }),
+    ],
+  });
+}
+
+// ---------- Board ----------
+type BoardProps = {
+  t: Translate;
+  pack: LessonPack;
+  session: LessonSession;
+  busy: boolean; // the toy is still saying its line
+  onAnswer: (answer: string) => void;
+  onStop: () => void;
+  onAgain: () => void;
+};
+
+export function LessonBoard({ t, pack, session, busy, onAnswer, onStop, onAgain }: BoardProps) {
+  const item = currentItem(session, pack);
+  const over = lessonOver(session);
+  const answerBtn = (label: string, className = 'game-answer-btn') =>
+    jsx('button', { className, onClick: () => onAnswer(label), disabled: busy, children: label }, label);
+
+  const body =
+    item && !over
+      ? [
+          jsx('p', { className: 'lesson-topic', children: item.topicTitle }),
+          jsx('p', { className: 'game-challenge', children: item.question.ask }),
+          item.question.choices && jsx('div', { className: 'game-answers', children: item.question.choices.map((choice) => answerBtn(choice)) }),
+          jsx('div', { className: 'game-answers', children: answerBtn(t('game.tellMe'), 'secondary-btn') }),
+        ]
+      : [
+          jsx('p', { className: 'game-challenge', children: t('lesson.over', { right: session.right, asked: session.asked }) }),
+          jsx('div', {
+            className: 'game-answers',
+            children: [
+              jsx('button', { onClick: onAgain, disabled: busy, children: t('lesson.again') }),
+              jsx('button', { className: 'secondary-btn', onClick: onStop, children: t('lesson.stop') }),
+            ],
+          }),
+        ];
+
+  return jsx('section', {
+    className: 'game-board lesson-board',
+    'aria-label': t('lesson.aria'),
+    children: [
+      jsx('div', {
+        className: 'game-header',
+        children: [
+          jsx('h2', { children: [jsx('span', { 'aria-hidden': 'true', children: '📚 ' }), pack.title] }),
+          !over && jsx('span', { children: t('lesson.question', { number: session.position + 1, total: session.queue.length }) }),
+          jsx('span', { className: 'game-score', children: t('lesson.right', { count: session.right }) }),
+          !over && jsx('button', { className: 'link-btn', onClick: onStop, children: t('lesson.stop') }),
+        ],
+      }),
+      jsx('div', { className: 'game-body', 'aria-live': 'polite', children: body }),
+    ],
+  });
+}
@@ -0,0 +1,193 @@
+/**
+ * The lessons part of the parent panel: the children learning on this device, each one's
+ * progress per lesson pack (learned, still learning, due for review, the questions missed
+ * most and recent lessons), and loading or removing lesson packs. Changes are saved right away.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { useState } from 'preact/hooks';
+import { jsx } from 'preact/jsx-runtime';
+import { loadLessonProgress, saveLessonProgress, summarizePack, updateLearner, withLearner, withoutLearner } from '../lib/lessons';
+import type { LessonProgress } from '../lib/lessons';
+import { importLessonPack, loadLessonPacks, questionCount, removeLessonPack } from '../lib/lessonPacks';
+import type { LessonPackErrorCode } from '../lib/lessonPacks';
+import { LOCALES } from '../lib/i18n';
+import type { MessageKey, Translate } from '../lib/i18n';
+import { learnerName } from './LessonBoard';
+
+const RECENT_LESSONS = 5;
+
+const PACK_ERROR_MESSAGES: Record<LessonPackErrorCode, MessageKey> = {
+  'not-json': 'lesson.packNotJson',
+  'too-large': 'lesson.packTooLarge',
+  unsupported: 'lesson.packUnsupported',
+  invalid: 'lesson.packInvalid',
+};
+
+export function LessonDashboard({ t }: { t: Translate }) {
+  const [progress, setProgress] = useState<LessonProgress>(() => loadLessonProgress());
+  const [packs, setPacks] = useState(() => loadLessonPacks());
+  const [shownId, setShownId] = useState(progress.activeId);
+  const [newName, setNewName] = useState('');
+  const [packMessage, setPackMessage] = useState('');
+
+  // applied to what is saved now, so progress from a lesson still going isn't lost
+  const change = (update: (progress: LessonProgress) => LessonProgress) => {
+    const next = update(loadLessonProgress());
+    saveLessonProgress(next);
+    setProgress(next);
+    return next;
+  };
+
+  const index = Math.max(0, progress.learners.findIndex((l) => l.id === shownId));
+  const learner = progress.learners[index];
+
+  const addLearner = (e: Event) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    const next = change((p) => withLearner(p, newName));
+    setShownId(next.learners[next.learners.length - 1].id);
+    setNewName('');
+  };
+
+  const loadPack = async (e: any) => {
+    const file: File | undefined = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const pack = importLessonPack(await file.text());
+      setPacks(loadLessonPacks());
+      setPackMessage(t('lesson.packLoaded', { title: pack.title }));
+    } catch (err) {
+      console.warn('Could not load the lesson pack:', err);
+      const key = PACK_ERROR_MESSAGES[err?.code as LessonPackErrorCode] ?? 'lesson.packNotJson';
+      setPackMessage(t(key, { field: err?.field || '' }));
+    }
+  };
+
+  return jsx('section', {
+    className: 'lesson-dashboard',
+    children: [
+      jsx('h3', { children: t('lesson.dashboard') }),
+      jsx('div', {
+        className: 'learner-tabs',
+        role: 'tablist',
+        children: progress.learners.map((l, i) =>
+          jsx('button', { className: `chip ${l.id === learner.id ? 'selected' : ''}`, role: 'tab', 'aria-selected': l.id === learner.id ? 'true' : 'false', onClick: () => setShownId(l.id), children: learnerName(t, l, i) }, l.id)
+        ),
+      }),
+      jsx('div', {
+        className: 'learner-edit',
+        children: [
+          jsx('label', {
+            children: [
+              t('lesson.learnerName'),
+              jsx('input', {
+                type: 'text',
+                value: learner.name,
+                placeholder: learnerName(t, { ...learner, name: '' }, index),
+                onChange: (e: any) => change((p) => updateLearner(p, learner.id, (l) => ({ ...l, name: e.target.value.trim() }))),
+              }),
+            ],
+          }),
+          progress.learners.length > 1 &&
+            jsx('button', {
+              className: 'link-btn',
+              onClick: () => {
+                if (!confirm(t('lesson.removeLearnerConfirm', { name: learnerName(t, learner, index) }))) return;
+                const next = change((p) => withoutLearner(p, learner.id));
+                setShownId(next.activeId);
+              },
+              children: t('lesson.removeLearner'),
+            }),
+        ],
+      }),
+      jsx('ul', {
+        className: 'pack-progress',
+        children: packs.map((pack) => {
+          const summary = summarizePack(pack, learner);
+          return jsx(
+            'li',
+            {
+              children: [
+                jsx('div', {
+                  className: 'pack-progress-title',
+                  children: [
+                    jsx('strong', { children: pack.title }),
+                    jsx('span', { className: 'hint', children: `${LOCALES[pack.language].label} · ${t('lesson.ages', { min: pack.ages.min, max: pack.ages.max })} · ${t('lesson.questions', { count: questionCount(pack) })}` }),
+                    !pack.builtIn &&
+                      jsx('button', {
+                        className: 'link-btn',
+                        onClick: () => {
+                          removeLessonPack(pack.id);
+                          setPacks(loadLessonPacks());
+                        },
+                        children: t('lesson.removePack'),
+                      }),
+                  ],
+                }),
+                jsx('div', {
+                  className: 'progress-bar',
+                  role: 'progressbar',
+                  'aria-valuemin': 0,
+                  'aria-valuemax': summary.total,
+                  'aria-valuenow': summary.mastered,
+                  children: [
+                    jsx('span', { className: 'mastered', style: { width: `${(summary.mastered / summary.total) * 100}%` } }),
+                    jsx('span', { className: 'learning', style: { width: `${(summary.learning / summary.total) * 100}%` } }),
+                  ],
+                }),
+                jsx('p', {
+                  className: 'hint',
+                  children: [
+                    t('lesson.summary', { mastered: summary.mastered, learning: summary.learning, total: summary.total, due: summary.due }),
+                    summary.accuracy !== null && ` ${t('lesson.accuracy', { percent: Math.round(summary.accuracy * 100) })}`,
+                  ],
+                }),
+                summary.hardest.length > 0 &&
+                  jsx('p', {
+                    className: 'hint',
+                    children: `${t('lesson.hardest')} ${summary.hardest.map((h) => `"${h.ask}" (${h.right}/${h.seen})`).join(', ')}`,
+                  }),
+              ],
+            },
+            pack.id
+          );
+        }),
+      }),
+      jsx('h4', { children: t('lesson.recent') }),
+      learner.lessons.length
+        ? jsx('ul', {
+            className: 'safety-log',
+            children: learner.lessons.slice(0, RECENT_LESSONS).map((lesson) =>
+              jsx(
+                'li',
+                {
+                  children: [
+                    jsx('time', { children: new Date(lesson.at).toLocaleString() }),
+                    jsx('strong', { children: lesson.title }),
+                    jsx('span', { children: t('lesson.result', { right: lesson.right, asked: lesson.asked }) }),
+                  ],
+                },
+                String(lesson.at)
+              )
+            ),
+          })
+        : jsx('p', { className: 'hint', children: t('lesson.noLessons') }),
+      jsx('form', {
+        className: 'learner-add',
+        onSubmit: addLearner,
+        children: [
+          jsx('input', { type: 'text', value: newName, placeholder: t('lesson.newLearner'), 'aria-label': t('lesson.newLearner'), onInput: (e: any) => setNewName(e.target.value) }),
+          jsx('button', { type: 'submit', className: 'secondary-btn', disabled: !newName.trim(), children: t('lesson.addLearner') }),
+        ],
+      }),
+      jsx('label', {
+        className: 'secondary-btn pack-upload',
+        children: [t('lesson.loadPack'), jsx('input', { type: 'file', accept: 'application/json,.json', onChange: loadPack, hidden: true })],
+      }),
+      packMessage && jsx('p', { className: 'hint', role: 'status', children: packMessage }),
+      jsx('p', { className: 'hint', children: t('lesson.packHint') }),
+    ],
+  });
+}
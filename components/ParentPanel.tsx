@@ -0,0 +1,189 @@
+/**
+ * PIN-protected parent settings: word filters, daily limits, lesson progress and the safety log.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { useState } from 'preact/hooks';
+import { jsx } from 'preact/jsx-runtime';
+import { clearSafetyLog, isValidPin, loadSafetyLog, verifyPin, withPin } from '../lib/parentalControls';
+import type { DailyUsage, ParentSettings, SafetyEvent } from '../lib/parentalControls';
+import { parseWordList } from '../lib/safety';
+import { LOCALES } from '../lib/i18n';
+import type { LocaleCode, Translate } from '../lib/i18n';
+import { LessonDashboard } from './LessonDashboard';
+
+type Props = {
+  t: Translate;
+  settings: ParentSettings;
+  locale: LocaleCode; // whose word lists open first
+  usage: DailyUsage;
+  onSave: (settings: ParentSettings) => void;
+  onClose: () => void;
+};
+
+const PinForm = ({ t, title, confirm, error, onSubmit }: { t: Translate; title: string; confirm: boolean; error: string; onSubmit: (pin: string, again: string) => void }) => {
+  const [pin, setPin] = useState('');
+  const [again, setAgain] = useState('');
+  return jsx('form', {
+    className: 'pin-form',
+    onSubmit: (e: Event) => {
+      e.preventDefault();
+      onSubmit(pin, again);
+    },
+    children: [
+      jsx('h2', { children: title }),
+      jsx('input', { type: 'password', inputMode: 'numeric', autoComplete: 'off', value: pin, placeholder: t('parent.pinPlaceholder'), onInput: (e: any) => setPin(e.target.value), 'aria-label': t('parent.pinAria') }),
+      confirm && jsx('input', { type: 'password', inputMode: 'numeric', autoComplete: 'off', value: again, placeholder: t('parent.repeatPin'), onInput: (e: any) => setAgain(e.target.value), 'aria-label': t('parent.repeatPin') }),
+      error && jsx('p', { className: 'form-error', role: 'alert', children: error }),
+      jsx('button', { type: 'submit', children: confirm ? t('parent.setPin') : t('parent.unlock') }),
+    ],
+  });
+};
+
+export function ParentPanel({ t, settings, locale, usage, onSave, onClose }: Props) {
+  const [stage, setStage] = useState<'create-pin' | 'unlock' | 'open' | 'change-pin'>(settings.pinHash ? 'unlock' : 'create-pin');
+  const [pinError, setPinError] = useState('');
+  const [listLocale, setListLocale] = useState(locale);
+  // the textareas of every language, as typed
+  const [listTexts, setListTexts] = useState(() =>
+    Object.fromEntries(
+      Object.entries(settings.wordLists).map(([code, lists]) => [code, { block: lists.blocklist.join('\n'), allow: lists.allowlist.join('\n') }])
+    ) as Record<LocaleCode, { block: string; allow: string }>
+  );
+  const [dailyMinutes, setDailyMinutes] = useState(settings.dailyMinutes);
+  const [dailyCommands, setDailyCommands] = useState(settings.dailyCommands);
+  const [log, setLog] = useState<SafetyEvent[]>(() => loadSafetyLog());
+
+  const setNewPin = async (pin: string, again: string) => {
+    if (!isValidPin(pin)) return setPinError(t('parent.pinInvalid'));
+    if (pin !== again) return setPinError(t('parent.pinMismatch'));
+    onSave(await withPin(settings, pin));
+    setPinError('');
+    setStage('open');
+  };
+
+  const unlock = async (pin: string) => {
+    if (await verifyPin(settings, pin)) {
+      setPinError('');
+      setStage('open');
+    } else {
+      setPinError(t('parent.pinWrong'));
+    }
+  };
+
+  const editList = (list: 'block' | 'allow', text: string) => setListTexts((texts) => ({ ...texts, [listLocale]: { ...texts[listLocale], [list]: text } }));
+
+  const save = () => {
+    onSave({
+      ...settings,
+      wordLists: Object.fromEntries(
+        Object.entries(listTexts).map(([code, texts]) => [code, { blocklist: parseWordList(texts.block), allowlist: parseWordList(texts.allow) }])
+      ) as ParentSettings['wordLists'],
+      dailyMinutes: Math.max(0, Math.floor(dailyMinutes) || 0),
+      dailyCommands: Math.max(0, Math.floor(dailyCommands) || 0),
+    });
+    onClose();
+  };
+
+  const body = () => {
+    switch (stage) {
+      case 'create-pin':
+        return jsx(PinForm, { t, title: t('parent.createPin'), confirm: true, error: pinError, onSubmit: setNewPin });
+      case 'change-pin':
+        return jsx(PinForm, { t, title: t('parent.newPin'), confirm: true, error: pinError, onSubmit: setNewPin });
+      case 'unlock':
+        return jsx(PinForm, { t, title: t('parent.parentsOnly'), confirm: false, error: pinError, onSubmit: (pin) => unlock(pin) });
+      default:
+        return jsx('div', {
+          className: 'parent-settings',
+          children: [
+            jsx('h2', { children: t('parent.title') }),
+            jsx('section', {
+              children: [
+                jsx('h3', { children: t('parent.filters') }),
+                jsx('p', { className: 'hint', children: t('parent.filtersHint') }),
+                jsx('div', {
+                  className: 'word-list-tabs',
+                  role: 'tablist',
+                  'aria-label': t('parent.filtersLanguage'),
+                  children: (Object.keys(LOCALES) as LocaleCode[]).map((code) =>
+                    jsx('button', { className: `chip ${code === listLocale ? 'selected' : ''}`, role: 'tab', 'aria-selected': code === listLocale ? 'true' : 'false', onClick: () => setListLocale(code), children: LOCALES[code].label }, code)
+                  ),
+                }),
+                jsx('div', {
+                  className: 'word-lists',
+                  children: [
+                    jsx('label', { children: [t('parent.blocked'), jsx('textarea', { rows: 6, value: listTexts[listLocale].block, onInput: (e: any) => editList('block', e.target.value) })] }),
+                    jsx('label', { children: [t('parent.allowed'), jsx('textarea', { rows: 6, value: listTexts[listLocale].allow, onInput: (e: any) => editList('allow', e.target.value) })] }),
+                  ],
+                }),
+              ],
+            }),
+            jsx('section', {
+              children: [
+                jsx('h3', { children: t('parent.limits') }),
+                jsx('p', { className: 'hint', children: t('parent.usageToday', { minutes: Math.round(usage.activeMs / 60_000), commands: usage.commands }) }),
+                jsx('label', { children: [t('parent.minutesPerDay'), jsx('input', { type: 'number', min: 0, value: dailyMinutes, onInput: (e: any) => setDailyMinutes(Number(e.target.value)) })] }),
+                jsx('label', { children: [t('parent.commandsPerDay'), jsx('input', { type: 'number', min: 0, value: dailyCommands, onInput: (e: any) => setDailyCommands(Number(e.target.value)) })] }),
+              ],
+            }),
+            jsx(LessonDashboard, { t }),
+            jsx('section', {
+              children: [
+                jsx('h3', { children: t('parent.log') }),
+                log.length
+                  ? jsx('ul', {
+                      className: 'safety-log',
+                      children: log.map((ev, i) =>
+                        jsx(
+                          'li',
+                          {
+                            children: [
+                              jsx('time', { children: new Date(ev.at).toLocaleString() }),
+                              jsx('strong', { children: t(`event.${ev.kind}`) }),
+                              jsx('span', { children: `${ev.toyName}: "${ev.text}"${ev.matched ? ` (${t('parent.matched', { word: ev.matched })})` : ''}` }),
+                            ],
+                          },
+                          `${ev.at}-${i}`
+                        )
+                      ),
+                    })
+                  : jsx('p', { className: 'hint', children: t('parent.logEmpty') }),
+                log.length > 0 &&
+                  jsx('button', {
+                    className: 'link-btn',
+                    onClick: () => {
+                      clearSafetyLog();
+                      setLog([]);
+                    },
+                    children: t('parent.clearLog'),
+                  }),
+              ],
+            }),
+            jsx('div', {
+              className: 'parent-actions',
+              children: [
+                jsx('button', { className: 'link-btn', onClick: () => setStage('change-pin'), children: t('parent.changePin') }),
+                jsx('button', { className: 'secondary-btn', onClick: onClose, children: t('parent.cancel') }),
+                jsx('button', { onClick: save, children: t('parent.save') }),
+              ],
+            }),
+          ],
+        });
+    }
+  };
+
+  return jsx('div', {
+    className: 'modal-backdrop',
+    onClick: (e: Event) => {
+      if (e.target === e.currentTarget) onClose();
+    },
+    children: jsx('div', {
+      className: 'modal parent-panel',
+      role: 'dialog',
+      'aria-modal': 'true',
+      'aria-label': t('parent.title'),
+      children: [jsx('button', { className: 'modal-close', onClick: onClose, 'aria-label': t('parent.close'), children: '×' }), body()],
+    }),
+  });
+}
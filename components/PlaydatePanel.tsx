@@ -0,0 +1,137 @@
+/**
+ * Playdate friends in the toy panel: the invited toys, and a picker to invite
+ * one from the toy library or from a new photo (see lib/playdate.ts).
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { useEffect, useRef, useState } from 'preact/hooks';
+import { jsx } from 'preact/jsx-runtime';
+import { MAX_FRIENDS } from '../lib/playdate';
+import type { Friend } from '../lib/playdate';
+import { listToys } from '../lib/toyLibrary';
+import type { ToyRecord } from '../lib/toyLibrary';
+import type { Translate } from '../lib/i18n';
+
+type Props = {
+  t: Translate;
+  friends: Friend[];
+  hostId: string | null; // the main toy, never offered as its own friend
+  talkingId: string | null; // friend whose reply is being spoken
+  joining: boolean; // a new friend's photo is being looked at
+  onInvite: (toy: ToyRecord) => void;
+  onUpload: (file: File) => void;
+  onRemove: (friend: Friend) => void;
+};
+
+export function PlaydatePanel({ t, friends, hostId, talkingId, joining, onInvite, onUpload, onRemove }: Props) {
+  const [picking, setPicking] = useState(false);
+  const [toys, setToys] = useState<ToyRecord[]>([]);
+  const [thumbs, setThumbs] = useState<Record<string, string>>({});
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    if (!picking) return;
+    listToys()
+      .then((all) => setToys(all.filter((toy) => toy.id !== hostId && !friends.some((f) => f.id === toy.id))))
+      .catch((err) => console.warn('Could not load the toy library', err));
+  }, [picking]);
+
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    toys.forEach((toy) => (urls[toy.id] = URL.createObjectURL(toy.photo)));
+    setThumbs(urls);
+    return () => Object.values(urls).forEach((u) => URL.revokeObjectURL(u));
+  }, [toys]);
+
+  const pick = (toy: ToyRecord) => {
+    setPicking(false);
+    onInvite(toy);
+  };
+
+  const picker = () =>
+    jsx('div', {
+      className: 'modal-backdrop',
+      onClick: (e: Event) => {
+        if (e.target === e.currentTarget) setPicking(false);
+      },
+      children: jsx('div', {
+        className: 'modal playdate-picker',
+        role: 'dialog',
+        'aria-modal': 'true',
+        'aria-label': t('playdate.pickTitle'),
+        children: [
+          jsx('button', { className: 'modal-close', onClick: () => setPicking(false), 'aria-label': t('parent.close'), children: '×' }),
+          jsx('h2', { children: t('playdate.pickTitle') }),
+          toys.length
+            ? jsx('ul', {
+                className: 'toy-library-list',
+                children: toys.map((toy) =>
+                  jsx(
+                    'li',
+                    {
+                      className: 'toy-card',
+                      children: jsx('button', {
+                        className: 'toy-card-resume',
+                        onClick: () => pick(toy),
+                        'aria-label': t('playdate.inviteToy', { name: toy.name }),
+                        children: [thumbs[toy.id] && jsx('img', { src: thumbs[toy.id], alt: '' }), jsx('span', { className: 'toy-card-name', children: toy.name })],
+                      }),
+                    },
+                    toy.id
+                  )
+                ),
+              })
+            : jsx('p', { className: 'hint', children: t('playdate.noSavedToys') }),
+          jsx('input', {
+            type: 'file',
+            accept: 'image/*',
+            ref: fileInputRef as any,
+            style: { display: 'none' },
+            onChange: (e: any) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (!file) return;
+              setPicking(false);
+              onUpload(file);
+            },
+          }),
+          jsx('button', { className: 'secondary-btn', onClick: () => fileInputRef.current?.click(), children: t('playdate.uploadFriend') }),
+        ],
+      }),
+    });
+
+  return jsx('section', {
+    className: 'playdate-panel',
+    'aria-label': t('playdate.title'),
+    children: [
+      friends.length > 0 && jsx('h3', { children: t('playdate.title') }),
+      friends.length > 0 &&
+        jsx('ul', {
+          className: 'playdate-friends',
+          children: friends.map((friend) =>
+            jsx(
+              'li',
+              {
+                className: `playdate-friend ${talkingId === friend.id ? 'talking' : ''}`,
+                children: [
+                  jsx('img', { src: friend.photoUrl, alt: '' }),
+                  jsx('span', { children: friend.name }),
+                  jsx('button', {
+                    className: 'link-btn',
+                    onClick: () => onRemove(friend),
+                    'aria-label': t('playdate.remove', { name: friend.name }),
+                    children: '×',
+                  }),
+                ],
+              },
+              friend.id
+            )
+          ),
+        }),
+      joining && jsx('p', { className: 'hint', children: t('playdate.joining') }),
+      friends.length < MAX_FRIENDS &&
+        jsx('button', { className: 'secondary-btn', onClick: () => setPicking(true), disabled: joining, children: t('playdate.invite') }),
+      picking && picker(),
+    ],
+  });
+}
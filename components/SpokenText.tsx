@@ -0,0 +1,10 @@
+/**
+ * Text with the word currently being spoken marked; shared by chat bubbles and storybook pages.
+ */
+
+import { jsx } from 'preact/jsx-runtime';
+
+export const SpokenText = ({ text, word }: { text: string; word: [number, number] | null }) =>
+  word && word[1] <= text.length
+    ? [text.slice(0, word[0]), jsx('mark', { className: 'spoken-word', children: text.slice(word[0], word[1]) }), text.slice(word[1])]
+    : text;
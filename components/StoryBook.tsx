@@ -0,0 +1,112 @@
+/**
+ * Storybook mode: one illustrated page at a time, read aloud by the toy, with page-turn
+ * navigation and the branch choices the child picks between (see lib/story.ts).
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { jsx } from 'preact/jsx-runtime';
+import { canContinue, STORY_PAGE_COUNT } from '../lib/story';
+import type { Story } from '../lib/story';
+import type { Translate } from '../lib/i18n';
+import { SpokenText } from './SpokenText';
+
+type Props = {
+  t: Translate;
+  name: string;
+  story: Story;
+  /** Set while the page on screen is being read aloud. */
+  reading: { paused: boolean; word: [number, number] | null } | null;
+  canSpeak: boolean;
+  onGoTo: (index: number) => void;
+  onNextPage: () => void;
+  onChoose: (choice: string) => void;
+  onReadAgain: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+  onNewStory: () => void;
+  onSaveImage: (url: string, label: string) => void;
+  onClose: () => void;
+};
+
+const Spinner = ({ text }: { text: string }) =>
+  jsx('div', { className: 'loading-spinner', 'aria-label': text, role: 'status', children: [jsx('div', { className: 'spinner' }), jsx('p', { children: text })] });
+
+export function StoryBook({ t, name, story, reading, canSpeak, onGoTo, onNextPage, onChoose, onReadAgain, onPause, onResume, onStop, onNewStory, onSaveImage, onClose }: Props) {
+  const page = story.pages[story.current];
+  const onLastPage = story.current === story.pages.length - 1;
+  const hasNext = !onLastPage || canContinue(story);
+
+  return jsx('div', {
+    className: 'storybook',
+    children: [
+      jsx('div', {
+        className: 'storybook-header',
+        children: [
+          jsx('h2', { children: t('story.title', { name }) }),
+          page && jsx('span', { className: 'storybook-page-number', children: t('story.page', { page: story.current + 1, total: STORY_PAGE_COUNT }) }),
+          jsx('button', { className: 'link-btn', onClick: onClose, children: t('story.close') }),
+        ],
+      }),
+      page &&
+        jsx('div', {
+          className: 'storybook-page',
+          'aria-live': 'polite',
+          children: [
+            page.imageStatus === 'pending' && jsx(Spinner, { text: t('story.drawing') }),
+            page.imageUrl && jsx('img', { src: page.imageUrl, alt: t('story.imageAlt'), className: 'storybook-image' }),
+            page.imageUrl &&
+              jsx('button', {
+                className: 'link-btn save-image-btn',
+                onClick: () => onSaveImage(page.imageUrl, `story-page-${story.current + 1}`),
+                children: t('keepsake.saveImage'),
+              }),
+            jsx('p', { className: `storybook-text ${reading ? 'speaking' : ''}`, children: jsx(SpokenText, { text: page.text, word: reading?.word ?? null }) }),
+            canSpeak &&
+              jsx('div', {
+                className: 'speech-controls',
+                children: reading
+                  ? [
+                      reading.paused
+                        ? jsx('button', { className: 'link-btn', onClick: onResume, children: t('speech.resume') })
+                        : jsx('button', { className: 'link-btn', onClick: onPause, children: t('speech.pause') }),
+                      jsx('button', { className: 'link-btn', onClick: onStop, children: t('speech.stop') }),
+                    ]
+                  : jsx('button', { className: 'link-btn', onClick: onReadAgain, children: t('story.readAgain') }),
+              }),
+            page.chosen && jsx('p', { className: 'storybook-chosen', children: t('story.chose', { choice: page.chosen }) }),
+            // choices can only be made on the newest page; earlier pages show what was picked
+            page.choices.length > 0 &&
+              !page.chosen &&
+              onLastPage &&
+              jsx('div', {
+                className: 'storybook-choices',
+                children: [
+                  jsx('h3', { children: t('story.choose') }),
+                  ...page.choices.map((choice) => jsx('button', { onClick: () => onChoose(choice), disabled: story.writing, children: choice }, choice)),
+                ],
+              }),
+            page.ending &&
+              jsx('div', {
+                className: 'storybook-end',
+                children: [jsx('p', { children: t('story.theEnd') }), jsx('button', { onClick: onNewStory, children: t('story.newStory') })],
+              }),
+          ],
+        }),
+      story.writing && jsx(Spinner, { text: t('story.writing') }),
+      page &&
+        jsx('div', {
+          className: 'storybook-nav',
+          children: [
+            jsx('button', { className: 'secondary-btn', onClick: () => onGoTo(story.current - 1), disabled: story.current === 0, children: t('story.prev') }),
+            !(onLastPage && page.ending) &&
+              jsx('button', {
+                onClick: () => (onLastPage ? onNextPage() : onGoTo(story.current + 1)),
+                disabled: !hasNext,
+                children: t('story.next'),
+              }),
+          ],
+        }),
+    ],
+  });
+}
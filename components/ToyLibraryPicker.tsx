@@ -0,0 +1,133 @@
+/**
+ * "Toys you've met" picker on the upload view: resume, rename or delete a saved toy.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { useEffect, useState } from 'preact/hooks';
+import { jsx } from 'preact/jsx-runtime';
+import { deleteToy, listToys, renameToy } from '../lib/toyLibrary';
+import type { ToyRecord } from '../lib/toyLibrary';
+import type { Translate } from '../lib/i18n';
+
+type Props = {
+  t: Translate;
+  onResume: (toy: ToyRecord) => void;
+  onError: (message: string) => void;
+};
+
+export function ToyLibraryPicker({ t, onResume, onError }: Props) {
+  const [toys, setToys] = useState<ToyRecord[]>([]);
+  const [thumbs, setThumbs] = useState<Record<string, string>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const refresh = () =>
+    listToys()
+      .then(setToys)
+      .catch((err) => console.warn('Could not load the toy library', err));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // one object URL per photo, revoked when the list changes or the picker goes away
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    toys.forEach((t) => (urls[t.id] = URL.createObjectURL(t.photo)));
+    setThumbs(urls);
+    return () => Object.values(urls).forEach((u) => URL.revokeObjectURL(u));
+  }, [toys]);
+
+  const commitRename = async (id: string) => {
+    const name = draftName.trim();
+    setEditingId(null);
+    if (!name) return;
+    try {
+      await renameToy(id, name);
+      refresh();
+    } catch (err) {
+      console.error(err);
+      onError(t('library.renameFailed'));
+    }
+  };
+
+  const confirmDelete = async (id: string) => {
+    setConfirmDeleteId(null);
+    try {
+      await deleteToy(id);
+      refresh();
+    } catch (err) {
+      console.error(err);
+      onError(t('library.deleteFailed'));
+    }
+  };
+
+  if (!toys.length) return null;
+
+  return jsx('section', {
+    className: 'toy-library',
+    'aria-label': t('library.aria'),
+    children: [
+      jsx('h3', { children: t('library.heading') }),
+      jsx('ul', {
+        className: 'toy-library-list',
+        children: toys.map((toy) =>
+          jsx(
+            'li',
+            {
+              className: 'toy-card',
+              children: [
+                jsx('button', {
+                  className: 'toy-card-resume',
+                  onClick: () => onResume(toy),
+                  'aria-label': t('library.play', { name: toy.name }),
+                  children: [thumbs[toy.id] && jsx('img', { src: thumbs[toy.id], alt: '' }), jsx('span', { className: 'toy-card-name', children: toy.name })],
+                }),
+                editingId === toy.id
+                  ? jsx('form', {
+                      className: 'toy-card-rename',
+                      onSubmit: (e: Event) => {
+                        e.preventDefault();
+                        commitRename(toy.id);
+                      },
+                      children: [
+                        jsx('input', {
+                          type: 'text',
+                          value: draftName,
+                          maxLength: 40,
+                          onInput: (e: any) => setDraftName(e.target.value),
+                          'aria-label': t('library.newName'),
+                        }),
+                        jsx('button', { type: 'submit', children: t('library.save') }),
+                      ],
+                    })
+                  : jsx('div', {
+                      className: 'toy-card-actions',
+                      children:
+                        confirmDeleteId === toy.id
+                          ? [
+                              jsx('button', { className: 'danger-btn', onClick: () => confirmDelete(toy.id), children: t('library.confirmDelete') }),
+                              jsx('button', { className: 'link-btn', onClick: () => setConfirmDeleteId(null), children: t('library.keep') }),
+                            ]
+                          : [
+                              jsx('button', {
+                                className: 'link-btn',
+                                onClick: () => {
+                                  setDraftName(toy.name);
+                                  setEditingId(toy.id);
+                                },
+                                children: t('library.rename'),
+                              }),
+                              jsx('button', { className: 'link-btn', onClick: () => setConfirmDeleteId(toy.id), children: t('library.delete') }),
+                            ],
+                    }),
+              ],
+            },
+            toy.id
+          )
+        ),
+      }),
+    ],
+  });
+}
@@ -0,0 +1,146 @@
+/**
+ * Collapsible "Personality & voice" editor shown under the toy photo,
+ * with the picture style and what generated pictures keep to.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { useEffect, useState } from 'preact/hooks';
+import { jsx } from 'preact/jsx-runtime';
+import { AGE_LEVELS, parseList, SPEAKING_STYLES, TRAIT_OPTIONS } from '../lib/personality';
+import type { AgeLevel, ToyPersonality, VoiceSettings } from '../lib/personality';
+import { ART_STYLES } from '../lib/referenceSheet';
+import type { ArtStyle, ReferenceSheet } from '../lib/referenceSheet';
+import type { MessageKey, Translate } from '../lib/i18n';
+
+type Props = {
+  t: Translate;
+  personality: ToyPersonality;
+  voice: VoiceSettings;
+  voices: SpeechSynthesisVoice[]; // already narrowed to the current language
+  artStyle: ArtStyle;
+  sheet: ReferenceSheet | null;
+  onPersonalityChange: (p: ToyPersonality) => void;
+  onVoiceChange: (v: VoiceSettings) => void;
+  onPreviewVoice: () => void;
+  onArtStyleChange: (style: ArtStyle) => void;
+};
+
+const Slider = ({ label, value, min, max, step, onChange }: { label: string; value: number; min: number; max: number; step: number; onChange: (v: number) => void }) =>
+  jsx('label', {
+    className: 'profile-slider',
+    children: [
+      jsx('span', { children: `${label}: ${value.toFixed(2)}` }),
+      jsx('input', { type: 'range', min, max, step, value, onInput: (e: any) => onChange(Number(e.target.value)) }),
+    ],
+  });
+
+export function ToyProfilePanel({ t, personality, voice, voices, artStyle, sheet, onPersonalityChange, onVoiceChange, onPreviewVoice, onArtStyleChange }: Props) {
+  // the favourites box keeps its raw text while typing; the profile gets the parsed list
+  const [favouritesText, setFavouritesText] = useState(personality.favouriteThings.join(', '));
+  useEffect(() => setFavouritesText(personality.favouriteThings.join(', ')), [personality.favouriteThings.join('|')]);
+
+  const toggleTrait = (trait: string) => {
+    const has = personality.traits.includes(trait);
+    const traits = has ? personality.traits.filter((t) => t !== trait) : [...personality.traits, trait];
+    if (traits.length) onPersonalityChange({ ...personality, traits });
+  };
+
+  return jsx('details', {
+    className: 'toy-profile-panel',
+    children: [
+      jsx('summary', { children: t('profile.title') }),
+      jsx('fieldset', {
+        children: [
+          jsx('legend', { children: t('profile.character') }),
+          jsx('div', {
+            className: 'trait-chips',
+            children: TRAIT_OPTIONS.map((trait) =>
+              jsx(
+                'button',
+                {
+                  type: 'button',
+                  className: `chip ${personality.traits.includes(trait) ? 'selected' : ''}`,
+                  'aria-pressed': personality.traits.includes(trait),
+                  onClick: () => toggleTrait(trait),
+                  children: t(`trait.${trait}` as MessageKey),
+                },
+                trait
+              )
+            ),
+          }),
+          jsx('label', {
+            children: [
+              t('profile.speakingStyle'),
+              jsx('select', {
+                value: personality.speakingStyle,
+                onChange: (e: any) => onPersonalityChange({ ...personality, speakingStyle: e.target.value }),
+                children: SPEAKING_STYLES.map((s) => jsx('option', { value: s, children: t(`style.${s}` as MessageKey) }, s)),
+              }),
+            ],
+          }),
+          jsx('label', {
+            children: [
+              t('profile.favourites'),
+              jsx('input', {
+                type: 'text',
+                value: favouritesText,
+                placeholder: t('profile.favouritesPlaceholder'),
+                onInput: (e: any) => setFavouritesText(e.target.value),
+                onBlur: () => onPersonalityChange({ ...personality, favouriteThings: parseList(favouritesText) }),
+              }),
+            ],
+          }),
+          jsx('label', {
+            children: [
+              t('profile.ageLevel'),
+              jsx('select', {
+                value: personality.ageLevel,
+                onChange: (e: any) => onPersonalityChange({ ...personality, ageLevel: e.target.value as AgeLevel }),
+                children: AGE_LEVELS.map((a) => jsx('option', { value: a.value, children: t(`age.${a.value}` as MessageKey) }, a.value)),
+              }),
+            ],
+          }),
+        ],
+      }),
+      jsx('fieldset', {
+        children: [
+          jsx('legend', { children: t('profile.voice') }),
+          !voices.length && jsx('p', { className: 'profile-note', children: t('profile.noVoice') }),
+          jsx('label', {
+            children: [
+              t('profile.voice'),
+              jsx('select', {
+                value: voice.voiceURI ?? '',
+                onChange: (e: any) => onVoiceChange({ ...voice, voiceURI: e.target.value || null }),
+                children: [
+                  jsx('option', { value: '', children: t('profile.automatic') }, ''),
+                  ...voices.map((v) => jsx('option', { value: v.voiceURI, children: `${v.name} (${v.lang})` }, v.voiceURI)),
+                ],
+              }),
+            ],
+          }),
+          jsx(Slider, { label: t('profile.pitch'), value: voice.pitch, min: 0, max: 2, step: 0.05, onChange: (pitch) => onVoiceChange({ ...voice, pitch }) }),
+          jsx(Slider, { label: t('profile.speed'), value: voice.rate, min: 0.5, max: 2, step: 0.05, onChange: (rate) => onVoiceChange({ ...voice, rate }) }),
+          jsx(Slider, { label: t('profile.volume'), value: voice.volume, min: 0, max: 1, step: 0.05, onChange: (volume) => onVoiceChange({ ...voice, volume }) }),
+          jsx('button', { type: 'button', className: 'secondary-btn', onClick: onPreviewVoice, children: t('profile.preview') }),
+        ],
+      }),
+      jsx('fieldset', {
+        children: [
+          jsx('legend', { children: t('profile.pictures') }),
+          jsx('label', {
+            children: [
+              t('profile.artStyle'),
+              jsx('select', {
+                value: artStyle,
+                onChange: (e: any) => onArtStyleChange(e.target.value as ArtStyle),
+                children: ART_STYLES.map((s) => jsx('option', { value: s.value, children: t(`artStyle.${s.value}` as MessageKey) }, s.value)),
+              }),
+            ],
+          }),
+          sheet && jsx('p', { className: 'profile-note', children: t('profile.sheet', { details: [...sheet.colours, ...sheet.features].join(', ') }) }),
+        ],
+      }),
+    ],
+  });
+}
@@ -1,13 +1,29 @@
 /**
  * Cleaned and hardened Preact + TypeScript app
- * - Improved error handling for quota / rate limits
- * - Exponential backoff retry (for transient errors)
+ * - Typed request outcomes with child-friendly messages (lib/requestRunner.ts)
+ * - Local word filter on commands and replies, daily limits and a PIN-protected
+ *   parent panel (lib/safety.ts, lib/parentalControls.ts)
+ * - Selectable language for UI strings, speech and replies (lib/i18n.ts)
+ * - Storybook mode: illustrated, branching stories read aloud page by page (lib/story.ts)
+ * - Mini-games the toy hosts, with rules and per-toy scores kept locally (lib/games.ts)
+ * - Lesson packs with local answer checking, spaced repetition and per-child progress (lib/lessons.ts)
+ * - Structured replies with an emotion, a reaction and follow-up ideas (lib/toyReply.ts)
+ * - Playdates: friends from the toy library answer in their own bubbles and voices (lib/playdate.ts)
+ * - Pictures kept true to the toy by a reference sheet, in a chosen art style (lib/referenceSheet.ts)
+ * - Hands-free conversation with an optional wake phrase and barge-in (lib/handsFree.ts)
+ * - In-browser speech-to-text where the Web Speech API is missing (lib/localSpeech.ts)
+ * - Live voice: realtime spoken conversation over the /api/live bridge (lib/liveVoice.ts)
+ * - Camera capture with a framing guide, crop and rotate; photos are scaled down before sending (lib/photoCapture.ts)
+ * - 3D models in glTF, OBJ, FBX, STL or PLY, with sidecar files or zipped, and an inspector (lib/modelLoader.ts)
+ * - A 2.5D stand-in cut out of the toy photo when there is no model file (lib/photoModel.ts)
+ * - Keepsake export of the session as a self-contained HTML file or print layout (lib/keepsake.ts)
+ * - Jittered backoff retry (for transient errors), cancelled by Start Over
  * - Safer parsing of generateContent response
  * - Fixes: FileReader typing, speechSynthesis voices, recognition cleanup,
  *   URL.revokeObjectURL, audio unlock pattern
  *
- * NOTE: keep your API key server-side if possible. If you must call from browser,
- * make sure it's protected appropriately (CORS, short-lived tokens, etc).
+ * NOTE: the Gemini API key lives server-side (server/toyApi.ts); this app only
+ * calls the /api/* proxy endpoints through lib/toyApi.ts.
  */
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
@@ -16,24 +32,134 @@ import { render } from 'preact';
 import type { Ref } from 'preact';
 import { useEffect, useRef, useState } from 'preact/hooks';
 import { jsx } from 'preact/jsx-runtime';
-import { GoogleGenAI, Modality } from '@google/genai';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
-import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
+import { createChildTurn, createToyTurn } from './lib/conversation';
+import type { ChatTurn, InlineImagePart } from './lib/conversation';
+import { runRequest } from './lib/requestRunner';
+import type { FailureKind, RequestOutcome, RunOptions } from './lib/requestRunner';
+import { createSentenceChunker, splitSentences, wordRangeAt, wordStarts } from './lib/speech';
+import type { SpokenTarget } from './lib/speech';
+import { bundleModelFiles, loadModel, MODEL_FILE_ACCEPT } from './lib/modelLoader';
+import type { ModelErrorCode, ModelStats } from './lib/modelLoader';
+import { cutOutToy, loadPhotoModel } from './lib/photoModel';
+import { canUseCamera, preparePhoto } from './lib/photoCapture';
+import { actionForCommand, easeToRest, findClip, findIdleClip, proceduralPose, REST_POSE } from './lib/toyActions';
+import type { ToyAction, ToyPose } from './lib/toyActions';
+import { describeReferenceSheet, describeToy, requestActionImage, streamToyReply, writeStoryPage } from './lib/toyApi';
+import { DEFAULT_PERSONALITY, DEFAULT_VOICE, normalizePersonality, normalizeVoice } from './lib/personality';
+import type { ToyPersonality, VoiceSettings } from './lib/personality';
+import { DEFAULT_ART_STYLE, normalizeArtStyle, normalizeReferenceSheet } from './lib/referenceSheet';
+import type { ArtStyle, ReferenceSheet } from './lib/referenceSheet';
+import type { Emotion, ToyReply } from './lib/toyReply';
+import { buildActionImagePrompt, buildGameLinePrompt, buildLessonLinePrompt, buildLiveInstructions, buildReplyPrompt, buildStoryIllustrationPrompt, buildStoryPagePrompt } from './lib/prompts';
+import type { HostedLinePromptContext } from './lib/prompts';
+import { createTranslator, LOCALES, loadLocale, pickVoice, saveLocale, voicesForLocale } from './lib/i18n';
+import type { LocaleCode, MessageKey, Translate } from './lib/i18n';
+import { createImageId, createToyId, deleteImage, listImages, saveImage, saveToy } from './lib/toyLibrary';
+import type { GalleryImage, ToyRecord } from './lib/toyLibrary';
+import { checkText, finishedWords } from './lib/safety';
+import { addressedToys, seatVoice } from './lib/playdate';
+import { createHandsFreeListener, isLikelyEcho } from './lib/handsFree';
+import type { HandsFreeEvents, HandsFreeListener } from './lib/handsFree';
+import { canRecordSpeech, startRecording, transcribe } from './lib/localSpeech';
+import type { Recording } from './lib/localSpeech';
+import { canTalkLive, liveVoiceName, startLiveVoice } from './lib/liveVoice';
+import type { LiveVoice, LiveVoiceEvents } from './lib/liveVoice';
+import type { Friend, SceneToy } from './lib/playdate';
+import { buildKeepsakeHtml, downloadFile, imageFileName, keepsakeFileName, printKeepsake } from './lib/keepsake';
+import { createStory, createStoryPage, isBranchPage, STORY_PAGE_COUNT, storySoFar } from './lib/story';
+import type { Story, StoryPage } from './lib/story';
+import { canPlay, challengeText, fallbackLine, gameFacts, normalizeGameScores, playTurn, recordScore, startGame } from './lib/games';
+import type { Game, GameKind, GameScores, GameTurn } from './lib/games';
+import { currentItem, lessonFallback, lessonFacts, lessonOver, loadLessonProgress, playLessonTurn, recordGrade, recordLesson, saveLessonProgress, startLesson } from './lib/lessons';
+import type { LessonProgress, LessonSession, LessonTurn } from './lib/lessons';
+import { loadLessonPacks } from './lib/lessonPacks';
+import type { LessonPack } from './lib/lessonPacks';
+import { limitReached, loadParentSettings, loadUsage, logSafetyEvent, saveParentSettings, updateUsage, wordListsFor } from './lib/parentalControls';
+import type { ParentSettings } from './lib/parentalControls';
+import { CameraCapture } from './components/CameraCapture';
+import { GalleryPanel } from './components/GalleryPanel';
+import { ParentPanel } from './components/ParentPanel';
+import { PlaydatePanel } from './components/PlaydatePanel';
+import { SpokenText } from './components/SpokenText';
+import { StoryBook } from './components/StoryBook';
+import { GameBoard, GamePicker } from './components/GameBoard';
+import { LessonBoard, LessonPicker } from './components/LessonBoard';
+import { ToyLibraryPicker } from './components/ToyLibraryPicker';
+import { ToyProfilePanel } from './components/ToyProfilePanel';
 
 // ---------- Configuration ----------
-const SAFE_RETRY_COUNT = 2;
-const RETRY_BASE_DELAY_MS = 800; // exponential backoff base
-
-// instantiate SDK client (ensure API key set securely in your runtime)
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+const FAILURE_MESSAGES: Record<FailureKind, MessageKey> = {
+  rate_limited: 'failure.rateLimited',
+  quota: 'failure.quota',
+  safety: 'failure.safety',
+  network: 'failure.network',
+  server: 'failure.server',
+  rejected: 'failure.rejected',
+  unknown: 'failure.unknown',
+};
+const EMOTION_EMOJI: Record<Emotion, string> = {
+  happy: '😊',
+  excited: '🤩',
+  silly: '🤪',
+  curious: '🤔',
+  calm: '😌',
+  surprised: '😮',
+  sad: '😢',
+  sleepy: '😴',
+};
+const SAVE_DEBOUNCE_MS = 400; // library writes while a reply streams in
+const USAGE_TICK_MS = 15_000; // how often visible play time is added to today's usage
+const WORD_ESTIMATE_MS = 380; // per word at rate 1, for voices that send no boundary events
+
+// what the speech synthesizer is doing, for highlighting, talking animations and the controls
+type SpeechUi = { active: boolean; paused: boolean; turnId: string | null; word: [number, number] | null; ticks: number };
+const SPEECH_IDLE: SpeechUi = { active: false, paused: false, turnId: null, word: null, ticks: 0 };
+
+const LIMIT_MESSAGES: Record<'minutes' | 'commands', MessageKey> = {
+  minutes: 'limit.minutes',
+  commands: 'limit.commands',
+};
+
+// live voice errors (server/liveApi.ts codes plus lib/liveVoice.ts ones); anything else is 'error.live'
+const LIVE_ERROR_MESSAGES: Record<string, MessageKey> = {
+  rate_limited: 'failure.rateLimited',
+  microphone: 'error.micPermission',
+  session_timeout: 'error.liveEnded',
+  closed: 'error.liveEnded',
+};
+
+const MODEL_ERROR_MESSAGES: Record<ModelErrorCode, MessageKey> = {
+  unsupported: 'error.notModel',
+  'no-model': 'model.error.noModel',
+  'missing-file': 'model.error.missingFile',
+  corrupt: 'model.error.corrupt',
+};
+
+// the child and toy turns of one spoken exchange in live mode, filled in as transcripts arrive
+type LiveExchange = { childId: string | null; toyId: string | null; heard: string; said: string; filtered: boolean };
+const LIVE_EXCHANGE_IDLE: LiveExchange = { childId: null, toyId: null, heard: '', said: '', filtered: false };
+
+// a toy line in a game or lesson, see sayHostedLine
+type HostedLine = {
+  buildPrompt: (context: HostedLinePromptContext) => string;
+  facts: string;
+  fallback: string; // the app's own line
+  action: ToyAction | null; // unless the reply names one
+  topic: string; // for the safety log
+  history: ChatTurn[];
+  stillCurrent: () => boolean;
+};
+
+type OpenLesson = { pack: LessonPack; session: LessonSession };
 
 // Speech recognition compat
 const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
 const recognitionPrototype = SpeechRecognition ? new SpeechRecognition() : null;
 
 // ---------- Helpers ----------
-function base64Encode(file: File): Promise<string> {
+function base64Encode(file: Blob): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onloadend = () => {
@@ -50,40 +176,97 @@ function base64Encode(file: File): Promise<string> {
   });
 }
 
-function isQuotaError(err: any): boolean {
-  if (!err) return false;
-  const msg = String(err.message || err).toLowerCase();
-  return msg.includes('quota') || msg.includes('limit') || msg.includes('exceeded') || msg.includes('rate limit') || msg.includes('429');
-}
-
-function sleep(ms: number) {
-  return new Promise((res) => setTimeout(res, ms));
+/** Child-friendly message for a failed outcome; `fallback` replaces the generic unknown text. */
+function failureMessage(t: Translate, outcome: RequestOutcome<unknown>, fallback?: MessageKey): string {
+  if (outcome.kind !== 'failed') return '';
+  if (outcome.failure === 'unknown' && fallback) return t(fallback);
+  return t(FAILURE_MESSAGES[outcome.failure]);
 }
 
 // ---------- App ----------
 function App() {
+  const [locale, setLocale] = useState<LocaleCode>(() => loadLocale());
+  const t = createTranslator(locale);
+  const defaultToyName = t('toy.defaultName');
+
   // UI states
   const [toyImage, setToyImage] = useState<string | null>(null); // object URL for display
   const [toyImagePart, setToyImagePart] = useState<any | null>(null); // inlineData for SDK
   const [toyModel, setToyModel] = useState<File | null>(null);
+  const [toyCutout, setToyCutout] = useState<Blob | null>(null); // the toy cut out of its photo, for the 2.5D stand-in
+  const [cutoutProgress, setCutoutProgress] = useState<number | null>(null); // percent while the cut-out is being made
   const [toyDescription, setToyDescription] = useState<string>('');
+  const [toyId, setToyId] = useState<string | null>(null); // library record of the current toy
+  const [toyName, setToyName] = useState<string>(defaultToyName);
+  const [toyPersonality, setToyPersonality] = useState<ToyPersonality>(DEFAULT_PERSONALITY);
+  const [toyVoice, setToyVoice] = useState<VoiceSettings>(DEFAULT_VOICE);
+  const [toySheet, setToySheet] = useState<ReferenceSheet | null>(null); // how the toy looks, for every picture prompt
+  const [toyArtStyle, setToyArtStyle] = useState<ArtStyle>(DEFAULT_ART_STYLE);
   const [userCommand, setUserCommand] = useState<string>('');
-  const [toyReply, setToyReply] = useState<string>('');
-  const [actionImage, setActionImage] = useState<string | null>(null);
+  const [turns, setTurns] = useState<ChatTurn[]>([]); // conversation transcript
   const [isLoadingDescription, setIsLoadingDescription] = useState(false);
   const [isLoadingResponse, setIsLoadingResponse] = useState(false);
+  const [pendingImages, setPendingImages] = useState(0); // action pictures still on their way
   const [isListening, setIsListening] = useState(false);
+  const [handsFree, setHandsFree] = useState(false); // continuous listening (lib/handsFree.ts)
+  const [wakeWord, setWakeWord] = useState(false); // hands-free only takes sentences that name a toy
+  const [wakeArmed, setWakeArmed] = useState(false); // the name was said; the next sentence is the command
+  const [handsFreeNote, setHandsFreeNote] = useState<string>(''); // why hands-free stopped by itself
+  const [localMic, setLocalMic] = useState<'idle' | 'recording' | 'transcribing'>('idle'); // fallback without SpeechRecognition
+  const [micLevel, setMicLevel] = useState(0);
+  const [modelProgress, setModelProgress] = useState<number | null>(null); // speech model download, first use only
+  const [live, setLive] = useState<'off' | 'connecting' | 'on'>('off'); // realtime voice mode (lib/liveVoice.ts)
+  const [liveSpeaking, setLiveSpeaking] = useState(false);
+  const [liveTicks, setLiveTicks] = useState(0); // bumped per transcript piece, moves the 3D mouth
   const [error, setError] = useState<string>('');
   const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
   const [lastSendAt, setLastSendAt] = useState<number>(0);
+  const [parentSettings, setParentSettings] = useState<ParentSettings>(() => loadParentSettings());
+  const [showParentPanel, setShowParentPanel] = useState(false);
+  const [toyAction, setToyAction] = useState<ToyAction | null>(null); // 3D reaction, set while the reply is spoken
+  const [speech, setSpeech] = useState<SpeechUi>(SPEECH_IDLE);
+  const [story, setStory] = useState<Story | null>(null); // storybook mode replaces the chat while set
+  const [pastStories, setPastStories] = useState<Story[]>([]); // closed stories, kept for the keepsake
+  const [game, setGame] = useState<Game | null>(null); // the mini-game being played, shown above the command bar
+  const [choosingGame, setChoosingGame] = useState(false);
+  const [toyScores, setToyScores] = useState<GameScores>({});
+  const [lesson, setLesson] = useState<OpenLesson | null>(null); // shown above the command bar, like a game
+  const [lessonChoice, setLessonChoice] = useState<{ packs: LessonPack[]; progress: LessonProgress } | null>(null); // the open lesson picker
+  const [gallery, setGallery] = useState<GalleryImage[]>([]); // every picture of the current toy, newest first
+  const [showCamera, setShowCamera] = useState(false);
+  const [showGallery, setShowGallery] = useState(false);
+  const [friends, setFriends] = useState<Friend[]>([]); // playdate guests alongside the main toy
+  const [joiningFriend, setJoiningFriend] = useState(false);
+  const [followUps, setFollowUps] = useState<string[]>([]); // suggested next commands from the last reply
+  const filterWords = wordListsFor(parentSettings, locale); // the toy talks in the app's language
 
   // refs
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const modelInputRef = useRef<HTMLInputElement | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const recognitionRef = useRef<any | null>(null);
+  const handsFreeRef = useRef<HandsFreeListener | null>(null);
+  const handsFreeEventsRef = useRef<HandsFreeEvents | null>(null); // rebuilt every render, read by the listener
+  const heardEchoRef = useRef(false); // the sentence being heard so far matches what the toy is saying
+  const replyMutedRef = useRef(false); // the child talked over the reply, so the rest of it is only shown
+  const queuedCommandRef = useRef<string | null>(null); // heard hands-free while a reply was still coming
+  const recordingRef = useRef<Recording | null>(null);
+  const liveRef = useRef<LiveVoice | null>(null);
+  const liveEventsRef = useRef<LiveVoiceEvents | null>(null); // rebuilt every render, read by the session
+  const liveExchangeRef = useRef<LiveExchange>(LIVE_EXCHANGE_IDLE); // transcript turns of the current spoken exchange
   const toyImageObjectUrlRef = useRef<string | null>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
+  const activeRequestsRef = useRef(new Set<AbortController>()); // aborted together by Start Over
+  const turnsRef = useRef<ChatTurn[]>([]); // mirror of `turns` for async callbacks (mic results)
+  const responseAreaRef = useRef<HTMLDivElement | null>(null);
+  const toyPhotoRef = useRef<Blob | null>(null);
+  const toyCreatedAtRef = useRef<number>(0);
+  const replyActionRef = useRef<ToyAction | null>(null); // reaction for the reply being spoken
+  const speechQueueRef = useRef({ generation: 0, pending: 0 }); // utterances queued since the last cancel
+  const speechPausedRef = useRef(false);
+  const storyRef = useRef<Story | null>(null); // mirror of `story` for page requests finishing later
+  const gameRef = useRef<Game | null>(null); // mirror of `game` for the toy's lines finishing later
+  const lessonRef = useRef<OpenLesson | null>(null); // mirror of `lesson`, likewise
+  const hostedLineRef = useRef(0); // bumped per game or lesson line; only the latest one ends the loading state
 
   // initialize recognition once (but don't reuse live instance across sessions)
   useEffect(() => {
@@ -101,20 +284,73 @@ function App() {
         } catch {}
         recognitionRef.current = null;
       }
+      handsFreeRef.current?.stop();
+      recordingRef.current?.cancel();
+      liveRef.current?.stop();
     };
   }, []);
 
-  // speak when toyReply changes
+  // the silence timeout waits while the toy is thinking or talking; a command heard meanwhile goes next
   useEffect(() => {
-    if (toyReply) {
-      playSound('reply');
-      speakText(toyReply);
-    }
-  }, [toyReply]);
+    handsFreeRef.current?.setBusy(isLoadingResponse || speech.active);
+    if (isLoadingResponse || !queuedCommandRef.current) return;
+    const command = queuedCommandRef.current;
+    queuedCommandRef.current = null;
+    sendCommand(command);
+  }, [isLoadingResponse, speech.active]);
+
+  // save the current toy to the library whenever something about it changes
+  useEffect(() => {
+    const photo = toyPhotoRef.current;
+    if (!toyId || !photo || isLoadingDescription) return;
+    const timer = setTimeout(() => {
+      saveToy({
+        id: toyId,
+        name: toyName.trim() || defaultToyName,
+        personality: toyPersonality,
+        voice: toyVoice,
+        photo,
+        description: toyDescription,
+        sheet: toySheet,
+        artStyle: toyArtStyle,
+        model: toyModel,
+        cutout: toyCutout,
+        turns,
+        scores: toyScores,
+        createdAt: toyCreatedAtRef.current,
+        updatedAt: Date.now(),
+      }).catch((err) => console.warn('Could not save toy to the library', err));
+    }, SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [toyId, toyName, toyPersonality, toyVoice, toyDescription, toySheet, toyArtStyle, toyModel, toyCutout, turns, toyScores, isLoadingDescription]);
+
+  // the gallery follows the open toy
+  useEffect(() => {
+    setGallery([]);
+    if (!toyId) return;
+    let cancelled = false;
+    listImages(toyId)
+      .then((images) => !cancelled && setGallery(images))
+      .catch((err) => console.warn('Could not load the gallery', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [toyId]);
 
+  // count play time while a toy is open and the page is visible
   useEffect(() => {
-    if (actionImage) playSound('image');
-  }, [actionImage]);
+    if (!toyImage) return;
+    const timer = setInterval(() => {
+      if (document.visibilityState === 'visible') updateUsage({ activeMs: USAGE_TICK_MS });
+    }, USAGE_TICK_MS);
+    return () => clearInterval(timer);
+  }, [toyImage]);
+
+  // keep the transcript scrolled down as turns arrive and stream in
+  useEffect(() => {
+    const area = responseAreaRef.current;
+    if (area) area.scrollTop = area.scrollHeight;
+  }, [turns, pendingImages]);
 
   // load voices
   useEffect(() => {
@@ -219,22 +455,172 @@ function App() {
     }
   };
 
-  const speakText = (text: string) => {
+  const stopSpeaking = () => {
+    // utterances from before the cancel may still report end/error; the new generation ignores them
+    speechQueueRef.current = { generation: speechQueueRef.current.generation + 1, pending: 0 };
+    setToyAction(null);
+    setSpeech(SPEECH_IDLE);
+    const wasPaused = speechPausedRef.current;
+    speechPausedRef.current = false;
     if (!('speechSynthesis' in window)) return;
-    if (!text) return;
     try {
       window.speechSynthesis.cancel();
+      // a paused synthesizer stays paused for the next utterance otherwise
+      if (wasPaused) window.speechSynthesis.resume();
     } catch {}
+  };
+
+  const pauseSpeaking = () => {
+    if (!('speechSynthesis' in window)) return;
+    window.speechSynthesis.pause();
+    speechPausedRef.current = true;
+    setSpeech((s) => ({ ...s, paused: true }));
+  };
+
+  const resumeSpeaking = () => {
+    if (!('speechSynthesis' in window)) return;
+    window.speechSynthesis.resume();
+    speechPausedRef.current = false;
+    setSpeech((s) => ({ ...s, paused: false }));
+  };
+
+  // queues after anything already being spoken (used sentence by sentence while streaming);
+  // `target` ties the words to a transcript turn so they can be highlighted as they are spoken,
+  // `voice` is the main toy's unless a playdate friend is talking
+  const speakText = (text: string, target?: SpokenTarget, voice: VoiceSettings = toyVoice) => {
+    if (!text) return;
+    if (!('speechSynthesis' in window)) {
+      // nothing is spoken, so show the reaction for about as long as the text takes to read
+      const action = replyActionRef.current;
+      if (action) {
+        setToyAction(action);
+        setTimeout(() => setToyAction((current) => (current === action ? null : current)), Math.max(1500, text.length * 60));
+      }
+      return;
+    }
     const u = new SpeechSynthesisUtterance(text);
-    // choose a voice
-    const preferred = voices.find(v => /google us english/i.test(v.name)) || voices.find(v => v.lang.startsWith('en') && v.name.toLowerCase().includes('female')) || voices.find(v => v.lang.startsWith('en'));
+    // the toy's chosen voice, else a default for the language; with no match the browser picks by `lang`
+    u.lang = LOCALES[locale].speechLang;
+    const preferred = pickVoice(voices, locale, voice.voiceURI);
     if (preferred) u.voice = preferred;
-    u.pitch = 1.5;
-    u.rate = 1.15;
-    u.volume = 0.95;
+    u.pitch = voice.pitch;
+    u.rate = voice.rate;
+    u.volume = voice.volume;
+    // the 3D toy moves while its reply is being spoken and settles once the queue drains
+    const queue = speechQueueRef.current;
+    queue.pending++;
+    const offset = target?.offset ?? 0;
+    const showWord = (range: [number, number]) => setSpeech((s) => ({ ...s, word: [range[0] + offset, range[1] + offset], ticks: s.ticks + 1 }));
+
+    // voices without boundary events get an estimated word-by-word progression instead
+    let estimator: ReturnType<typeof setInterval> | undefined;
+    const stopEstimator = () => clearInterval(estimator);
+    const startEstimator = () => {
+      const starts = wordStarts(text);
+      let i = 0;
+      estimator = setInterval(() => {
+        if (queue !== speechQueueRef.current || i >= starts.length) return stopEstimator();
+        if (speechPausedRef.current) return;
+        showWord(wordRangeAt(text, starts[i++]));
+      }, WORD_ESTIMATE_MS / u.rate);
+    };
+
+    u.onstart = () => {
+      if (queue !== speechQueueRef.current) return;
+      if (replyActionRef.current) setToyAction(replyActionRef.current);
+      setSpeech((s) => ({ ...s, active: true, turnId: target?.turnId ?? null, word: null }));
+      startEstimator();
+    };
+    u.onboundary = (e: SpeechSynthesisEvent) => {
+      if (queue !== speechQueueRef.current || (e.name && e.name !== 'word')) return;
+      stopEstimator();
+      showWord(wordRangeAt(text, e.charIndex, e.charLength));
+    };
+    u.onend = u.onerror = () => {
+      stopEstimator();
+      if (queue !== speechQueueRef.current) return;
+      queue.pending = Math.max(0, queue.pending - 1);
+      if (!queue.pending) {
+        setToyAction(null);
+        setSpeech(SPEECH_IDLE);
+      }
+    };
     window.speechSynthesis.speak(u);
   };
 
+  const previewVoice = () => {
+    initializeAudio();
+    stopSpeaking();
+    replyActionRef.current = 'wiggle';
+    speakText(t('voice.preview', { name: toyName.trim() || defaultToyName }));
+  };
+
+  /** The voice a transcript turn was spoken in: a friend's seat voice, else the main toy's. */
+  const voiceForTurn = (turn: ChatTurn) => {
+    const seat = turn.role === 'toy' && turn.speakerId ? friends.findIndex((f) => f.id === turn.speakerId) : -1;
+    return seat >= 0 ? seatVoice(friends[seat].voice, seat + 1, voicesForLocale(voices, locale)) : toyVoice;
+  };
+
+  const replayTurn = (turn: ChatTurn) => {
+    initializeAudio();
+    stopSpeaking();
+    replyActionRef.current = null;
+    const voice = voiceForTurn(turn);
+    splitSentences(turn.text).forEach(({ sentence, offset }) => speakText(sentence, { turnId: turn.id, offset }, voice));
+  };
+
+  const appendTurn = (turn: ChatTurn) => {
+    turnsRef.current = [...turnsRef.current, turn];
+    setTurns(turnsRef.current);
+  };
+
+  /** A reply the app gives itself (limits, filtered commands), shown and spoken like a toy turn. */
+  const sayAsToy = (text: string) => {
+    const turn = createToyTurn(text);
+    appendTurn(turn);
+    speakText(text, { turnId: turn.id, offset: 0 });
+  };
+
+  const updateTurn = (id: string, patch: Partial<ChatTurn>) => {
+    turnsRef.current = turnsRef.current.map((t) => (t.id === id ? ({ ...t, ...patch } as ChatTurn) : t));
+    setTurns(turnsRef.current);
+  };
+
+  const updateStory = (update: (story: Story | null) => Story | null) => {
+    storyRef.current = update(storyRef.current);
+    setStory(storyRef.current);
+  };
+
+  const updateGame = (update: (game: Game | null) => Game | null) => {
+    gameRef.current = update(gameRef.current);
+    setGame(gameRef.current);
+  };
+
+  const updateLesson = (update: (lesson: OpenLesson | null) => OpenLesson | null) => {
+    lessonRef.current = update(lessonRef.current);
+    setLesson(lessonRef.current);
+  };
+
+  /** Applies `patch` to a page, whether its story is still open or already closed. */
+  const updateStoryPage = (storyId: string, pageId: string, patch: Partial<StoryPage>) => {
+    const patchStory = (s: Story) => (s.id === storyId ? { ...s, pages: s.pages.map((p) => (p.id === pageId ? { ...p, ...patch } : p)) } : s);
+    updateStory((s) => s && patchStory(s));
+    setPastStories((list) => list.map(patchStory));
+  };
+
+  /** Closes the open story, keeping it for the keepsake if it got any pages. */
+  const archiveStory = () => {
+    const current = storyRef.current;
+    if (current?.pages.length) setPastStories((list) => [...list, { ...current, writing: false }]);
+    updateStory(() => null);
+  };
+
+  const resetTurns = () => {
+    turnsRef.current = [];
+    setTurns([]);
+    setPendingImages(0);
+  };
+
   // ---------- Error helper ----------
   const handleError = (message: string) => {
     initializeAudio();
@@ -244,44 +630,111 @@ function App() {
     setTimeout(() => setError(''), 6000);
   };
 
-  const startOver = () => {
+  // a 3D model picked on the upload view survives the photo upload that follows it
+  const resetSession = ({ keepModel = false } = {}) => {
     initializeAudio();
     playSound('click');
-    if ('speechSynthesis' in window) window.speechSynthesis.cancel();
+    stopSpeaking();
     setToyImage(null);
     setToyImagePart(null);
-    setToyModel(null);
+    if (!keepModel) setToyModel(null);
+    setToyCutout(null);
+    setCutoutProgress(null);
     setToyDescription('');
+    setToyId(null);
+    setToyName(defaultToyName);
+    setToyPersonality(DEFAULT_PERSONALITY);
+    setToyVoice(DEFAULT_VOICE);
+    setToySheet(null);
+    setToyArtStyle(DEFAULT_ART_STYLE);
+    toyPhotoRef.current = null;
     setUserCommand('');
-    setToyReply('');
-    setActionImage(null);
+    setFollowUps([]);
+    resetTurns();
+    updateStory(() => null);
+    setPastStories([]);
+    updateGame(() => null);
+    setChoosingGame(false);
+    setToyScores({});
+    updateLesson(() => null);
+    setLessonChoice(null);
+    setShowGallery(false);
+    friends.forEach((f) => URL.revokeObjectURL(f.photoUrl));
+    setFriends([]);
+    handsFreeRef.current?.stop();
+    queuedCommandRef.current = null;
+    recordingRef.current?.cancel();
+    recordingRef.current = null;
+    setLocalMic('idle');
+    liveRef.current?.stop();
     setError('');
     if (fileInputRef.current) fileInputRef.current.value = '';
-    if (modelInputRef.current) modelInputRef.current.value = '';
+    if (modelInputRef.current && !keepModel) modelInputRef.current.value = '';
     if (toyImageObjectUrlRef.current) {
       URL.revokeObjectURL(toyImageObjectUrlRef.current);
       toyImageObjectUrlRef.current = null;
     }
-    // abort any ongoing request
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-      abortControllerRef.current = null;
+    // abort any ongoing request (including ones waiting to retry)
+    activeRequestsRef.current.forEach((ctrl) => ctrl.abort());
+    activeRequestsRef.current.clear();
+  };
+
+  const startOver = () => resetSession();
+
+  /** Runs a model call through the shared runner, cancellable by Start Over. */
+  const runTracked = async <T,>(task: (signal?: AbortSignal) => Promise<T>, { canRetry }: Pick<RunOptions, 'canRetry'> = {}): Promise<RequestOutcome<T>> => {
+    const ctrl = new AbortController();
+    activeRequestsRef.current.add(ctrl);
+    try {
+      return await runRequest(task, {
+        signal: ctrl.signal,
+        canRetry,
+        onRetry: ({ attempt, delayMs, failure }) => console.warn(`Retrying (${failure}) attempt ${attempt} in ${Math.round(delayMs)}ms`),
+      });
+    } finally {
+      activeRequestsRef.current.delete(ctrl);
     }
   };
 
   // ---------- File handlers ----------
-  const handleFileChange = async (evt: Event) => {
+  // built once per toy; pictures can do without it, so a failure is only logged
+  const buildReferenceSheet = async (photo: Blob, image: InlineImagePart, description: string) => {
+    const outcome = await runTracked((signal) => describeReferenceSheet(image, description, signal));
+    if (outcome.kind === 'ok') {
+      // the toy may have changed in the meantime
+      if (toyPhotoRef.current === photo) setToySheet(normalizeReferenceSheet(outcome.value.sheet));
+    } else if (outcome.kind === 'failed') {
+      console.warn('Could not build the reference sheet:', outcome.error);
+    }
+  };
+
+  // the 2.5D stand-in for toys without a model file, made in the page; without it the stage stays empty
+  const buildCutout = async (photo: Blob) => {
+    setCutoutProgress(0);
+    try {
+      const cutout = await cutOutToy(photo, (percent) => toyPhotoRef.current === photo && setCutoutProgress(percent));
+      if (toyPhotoRef.current === photo) setToyCutout(cutout);
+    } catch (err) {
+      console.warn('Could not cut the toy out of its photo:', err);
+    } finally {
+      if (toyPhotoRef.current === photo) setCutoutProgress(null);
+    }
+  };
+
+  const handleFileChange = (evt: Event) => {
     const el = evt.target as HTMLInputElement;
     const file = el.files ? el.files[0] : null;
-    if (!file) return;
+    if (file) startWithPhoto(file);
+  };
+
+  // a picked file or a camera snapshot; either is scaled down before it is sent or saved
+  const startWithPhoto = async (file: File) => {
     if (!file.type.startsWith('image/')) {
-      handleError('Please upload an image file.');
+      handleError(t('error.notImage'));
       return;
     }
 
-    startOver();
-    initializeAudio();
-    playSound('click');
+    resetSession({ keepModel: true });
 
     // show quickly
     const objUrl = URL.createObjectURL(file);
@@ -290,59 +743,27 @@ function App() {
     setIsLoadingDescription(true);
 
     try {
-      const b64 = await base64Encode(file);
-      const imagePart = { inlineData: { data: b64, mimeType: file.type } };
+      const photo = await preparePhoto(file);
+      const b64 = await base64Encode(photo);
+      const imagePart = { inlineData: { data: b64, mimeType: photo.type } };
       setToyImagePart(imagePart);
-
-      // call the SDK with retry/backoff
-      let attempt = 0;
-      let lastErr: any = null;
-      while (attempt <= SAFE_RETRY_COUNT) {
-        try {
-          // create abort controller for this request
-          abortControllerRef.current = new AbortController();
-
-          const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [imagePart, { text: "Describe this toy in a few simple, friendly words for a child." }] },
-            // if SDK supports passing signal, include it
-            // @ts-ignore
-            signal: abortControllerRef.current.signal,
-          });
-          // FIX: Use the recommended .text accessor for the response, which is safer and simpler.
-          // parse safely
-          const parsedText = response.text || '';
-
-          if (parsedText) {
-            setToyDescription(parsedText);
-          } else {
-            setToyDescription('A friendly toy! (Could not get a detailed description.)');
-          }
-          playSound('success');
-          lastErr = null;
-          break; // success
-        } catch (err: any) {
-          lastErr = err;
-          if (isQuotaError(err)) {
-            handleError("Looks like the daily request limit for the AI model has been reached. Please try again tomorrow.");
-            break; // don't retry on quota exceeded
-          }
-          // for transient network errors, retry
-          attempt += 1;
-          if (attempt > SAFE_RETRY_COUNT) {
-            console.error('Final error describing toy:', err);
-            handleError('Could not describe the toy. Please try again.');
-            break;
-          }
-          const backoff = RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
-          await sleep(backoff);
-        } finally {
-          abortControllerRef.current = null;
-        }
+      toyPhotoRef.current = photo;
+      toyCreatedAtRef.current = Date.now();
+      setToyId(createToyId());
+      if (!toyModel) buildCutout(photo);
+
+      const outcome = await runTracked((signal) => describeToy(imagePart, LOCALES[locale].promptLanguage, signal));
+      if (outcome.kind === 'ok') {
+        setToyDescription(outcome.value.text || t('toy.defaultDescription'));
+        playSound('success');
+      } else if (outcome.kind === 'failed') {
+        console.error('Final error describing toy:', outcome.error);
+        handleError(failureMessage(t, outcome, 'error.describe'));
       }
+      if (outcome.kind !== 'aborted') buildReferenceSheet(photo, imagePart, outcome.kind === 'ok' ? outcome.value.text : '');
     } catch (err) {
       console.error(err);
-      handleError('Failed to read the image or call the API.');
+      handleError(t('error.readImage'));
       // cleanup image preview if needed
       if (toyImageObjectUrlRef.current) {
         URL.revokeObjectURL(toyImageObjectUrlRef.current);
@@ -354,15 +775,126 @@ function App() {
     }
   };
 
-  const handleModelChange = (evt: Event) => {
+  const resumeToy = async (toy: ToyRecord) => {
+    resetSession();
+    const objUrl = URL.createObjectURL(toy.photo);
+    toyImageObjectUrlRef.current = objUrl;
+    setToyImage(objUrl);
+    let imagePart: InlineImagePart;
+    try {
+      const b64 = await base64Encode(toy.photo);
+      imagePart = { inlineData: { data: b64, mimeType: toy.photo.type || 'image/png' } };
+      setToyImagePart(imagePart);
+    } catch (err) {
+      console.error(err);
+      handleError(t('error.openToy'));
+      resetSession();
+      return;
+    }
+    toyPhotoRef.current = toy.photo;
+    toyCreatedAtRef.current = toy.createdAt;
+    turnsRef.current = toy.turns;
+    setTurns(toy.turns);
+    setToyDescription(toy.description);
+    setToyModel(toy.model);
+    setToyCutout(toy.cutout ?? null);
+    setToyName(toy.name);
+    setToyPersonality(normalizePersonality(toy.personality));
+    setToyVoice(normalizeVoice(toy.voice));
+    setToyArtStyle(normalizeArtStyle(toy.artStyle));
+    setToyScores(normalizeGameScores(toy.scores));
+    const sheet = normalizeReferenceSheet(toy.sheet);
+    setToySheet(sheet);
+    setToyId(toy.id);
+    // toys saved before reference sheets get theirs now
+    if (!sheet) buildReferenceSheet(toy.photo, imagePart, toy.description);
+    if (!toy.cutout && !toy.model) buildCutout(toy.photo);
+  };
+
+  // a model with sidecar files (buffers, textures, materials) can be picked as several files or one zip
+  const handleModelChange = async (evt: Event) => {
     const el = evt.target as HTMLInputElement;
-    const file = el.files ? el.files[0] : null;
-    if (!file) return;
-    if (!file.name.toLowerCase().endsWith('.glb')) {
-      handleError('Please upload a .glb model file.');
+    const files = el.files ? Array.from(el.files) : [];
+    el.value = '';
+    if (!files.length) return;
+    try {
+      setToyModel(await bundleModelFiles(files));
+    } catch (err) {
+      console.error(err);
+      handleError(t(MODEL_ERROR_MESSAGES[err?.code] ?? 'error.notModel'));
+    }
+  };
+
+  // ---------- Playdate ----------
+  const addFriend = async (record: ToyRecord) => {
+    const b64 = await base64Encode(record.photo);
+    const friend: Friend = {
+      id: record.id,
+      name: record.name,
+      personality: normalizePersonality(record.personality),
+      voice: normalizeVoice(record.voice),
+      description: record.description,
+      sheet: normalizeReferenceSheet(record.sheet),
+      image: { inlineData: { data: b64, mimeType: record.photo.type || 'image/png' } },
+      photoUrl: URL.createObjectURL(record.photo),
+    };
+    setFriends((list) => (list.some((f) => f.id === friend.id) ? list : [...list, friend]));
+    playSound('success');
+  };
+
+  const inviteFriend = (record: ToyRecord) => {
+    initializeAudio();
+    addFriend(record).catch((err) => {
+      console.error(err);
+      handleError(t('error.inviteFriend'));
+    });
+  };
+
+  // a new friend is described and saved to the library first, so it can be invited (or played with) later
+  const uploadFriend = async (file: File) => {
+    initializeAudio();
+    if (!file.type.startsWith('image/')) {
+      handleError(t('error.notImage'));
       return;
     }
-    setToyModel(file);
+    setJoiningFriend(true);
+    try {
+      const photo = await preparePhoto(file);
+      const b64 = await base64Encode(photo);
+      const image = { inlineData: { data: b64, mimeType: photo.type } };
+      const [outcome, sheetOutcome] = await Promise.all([
+        runTracked((signal) => describeToy(image, LOCALES[locale].promptLanguage, signal)),
+        runTracked((signal) => describeReferenceSheet(image, '', signal)),
+      ]);
+      if (outcome.kind === 'aborted') return;
+      const now = Date.now();
+      const record: ToyRecord = {
+        id: createToyId(),
+        name: t('playdate.friendName', { number: friends.length + 2 }),
+        personality: DEFAULT_PERSONALITY,
+        voice: DEFAULT_VOICE,
+        photo,
+        description: outcome.kind === 'ok' ? outcome.value.text : '',
+        sheet: sheetOutcome.kind === 'ok' ? normalizeReferenceSheet(sheetOutcome.value.sheet) : null,
+        model: null,
+        turns: [],
+        createdAt: now,
+        updatedAt: now,
+      };
+      await saveToy(record).catch((err) => console.warn('Could not save the friend to the library', err));
+      await addFriend(record);
+    } catch (err) {
+      console.error(err);
+      handleError(t('error.inviteFriend'));
+    } finally {
+      setJoiningFriend(false);
+    }
+  };
+
+  const removeFriend = (friend: Friend) => {
+    playSound('click');
+    URL.revokeObjectURL(friend.photoUrl);
+    setFriends((list) => list.filter((f) => f.id !== friend.id));
   };
 
   // ---------- Sending commands ----------
@@ -381,87 +913,584 @@ function App() {
 
     initializeAudio();
     playSound('click');
-    setIsLoadingResponse(true);
-    setToyReply('');
-    setActionImage(null);
     setError('');
+    replyActionRef.current = null;
+    replyMutedRef.current = false;
+    setFollowUps([]);
+    const name = toyName.trim() || defaultToyName;
+
+    // the toy answers locally (and nothing reaches the model) when a limit is up or the command is filtered
+    const limit = limitReached(parentSettings, loadUsage());
+    if (limit) {
+      logSafetyEvent({ kind: 'limit_reached', toyName: name, text: cmd, matched: limit });
+      setUserCommand('');
+      stopSpeaking();
+      sayAsToy(t(LIMIT_MESSAGES[limit]));
+      return;
+    }
+    const check = checkText(cmd, filterWords.blocklist, filterWords.allowlist);
+    if (!check.ok) {
+      logSafetyEvent({ kind: 'command_blocked', toyName: name, text: cmd, matched: check.matched });
+      setUserCommand('');
+      stopSpeaking();
+      sayAsToy(t('safety.blockedCommand'));
+      return;
+    }
+    // during a game or lesson every command is an answer, judged locally (see lib/games.ts, lib/lessons.ts)
+    if (gameRef.current?.challenge) {
+      answerGame(cmd);
+      return;
+    }
+    if (lessonRef.current && !lessonOver(lessonRef.current.session)) {
+      answerLesson(cmd);
+      return;
+    }
+    // in live mode a typed command is answered in the live voice (and counted when the answer is done)
+    if (liveRef.current) {
+      const turn = createChildTurn(cmd);
+      appendTurn(turn);
+      setUserCommand('');
+      liveExchangeRef.current = { ...LIVE_EXCHANGE_IDLE, childId: turn.id, heard: cmd };
+      liveRef.current.sendText(cmd);
+      return;
+    }
+    updateUsage({ commands: 1 });
+    replyActionRef.current = actionForCommand(cmd);
+    setIsLoadingResponse(true);
 
-    // build prompt
-    const combinedPrompt = `You are an AI Toy Companion. The user's command is: "${cmd}".
-Based on the user's command and the provided image of the toy, do two things:
-1) Generate a short, playful, child-like text reply from the toy's perspective.
-2) If appropriate and safe, generate a new cartoon-style image of the toy performing the action described.
-If the command is unsafe or impossible for a toy, politely decline in text and do not generate an image.`;
+    // history is captured before the new child turn is added to the transcript
+    const history = turnsRef.current;
+    appendTurn(createChildTurn(cmd));
+    setUserCommand('');
 
-    // retry loop for transient errors (but not for quota)
-    let attempt = 0;
-    let lastErr: any = null;
+    // everyone in the scene; only friends carry a speaker id, so a toy alone answers as before
+    const language = LOCALES[locale].promptLanguage;
+    const localeVoices = voicesForLocale(voices, locale);
+    const scene: SceneToy[] = [
+      { name, personality: toyPersonality, voice: toyVoice, image: toyImagePart },
+      ...friends.map((f, i) => ({ id: f.id, name: f.name, personality: f.personality, voice: seatVoice(f.voice, i + 1, localeVoices), image: f.image })),
+    ];
+    const playdate = scene.length > 1;
+    const speakers = playdate ? addressedToys(cmd, scene) : scene;
+    const companionsOf = (member: SceneToy) => (playdate ? scene.filter((m) => m !== member).map((m) => ({ name: m.name, image: m.image })) : undefined);
+    const sheets: Record<string, ReferenceSheet> = {};
+    if (toySheet) sheets[name] = toySheet;
+    for (const f of friends) if (f.sheet) sheets[f.name] = f.sheet;
+    const promptFor = (member: SceneToy) => ({
+      command: cmd,
+      name: member.name,
+      personality: member.personality,
+      language,
+      friends: scene.filter((m) => m !== member).map((m) => m.name),
+      sheets,
+      artStyle: toyArtStyle,
+    });
+
+    // each toy's turn is created lazily, by whichever of its text or the picture shows up first
+    const turnIds = new Map<SceneToy, string>();
+    const ensureToyTurn = (member: SceneToy) => {
+      let id = turnIds.get(member);
+      if (!id) {
+        const turn = createToyTurn('', undefined, playdate ? { id: member.id, name: member.name } : undefined);
+        id = turn.id;
+        turnIds.set(member, id);
+        appendTurn(turn);
+      }
+      return id;
+    };
 
-    while (attempt <= SAFE_RETRY_COUNT) {
-      try {
-        abortControllerRef.current = new AbortController();
-        const response = await ai.models.generateContent({
-          model: 'gemini-2.5-flash-image-preview',
-          contents: { parts: [toyImagePart, { text: combinedPrompt }] },
-          config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-          },
-          // @ts-ignore
-          signal: abortControllerRef.current.signal,
-        });
+    // one log entry per command, whether the reply or the picture was declined
+    let declineLogged = false;
+    const logDeclined = () => {
+      if (declineLogged) return;
+      declineLogged = true;
+      logSafetyEvent({ kind: 'model_declined', toyName: name, text: cmd });
+    };
 
-        // FIX: Robustly parse the multimodal response, using the recommended .text accessor for text
-        // and iterating through parts for image data, avoiding deprecated/incorrect properties.
-        // robust parsing:
-        let foundText = '';
-        let foundImageData = '';
-
-        if (response) {
-          foundText = response.text?.trim() ?? '';
-          const parts = response.candidates?.[0]?.content?.parts || [];
-          for (const part of parts) {
-            if (part.inlineData?.data) {
-              foundImageData = part.inlineData.data;
-              break; // Assume one image part is sufficient
-            }
-          }
-        }
+    // the picture (all toys together on a playdate) runs alongside the streamed text
+    // and lands in the turn of the first toy addressed
+    const imagePrompt = buildActionImagePrompt(promptFor(scene[0]));
+    let gotImage = false;
+    let imageDropped = false;
+    let shownImage: { turnId: string; saved: GalleryImage | null } | null = null;
+    setPendingImages((n) => n + 1);
+    const imageDone = runTracked((signal) =>
+      requestActionImage({ image: toyImagePart, history, prompt: imagePrompt, companions: companionsOf(scene[0]) }, signal)
+    ).then((outcome) => {
+      if (outcome.kind === 'ok' && outcome.value.image && !imageDropped) {
+        const { data, mimeType } = outcome.value.image;
+        const imageUrl = `data:${mimeType};base64,${data}`;
+        const turnId = ensureToyTurn(speakers[0]);
+        updateTurn(turnId, { imageUrl });
+        shownImage = { turnId, saved: addToGallery({ kind: 'action', imageUrl, command: cmd, turnId }) };
+        gotImage = true;
+        playSound('image');
+      } else if (outcome.kind === 'failed') {
+        console.warn('Action image failed:', outcome.error);
+        if (outcome.failure === 'safety') logDeclined();
+      }
+      setPendingImages((n) => Math.max(0, n - 1));
+    });
+
+    // a reply the parent filter caught, or the model declined, takes the picture of the same command with it
+    const dropImage = () => {
+      imageDropped = true;
+      gotImage = false;
+      if (!shownImage) return;
+      if (shownImage.saved) deleteFromGallery(shownImage.saved);
+      updateTurn(shownImage.turnId, { imageUrl: undefined });
+      shownImage = null;
+    };
 
-        if (foundText) setToyReply(foundText);
-        if (foundImageData) setActionImage(`data:image/png;base64,${foundImageData}`);
+    // the structured reply arrives after its text: the badge, the reaction and the follow-up chips;
+    // a reply without it (plain text from the model) simply goes without them
+    const applyReply = (member: SceneToy, reply: ToyReply) => {
+      const turnId = turnIds.get(member);
+      if (turnId && reply.emotion) updateTurn(turnId, { emotion: reply.emotion });
+      if (reply.declined) {
+        // a declined command gets no picture either
+        logDeclined();
+        dropImage();
+        replyActionRef.current = null;
+        setToyAction(null);
+      } else if (reply.action) {
+        replyActionRef.current = actionForCommand(reply.action);
+        if (speechQueueRef.current.pending) setToyAction(replyActionRef.current);
+      }
+      const safe = reply.followUps.filter((f) => checkText(f, filterWords.blocklist, filterWords.allowlist).ok);
+      if (safe.length) setFollowUps(safe);
+    };
 
-        if (!foundText && !foundImageData) {
-          handleError("I couldn't produce a reply or image. Try a simpler command like 'dance' or 'say hi'.");
-        }
-        lastErr = null;
-        break;
-      } catch (err: any) {
-        lastErr = err;
-        if (isQuotaError(err)) {
-          handleError("Looks like the daily request limit for the AI model has been reached. Please try again tomorrow.");
-          break;
+    const replyAs = async (member: SceneToy, replyHistory: ChatTurn[]) => {
+      // the streamed reply is checked as it grows (its last word may still be cut off, so only
+      // finished words) and once more in full at the end; once flagged, the rest of it is dropped
+      let replyFiltered = false;
+      const filterReply = (text: string) => {
+        const result = checkText(text, filterWords.blocklist, filterWords.allowlist);
+        if (result.ok) return false;
+        replyFiltered = true;
+        stopSpeaking();
+        dropImage();
+        replyActionRef.current = null;
+        const turnId = ensureToyTurn(member);
+        updateTurn(turnId, { text: t('safety.filteredReply') });
+        speakText(t('safety.filteredReply'), { turnId, offset: 0 }, member.voice);
+        logSafetyEvent({ kind: 'reply_filtered', toyName: member.name, text: cmd, matched: result.matched });
+        return true;
+      };
+
+      // once part of the reply is on its way to the speaker it is not started over: a failure
+      // leaves it as far as it got, with the error
+      let textShown = '';
+      let speechStarted = false;
+      const speakSentence = (sentence: string, offset: number) => {
+        speechStarted = true;
+        if (!replyMutedRef.current) speakText(sentence, { turnId: ensureToyTurn(member), offset }, member.voice);
+      };
+      let chunker = createSentenceChunker(speakSentence);
+      const outcome = await runTracked((signal) => {
+        // a retry starts the reply over, so drop what a failed attempt showed
+        chunker = createSentenceChunker(speakSentence);
+        const turnId = turnIds.get(member);
+        if (turnId && !replyFiltered) {
+          stopSpeaking();
+          updateTurn(turnId, { text: '' });
         }
-        attempt += 1;
-        if (attempt > SAFE_RETRY_COUNT) {
-          console.error('Final error from sendCommand:', err);
-          handleError('Something went wrong while generating the reply. Please try again.');
-          break;
+        return streamToyReply(
+          { image: member.image, history: replyHistory, prompt: buildReplyPrompt(promptFor(member)), companions: companionsOf(member), self: member.id },
+          (textSoFar) => {
+            if (replyFiltered || filterReply(finishedWords(textSoFar))) return;
+            if (!turnIds.has(member)) playSound('reply');
+            updateTurn(ensureToyTurn(member), { text: textSoFar });
+            textShown = textSoFar;
+            chunker.update(textSoFar);
+          },
+          signal
+        );
+      }, { canRetry: () => !speechStarted });
+      if (outcome.kind === 'ok') {
+        if (!replyFiltered && !filterReply(outcome.value.text)) {
+          chunker.flush(outcome.value.text);
+          if (outcome.value.reply) applyReply(member, outcome.value.reply);
         }
-        const backoff = RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
-        await sleep(backoff);
-      } finally {
-        abortControllerRef.current = null;
+      } else if (outcome.kind === 'failed') {
+        // the cut-off reply stays, so its last words get the full check too
+        if (speechStarted && !replyFiltered) filterReply(textShown);
+        console.error('Final error from sendCommand:', outcome.error);
+        if (outcome.failure === 'safety') logDeclined();
+        handleError(failureMessage(t, outcome, 'error.reply'));
+      }
+      return { outcome, replyFiltered };
+    };
+
+    // toys answer one after another, each seeing what the ones before it said
+    stopSpeaking();
+    let replyHistory = history;
+    let allOk = true;
+    let anyText = false;
+    for (const member of speakers) {
+      const { outcome, replyFiltered } = await replyAs(member, replyHistory);
+      if (outcome.kind !== 'ok' || replyFiltered) {
+        allOk = outcome.kind === 'ok';
+        anyText ||= replyFiltered;
+        break;
+      }
+      anyText ||= !!outcome.value.text.trim();
+      const turn = turnsRef.current.find((turn) => turn.id === turnIds.get(member));
+      if (turn) replyHistory = [...replyHistory, turn];
+    }
+    setIsLoadingResponse(false);
+
+    await imageDone;
+    if (allOk && !anyText && !gotImage) {
+      handleError(t('error.noReply'));
+    }
+  };
+
+  // ---------- Storybook ----------
+  const readPage = (page: StoryPage) => {
+    stopSpeaking();
+    replyActionRef.current = null;
+    splitSentences(page.text).forEach(({ sentence, offset }) => speakText(sentence, { turnId: page.id, offset }));
+  };
+
+  // the previous page's picture goes along as history so the toy keeps the same look
+  const illustratePage = async (storyId: string, page: StoryPage, previous: StoryPage | undefined) => {
+    const name = toyName.trim() || defaultToyName;
+    const history = previous?.imageUrl ? [{ ...createToyTurn(previous.text), imageUrl: previous.imageUrl }] : [];
+    const prompt = buildStoryIllustrationPrompt({ name, pageText: page.text, sheet: toySheet, artStyle: toyArtStyle });
+    const outcome = await runTracked((signal) => requestActionImage({ image: toyImagePart, history, prompt }, signal));
+    if (outcome.kind === 'ok' && outcome.value.image) {
+      const { data, mimeType } = outcome.value.image;
+      const imageUrl = `data:${mimeType};base64,${data}`;
+      updateStoryPage(storyId, page.id, { imageUrl, imageStatus: 'ready' });
+      addToGallery({ kind: 'story', imageUrl, command: page.text, turnId: null });
+      playSound('image');
+    } else {
+      if (outcome.kind === 'failed') console.warn('Story illustration failed:', outcome.error);
+      updateStoryPage(storyId, page.id, { imageStatus: 'none' });
+    }
+  };
+
+  /** Writes the next page of the open story; each page counts as a command towards the daily limit. */
+  const writeNextPage = async () => {
+    const current = storyRef.current;
+    if (!current || current.writing || !toyImagePart) return;
+    const name = toyName.trim() || defaultToyName;
+    const limit = limitReached(parentSettings, loadUsage());
+    if (limit) {
+      logSafetyEvent({ kind: 'limit_reached', toyName: name, text: current.theme, matched: limit });
+      handleError(t(LIMIT_MESSAGES[limit]));
+      return;
+    }
+    updateUsage({ commands: 1 });
+    updateStory((s) => s && { ...s, writing: true });
+
+    const pageNumber = current.pages.length + 1;
+    const prompt = buildStoryPagePrompt({
+      name,
+      personality: toyPersonality,
+      language: LOCALES[locale].promptLanguage,
+      theme: current.theme,
+      pageNumber,
+      totalPages: STORY_PAGE_COUNT,
+      storySoFar: storySoFar(current.pages),
+      branch: isBranchPage(pageNumber),
+    });
+    const outcome = await runTracked((signal) => writeStoryPage({ image: toyImagePart, prompt }, signal));
+    // the story may have been closed (or a new one started) while the page was being written
+    if (storyRef.current?.id !== current.id) return;
+    if (outcome.kind !== 'ok') {
+      updateStory((s) => s && { ...s, writing: false });
+      if (outcome.kind === 'failed') {
+        console.error('Story page failed:', outcome.error);
+        if (outcome.failure === 'safety') logSafetyEvent({ kind: 'model_declined', toyName: name, text: current.theme });
+        handleError(failureMessage(t, outcome, 'error.story'));
       }
+      return;
+    }
+
+    // a page that trips the local filter ends the story with the filtered-reply line instead
+    const { text, choices, ending } = outcome.value.page;
+    const check = checkText([text, ...choices].join('\n'), filterWords.blocklist, filterWords.allowlist);
+    if (!check.ok) logSafetyEvent({ kind: 'reply_filtered', toyName: name, text: current.theme, matched: check.matched });
+    const page = check.ok
+      ? createStoryPage({ text, choices: ending ? [] : choices, ending: ending || pageNumber >= STORY_PAGE_COUNT })
+      : createStoryPage({ text: t('safety.filteredReply'), choices: [], ending: true });
+    const previous = storyRef.current.pages[storyRef.current.pages.length - 1];
+    updateStory((s) => s && { ...s, pages: [...s.pages, page], current: s.pages.length, writing: false });
+    playSound('reply');
+    readPage(page);
+    if (check.ok) illustratePage(current.id, page, previous);
+    else updateStoryPage(current.id, page.id, { imageStatus: 'none' });
+  };
+
+  // the typed command, if any, becomes what the story is about
+  const startStory = () => {
+    if (!toyImagePart) return;
+    initializeAudio();
+    playSound('click');
+    setError('');
+    const theme = userCommand.trim();
+    const check = checkText(theme, filterWords.blocklist, filterWords.allowlist);
+    if (!check.ok) {
+      logSafetyEvent({ kind: 'command_blocked', toyName: toyName.trim() || defaultToyName, text: theme, matched: check.matched });
+      setUserCommand('');
+      stopSpeaking();
+      sayAsToy(t('safety.blockedCommand'));
+      return;
+    }
+    setUserCommand('');
+    stopSpeaking();
+    liveRef.current?.stop();
+    updateGame(() => null);
+    setChoosingGame(false);
+    updateLesson(() => null);
+    setLessonChoice(null);
+    archiveStory();
+    updateStory(() => createStory(theme));
+    writeNextPage();
+  };
+
+  const goToPage = (index: number) => {
+    const page = storyRef.current?.pages[index];
+    if (!page) return;
+    playSound('click');
+    updateStory((s) => s && { ...s, current: index });
+    readPage(page);
+  };
+
+  const chooseBranch = (choice: string) => {
+    const current = storyRef.current;
+    const page = current?.pages[current.pages.length - 1];
+    if (!page || page.chosen) return;
+    playSound('click');
+    updateStoryPage(current.id, page.id, { chosen: choice });
+    writeNextPage();
+  };
+
+  // pictures still being drawn land in the archived copy (see updateStoryPage)
+  const closeStory = () => {
+    playSound('click');
+    stopSpeaking();
+    archiveStory();
+  };
+
+  // ---------- Games and lessons ----------
+  /**
+   * The toy's line in a game or lesson: written by the model from `facts`, or `fallback` when
+   * that fails or trips the filter. A line `stillCurrent` says has been overtaken (another
+   * answer, or the game or lesson stopped) is dropped.
+   */
+  const sayHostedLine = async ({ buildPrompt, facts, fallback, action, topic, history, stillCurrent }: HostedLine) => {
+    const name = toyName.trim() || defaultToyName;
+    const prompt = buildPrompt({ name, personality: toyPersonality, language: LOCALES[locale].promptLanguage, facts });
+    const lineId = ++hostedLineRef.current;
+    setIsLoadingResponse(true);
+    const outcome = await runTracked((signal) => streamToyReply({ image: toyImagePart, history, prompt }, () => {}, signal));
+    if (lineId === hostedLineRef.current) setIsLoadingResponse(false);
+    if (!stillCurrent() || outcome.kind === 'aborted') return;
+    if (outcome.kind === 'failed') console.warn('Hosted line failed, using the fallback:', outcome.error);
+
+    let text = outcome.kind === 'ok' && !outcome.value.reply?.declined ? outcome.value.text.trim() : '';
+    const check = checkText(text, filterWords.blocklist, filterWords.allowlist);
+    if (!check.ok) {
+      logSafetyEvent({ kind: 'reply_filtered', toyName: name, text: topic, matched: check.matched });
+      text = '';
     }
+    const replyAction = outcome.kind === 'ok' ? outcome.value.reply?.action : '';
+    replyActionRef.current = replyAction ? actionForCommand(replyAction) : action;
+    stopSpeaking();
+    sayAsToy(text || fallback);
+  };
+
+  /** Starting a game or lesson counts as a command towards the daily limit, like every answer after it. */
+  const canStartHosted = (topic: string) => {
+    if (!toyImagePart) return false;
+    initializeAudio();
+    playSound('click');
+    setError('');
+    setChoosingGame(false);
+    setLessonChoice(null);
+    const limit = limitReached(parentSettings, loadUsage());
+    if (limit) {
+      logSafetyEvent({ kind: 'limit_reached', toyName: toyName.trim() || defaultToyName, text: topic, matched: limit });
+      handleError(t(LIMIT_MESSAGES[limit]));
+      return false;
+    }
+    updateUsage({ commands: 1 });
+    stopSpeaking();
+    liveRef.current?.stop();
+    archiveStory();
+    updateGame(() => null);
+    updateLesson(() => null);
+    setFollowUps([]);
+    return true;
+  };
 
+  const stopHosted = () => {
+    playSound('click');
+    stopSpeaking();
+    updateGame(() => null);
+    updateLesson(() => null);
+    hostedLineRef.current++;
     setIsLoadingResponse(false);
   };
 
+  const sayGameLine = (turn: GameTurn, history: ChatTurn[]) =>
+    sayHostedLine({
+      buildPrompt: buildGameLinePrompt,
+      facts: gameFacts(turn, challengeText(turn.game, t)),
+      fallback: fallbackLine(turn, t),
+      action: turn.event.type === 'correct' ? 'jump' : turn.game.challenge ? null : 'dance',
+      topic: t(`game.${turn.game.kind}`),
+      history,
+      stillCurrent: () => gameRef.current === turn.game,
+    });
+
+  const beginGame = (kind: GameKind) => {
+    if (!canPlay(kind, toySheet, locale) || !canStartHosted(t(`game.${kind}`))) return;
+    const next = startGame(kind, locale, toySheet);
+    updateGame(() => next);
+    sayGameLine({ game: next, event: { type: 'start' }, next: true }, turnsRef.current);
+  };
+
+  // reached through sendCommand, so answers are filtered and limited like any command
+  const answerGame = (answer: string) => {
+    const current = gameRef.current;
+    if (!current?.challenge) return;
+    updateUsage({ commands: 1 });
+    const history = turnsRef.current;
+    appendTurn(createChildTurn(answer));
+    setUserCommand('');
+    stopSpeaking();
+    const turn = playTurn(current, answer, toySheet);
+    updateGame(() => turn.game);
+    if (!turn.game.challenge) setToyScores((scores) => recordScore(scores, turn.game));
+    sayGameLine(turn, history);
+  };
+
+  const sayLessonLine = (turn: LessonTurn, pack: LessonPack, history: ChatTurn[]) =>
+    sayHostedLine({
+      buildPrompt: buildLessonLinePrompt,
+      facts: lessonFacts(turn, pack),
+      fallback: lessonFallback(turn, pack, t),
+      action: turn.event.type === 'correct' ? 'jump' : lessonOver(turn.session) ? 'dance' : null,
+      topic: pack.title,
+      history,
+      stillCurrent: () => lessonRef.current?.session === turn.session,
+    });
+
+  const openLessonPicker = () => {
+    initializeAudio();
+    playSound('click');
+    setChoosingGame(false);
+    setLessonChoice(lessonChoice ? null : { packs: loadLessonPacks().filter((p) => p.language === locale), progress: loadLessonProgress() });
+  };
+
+  const chooseLearner = (learnerId: string) => {
+    const progress = { ...loadLessonProgress(), activeId: learnerId };
+    saveLessonProgress(progress);
+    setLessonChoice((choice) => choice && { ...choice, progress });
+  };
+
+  // progress is read fresh each time, since the parent panel can change it in between
+  const beginLesson = (pack: LessonPack) => {
+    if (!canStartHosted(pack.title)) return;
+    const progress = loadLessonProgress();
+    const learner = progress.learners.find((l) => l.id === progress.activeId) ?? progress.learners[0];
+    const session = startLesson(pack, learner, locale);
+    updateLesson(() => ({ pack, session }));
+    sayLessonLine({ session, event: { type: 'start' }, next: true, grade: null }, pack, turnsRef.current);
+  };
+
+  // reached through sendCommand, like game answers; each finished question is graded for review
+  const answerLesson = (answer: string) => {
+    const current = lessonRef.current;
+    if (!current || lessonOver(current.session)) return;
+    const { pack, session } = current;
+    updateUsage({ commands: 1 });
+    const history = turnsRef.current;
+    appendTurn(createChildTurn(answer));
+    setUserCommand('');
+    stopSpeaking();
+    const item = currentItem(session, pack);
+    const turn = playLessonTurn(session, pack, answer);
+    updateLesson(() => ({ pack, session: turn.session }));
+    if (item && turn.grade) saveLessonProgress(recordGrade(loadLessonProgress(), turn.session, item.key, turn.grade));
+    if (lessonOver(turn.session)) saveLessonProgress(recordLesson(loadLessonProgress(), turn.session, pack));
+    sayLessonLine(turn, pack, history);
+  };
+
+  // ---------- Keepsake ----------
+  const currentKeepsake = () => ({
+    toyName: toyName.trim() || defaultToyName,
+    description: toyDescription,
+    photoUrl: `data:${toyImagePart.inlineData.mimeType};base64,${toyImagePart.inlineData.data}`,
+    turns: turnsRef.current,
+    stories: storyRef.current ? [...pastStories, storyRef.current] : pastStories,
+    createdAt: Date.now(),
+    lang: LOCALES[locale].speechLang,
+  });
+
+  const downloadKeepsake = () => {
+    if (!toyImagePart) return;
+    playSound('click');
+    const keepsake = currentKeepsake();
+    downloadFile(new Blob([buildKeepsakeHtml(keepsake, t)], { type: 'text/html' }), keepsakeFileName(keepsake.toyName, keepsake.createdAt));
+  };
+
+  const printSession = () => {
+    if (!toyImagePart) return;
+    playSound('click');
+    printKeepsake(buildKeepsakeHtml(currentKeepsake(), t));
+  };
+
+  const downloadImage = (url: string, label: string) => downloadFile(url, imageFileName(toyName.trim() || defaultToyName, label, url));
+
+  // ---------- Gallery ----------
+  const addToGallery = (entry: Pick<GalleryImage, 'imageUrl' | 'kind' | 'command' | 'turnId'>) => {
+    if (!toyId) return null;
+    const image: GalleryImage = { id: createImageId(), toyId, favourite: false, createdAt: Date.now(), ...entry };
+    setGallery((images) => [image, ...images]);
+    saveImage(image).catch((err) => console.warn('Could not save the picture to the gallery', err));
+    return image;
+  };
+
+  const toggleFavourite = (image: GalleryImage) => {
+    const next = { ...image, favourite: !image.favourite };
+    setGallery((images) => images.map((img) => (img.id === image.id ? next : img)));
+    saveImage(next).catch((err) => {
+      console.error(err);
+      handleError(t('gallery.saveFailed'));
+    });
+  };
+
+  // the picture also leaves the transcript, so it is not saved back with the toy
+  const deleteFromGallery = (image: GalleryImage) => {
+    setGallery((images) => images.filter((img) => img.id !== image.id));
+    if (image.turnId && turnsRef.current.some((turn) => turn.id === image.turnId && turn.role === 'toy' && turn.imageUrl === image.imageUrl)) {
+      updateTurn(image.turnId, { imageUrl: undefined });
+    }
+    deleteImage(image.id).catch((err) => {
+      console.error(err);
+      handleError(t('gallery.saveFailed'));
+    });
+  };
+
+  const rerunCommand = (command: string) => {
+    setShowGallery(false);
+    if (storyRef.current) closeStory();
+    setUserCommand(command);
+    sendCommand(command);
+  };
+
   // ---------- Microphone handling ----------
   const handleMicClick = () => {
     initializeAudio();
     if (!SpeechRecognition) {
-      handleError('Voice recognition is not supported in your browser.');
+      if (canRecordSpeech) handleLocalMicClick();
+      else handleError(t('error.noRecognition'));
       return;
     }
 
@@ -478,7 +1507,7 @@ If the command is unsafe or impossible for a toy, politely decline in text and d
     playSound('micOn');
     // create fresh recognition instance for robustness
     const recog = new (SpeechRecognition as any)();
-    recog.lang = 'en-US';
+    recog.lang = LOCALES[locale].speechLang;
     recog.interimResults = false;
     recog.maxAlternatives = 1;
 
@@ -486,7 +1515,7 @@ If the command is unsafe or impossible for a toy, politely decline in text and d
     recog.onend = () => setIsListening(false);
     recog.onerror = (event: any) => {
       setIsListening(false);
-      handleError(`Voice recognition error: ${event?.error || 'unknown'}`);
+      handleError(t('error.recognition', { error: event?.error || 'unknown' }));
     };
     recog.onresult = (event: any) => {
       try {
@@ -502,11 +1531,323 @@ If the command is unsafe or impossible for a toy, politely decline in text and d
     try {
       recog.start();
     } catch (err) {
-      handleError('Could not start voice recognition.');
+      handleError(t('error.startRecognition'));
+    }
+  };
+
+  // ---------- Microphone fallback ----------
+  // without SpeechRecognition the mic records, and a local model transcribes once the child stops talking
+  const finishRecording = async () => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    recordingRef.current = null;
+    playSound('micOff');
+    setLocalMic('transcribing');
+    try {
+      const audio = await recording.stop();
+      const transcript = audio ? await transcribe(audio, LOCALES[locale].speechLang.split('-')[0], setModelProgress) : '';
+      // Start Over while transcribing drops the result
+      if (transcript && toyPhotoRef.current) {
+        setUserCommand(transcript);
+        sendCommand(transcript);
+      }
+    } catch (err) {
+      console.error('Local speech recognition failed', err);
+      handleError(t('error.localRecognition'));
+    } finally {
+      setLocalMic('idle');
+      setModelProgress(null);
+    }
+  };
+
+  const handleLocalMicClick = async () => {
+    if (localMic === 'transcribing') return;
+    if (recordingRef.current) {
+      finishRecording();
+      return;
+    }
+    const audioContext = audioContextRef.current;
+    if (!audioContext) {
+      handleError(t('error.startRecognition'));
+      return;
+    }
+    try {
+      recordingRef.current = await startRecording({
+        audioContext,
+        // rounded so the meter re-renders only when it visibly moves
+        onLevel: (level) => setMicLevel(Math.round(level * 20) / 20),
+        onAutoStop: () => finishRecording(),
+      });
+      playSound('micOn');
+      setLocalMic('recording');
+    } catch (err) {
+      console.warn('Could not start recording', err);
+      handleError(t('error.micPermission'));
+    }
+  };
+
+  // ---------- Hands-free conversation ----------
+  const toyIsTalking = () => speechQueueRef.current.pending > 0;
+
+  // what the toy said last (the open story page, or the replies since the child's last command),
+  // to tell its own voice coming back through the microphone from the child's
+  const spokenText = () => {
+    const page = storyRef.current?.pages[storyRef.current.current];
+    if (page) return page.text;
+    const lastChild = turnsRef.current.map((turn) => turn.role).lastIndexOf('child');
+    return turnsRef.current
+      .slice(lastChild + 1)
+      .map((turn) => turn.text)
+      .join(' ');
+  };
+
+  handsFreeEventsRef.current = {
+    wakeNames: () => (wakeWord ? [toyName.trim() || defaultToyName, ...friends.map((f) => f.name)] : null),
+    onInterim: (text, awake) => {
+      heardEchoRef.current = toyIsTalking() && isLikelyEcho(text, spokenText());
+      if (heardEchoRef.current || !awake) return;
+      // barge-in: talking over the toy stops it, and the rest of its reply is not spoken
+      if (toyIsTalking()) {
+        replyMutedRef.current = true;
+        stopSpeaking();
+      }
+      setUserCommand(text);
+    },
+    onCommand: (text) => {
+      const echo = (heardEchoRef.current || toyIsTalking()) && isLikelyEcho(text, spokenText());
+      heardEchoRef.current = false;
+      if (echo || storyRef.current) return;
+      setUserCommand(text);
+      if (isLoadingResponse) queuedCommandRef.current = text;
+      else sendCommand(text);
+    },
+    onWake: (armed) => {
+      setWakeArmed(armed);
+      if (armed) playSound('micOn');
+    },
+    onStop: (reason, error) => {
+      handsFreeRef.current = null;
+      setHandsFree(false);
+      setWakeArmed(false);
+      if (reason === 'user') return;
+      playSound('micOff');
+      if (reason === 'timeout') setHandsFreeNote(t('handsFree.timedOut'));
+      else handleError(t('error.recognition', { error: error || 'unknown' }));
+    },
+  };
+
+  const startHandsFree = (code: LocaleCode) => {
+    const listener = createHandsFreeListener(SpeechRecognition, LOCALES[code].speechLang, () => handsFreeEventsRef.current);
+    handsFreeRef.current = listener;
+    setHandsFree(true);
+    setHandsFreeNote('');
+    listener.start();
+    listener.setBusy(isLoadingResponse || speech.active);
+  };
+
+  const toggleHandsFree = () => {
+    initializeAudio();
+    if (!SpeechRecognition) {
+      handleError(t('error.noRecognition'));
+      return;
+    }
+    if (handsFreeRef.current) {
+      handsFreeRef.current.stop();
+      playSound('micOff');
+      return;
+    }
+    // the one-shot mic and live voice would fight the continuous recognizer for the microphone
+    liveRef.current?.stop();
+    if (isListening) {
+      try {
+        recognitionRef.current?.stop();
+      } catch {}
+    }
+    playSound('micOn');
+    startHandsFree(locale);
+  };
+
+  // ---------- Live voice ----------
+  // the toy hears the child directly and answers in a generated voice; transcripts fill the chat
+  const ensureLiveTurns = () => {
+    const exchange = liveExchangeRef.current;
+    if (!exchange.childId) {
+      // without an input transcript the child's turn only says that something was said
+      const turn = createChildTurn(exchange.heard || t('live.childSpoke'));
+      exchange.childId = turn.id;
+      appendTurn(turn);
+    }
+    return exchange;
+  };
+
+  // the model already heard it, so the reply is silenced and the toy says the local line instead
+  const filterLiveInput = (exchange: LiveExchange, heard: string) => {
+    const check = checkText(heard, filterWords.blocklist, filterWords.allowlist);
+    if (check.ok) return false;
+    exchange.filtered = true;
+    liveRef.current?.silenceReply();
+    logSafetyEvent({ kind: 'command_blocked', toyName: toyName.trim() || defaultToyName, text: exchange.heard.trim(), matched: check.matched });
+    sayAsToy(t('safety.blockedCommand'));
+    return true;
+  };
+
+  const filterLiveOutput = (exchange: LiveExchange, said: string) => {
+    const check = checkText(said, filterWords.blocklist, filterWords.allowlist);
+    if (check.ok) return false;
+    exchange.filtered = true;
+    liveRef.current?.silenceReply();
+    updateTurn(exchange.toyId, { text: t('safety.filteredReply') });
+    speakText(t('safety.filteredReply'), { turnId: exchange.toyId, offset: 0 });
+    logSafetyEvent({ kind: 'reply_filtered', toyName: toyName.trim() || defaultToyName, text: exchange.heard.trim(), matched: check.matched });
+    return true;
+  };
+
+  // counts the exchange towards the daily limit once the toy has answered (or was talked over);
+  // transcripts are only checked up to their last finished word while they come in, so in full here
+  const finishLiveExchange = () => {
+    const exchange = liveExchangeRef.current;
+    liveExchangeRef.current = { ...LIVE_EXCHANGE_IDLE };
+    if (!exchange.filtered && !filterLiveInput(exchange, exchange.heard) && exchange.toyId) filterLiveOutput(exchange, exchange.said);
+    if (!exchange.toyId) return;
+    updateUsage({ commands: 1 });
+    const limit = limitReached(parentSettings, loadUsage());
+    if (limit && liveRef.current) {
+      logSafetyEvent({ kind: 'limit_reached', toyName: toyName.trim() || defaultToyName, text: exchange.heard, matched: limit });
+      liveRef.current.stop();
+      sayAsToy(t(LIMIT_MESSAGES[limit]));
+    }
+  };
+
+  liveEventsRef.current = {
+    onInput: (text) => {
+      const exchange = liveExchangeRef.current;
+      // the input transcript can lag behind the start of the answer
+      if (exchange.filtered) return;
+      exchange.heard = `${exchange.heard}${text}`;
+      if (exchange.childId) updateTurn(exchange.childId, { text: exchange.heard.trim() });
+      else ensureLiveTurns();
+      filterLiveInput(exchange, finishedWords(exchange.heard));
+    },
+    onOutput: (text) => {
+      const exchange = ensureLiveTurns();
+      if (exchange.filtered) return;
+      exchange.said = `${exchange.said}${text}`;
+      if (!exchange.toyId) {
+        const turn = createToyTurn('');
+        exchange.toyId = turn.id;
+        appendTurn(turn);
+      }
+      setLiveTicks((n) => n + 1);
+      if (!filterLiveOutput(exchange, finishedWords(exchange.said))) updateTurn(exchange.toyId, { text: exchange.said.trim() });
+    },
+    onTurnComplete: finishLiveExchange,
+    onInterrupted: finishLiveExchange,
+    onSpeaking: setLiveSpeaking,
+    onClose: (error) => {
+      liveRef.current = null;
+      liveExchangeRef.current = { ...LIVE_EXCHANGE_IDLE };
+      setLive('off');
+      setLiveSpeaking(false);
+      if (!error) return;
+      console.warn('Live voice ended:', error);
+      playSound('micOff');
+      handleError(t(LIVE_ERROR_MESSAGES[error.code] ?? 'error.live'));
+    },
+  };
+
+  const startLive = async (code: LocaleCode) => {
+    const audioContext = audioContextRef.current;
+    if (!audioContext) {
+      handleError(t('error.liveUnsupported'));
+      return;
+    }
+    setLive('connecting');
+    liveExchangeRef.current = { ...LIVE_EXCHANGE_IDLE };
+    const name = toyName.trim() || defaultToyName;
+    try {
+      const session = await startLiveVoice({
+        audioContext,
+        instructions: buildLiveInstructions({ name, personality: toyPersonality, language: LOCALES[code].promptLanguage, description: toyDescription }),
+        voiceName: liveVoiceName(toyVoice),
+        languageCode: LOCALES[code].speechLang,
+        events: () => liveEventsRef.current,
+      });
+      // Start Over while connecting drops the session
+      if (!toyPhotoRef.current) {
+        session.stop();
+        return;
+      }
+      liveRef.current = session;
+      setLive('on');
+      playSound('micOn');
+    } catch (err: any) {
+      console.warn('Could not start live voice', err);
+      setLive('off');
+      handleError(t(LIVE_ERROR_MESSAGES[err?.code] ?? 'error.live'));
+    }
+  };
+
+  const toggleLive = () => {
+    initializeAudio();
+    if (liveRef.current) {
+      liveRef.current.stop();
+      playSound('micOff');
+      return;
+    }
+    if (live !== 'off') return;
+    const limit = limitReached(parentSettings, loadUsage());
+    if (limit) {
+      logSafetyEvent({ kind: 'limit_reached', toyName: toyName.trim() || defaultToyName, text: '', matched: limit });
+      stopSpeaking();
+      sayAsToy(t(LIMIT_MESSAGES[limit]));
+      return;
+    }
+    // only one thing may use the microphone, and the browser voice would talk over the live one
+    handsFreeRef.current?.stop();
+    if (isListening) {
+      try {
+        recognitionRef.current?.stop();
+      } catch {}
     }
+    recordingRef.current?.cancel();
+    recordingRef.current = null;
+    setLocalMic('idle');
+    stopSpeaking();
+    startLive(locale);
   };
 
-  const commands = ['say hi', 'dance', 'jump', 'be happy', 'be angry', 'tell a story'];
+  const changeLocale = (code: LocaleCode) => {
+    // a still-default toy name follows the language
+    if (toyName === defaultToyName) setToyName(createTranslator(code)('toy.defaultName'));
+    setLocale(code);
+    saveLocale(code);
+    // the recognizer's language is fixed once started
+    if (handsFreeRef.current) {
+      handsFreeRef.current.stop();
+      startHandsFree(code);
+    }
+    // so are the live session's language and instructions
+    if (liveRef.current) {
+      liveRef.current.stop();
+      startLive(code);
+    }
+  };
+
+  const talking = (speech.active && !speech.paused) || liveSpeaking;
+  // on a playdate, only the toy whose turn is being spoken looks like it is talking
+  const speakingTurn = talking ? turns.find((turn) => turn.id === speech.turnId) : undefined;
+  const talkingFriendId = speakingTurn?.role === 'toy' ? speakingTurn.speakerId ?? null : null;
+  const mainTalking = talking && !talkingFriendId;
+  const speechControls = {
+    canSpeak: 'speechSynthesis' in window,
+    onReplay: replayTurn,
+    onPause: pauseSpeaking,
+    onResume: resumeSpeaking,
+    onStop: stopSpeaking,
+  };
+
+  const commands = LOCALES[locale].commands;
+  const localeVoices = voicesForLocale(voices, locale);
 
   // ---------- Render ----------
   return jsx('div', {
@@ -514,13 +1855,30 @@ If the command is unsafe or impossible for a toy, politely decline in text and d
     children: [
       jsx('header', {
         children: [
-          jsx('h1', { children: 'AI Toy Companion' }),
-          !toyImage && jsx('p', { children: 'Upload a picture of your toy and bring it to life!' }),
+          jsx('div', {
+            className: 'header-tools',
+            children: [
+              jsx('button', {
+                className: 'header-parents-btn',
+                onClick: () => setShowParentPanel(true),
+                children: t('app.parents'),
+              }),
+              jsx('select', {
+                className: 'language-select',
+                value: locale,
+                onChange: (e: any) => changeLocale(e.target.value as LocaleCode),
+                'aria-label': t('app.language'),
+                children: Object.values(LOCALES).map((l) => jsx('option', { value: l.code, children: l.label }, l.code)),
+              }),
+            ],
+          }),
+          jsx('h1', { children: t('app.title') }),
+          !toyImage && jsx('p', { children: t('app.tagline') }),
           toyImage &&
             jsx('button', {
               className: 'header-start-over-btn',
               onClick: startOver,
-              children: 'Start Over',
+              children: t('app.startOver'),
             }),
         ],
       }),
@@ -531,8 +1889,8 @@ If the command is unsafe or impossible for a toy, politely decline in text and d
                 className: 'upload-container',
                 children: [
                   jsx(UploadIcon, {}),
-                  jsx('h2', { children: "Let's meet your toy!" }),
-                  jsx('p', { children: 'Upload a photo to get started.' }),
+                  jsx('h2', { children: t('upload.heading') }),
+                  jsx('p', { children: t('upload.prompt') }),
                   jsx('input', {
                     type: 'file',
                     accept: 'image/*',
@@ -540,7 +1898,7 @@ If the command is unsafe or impossible for a toy, politely decline in text and d
                     // FIX: Cast ref to any to resolve TypeScript error due to incorrect type inference for JSX function.
                     ref: fileInputRef as any,
                     id: 'file-upload',
-                    'aria-label': 'Upload toy photo',
+                    'aria-label': t('upload.aria'),
                   }),
                   jsx('button', {
                     onClick: () => {
@@ -548,11 +1906,22 @@ If the command is unsafe or impossible for a toy, politely decline in text and d
                       playSound('click');
                       fileInputRef.current?.click();
                     },
-                    children: 'Upload Your Toy!',
+                    children: t('upload.button'),
                   }),
+                  canUseCamera &&
+                    jsx('button', {
+                      className: 'secondary-btn',
+                      onClick: () => {
+                        initializeAudio();
+                        playSound('click');
+                        setShowCamera(true);
+                      },
+                      children: t('upload.camera'),
+                    }),
                   jsx('input', {
                     type: 'file',
-                    accept: '.glb',
+                    accept: MODEL_FILE_ACCEPT,
+                    multiple: true,
                     onChange: handleModelChange,
                     // FIX: Cast ref to any to resolve TypeScript error.
                     ref: modelInputRef as any,
@@ -566,8 +1935,9 @@ If the command is unsafe or impossible for a toy, politely decline in text and d
                       playSound('click');
                       modelInputRef.current?.click();
                     },
-                    children: 'Optional: Upload 3D Model (.glb)',
+                    children: toyModel ? t('upload.modelReady', { name: toyModel.name }) : t('upload.model'),
                   }),
+                  jsx(ToyLibraryPicker, { t, onResume: resumeToy, onError: handleError }),
                 ],
               })
             : jsx('div', {
@@ -576,95 +1946,400 @@ If the command is unsafe or impossible for a toy, politely decline in text and d
                   jsx('div', {
                     className: 'toy-panel',
                     children: [
-                      jsx('img', { src: toyImage, alt: "User's toy", className: 'toy-image' }),
-                      isLoadingDescription && jsx(LoadingSpinner, { text: 'Getting to know your toy...' }),
+                      jsx('input', {
+                        className: 'toy-name-input',
+                        type: 'text',
+                        value: toyName,
+                        maxLength: 40,
+                        onInput: (e: any) => setToyName(e.target.value),
+                        'aria-label': t('toy.nameAria'),
+                      }),
+                      jsx('img', { src: toyImage, alt: t('toy.imageAlt'), className: `toy-image ${mainTalking ? 'talking' : ''}` }),
+                      isLoadingDescription && jsx(LoadingSpinner, { text: t('toy.describing') }),
                       toyDescription && jsx('p', { className: 'toy-description', children: toyDescription }),
-                      jsx('button', { className: 'change-toy-btn', onClick: startOver, children: 'Start Over' }),
+                      jsx(ToyProfilePanel, {
+                        t,
+                        personality: toyPersonality,
+                        voice: toyVoice,
+                        voices: localeVoices,
+                        artStyle: toyArtStyle,
+                        sheet: toySheet,
+                        onPersonalityChange: setToyPersonality,
+                        onVoiceChange: setToyVoice,
+                        onPreviewVoice: previewVoice,
+                        onArtStyleChange: setToyArtStyle,
+                      }),
+                      jsx(PlaydatePanel, {
+                        t,
+                        friends,
+                        hostId: toyId,
+                        talkingId: talkingFriendId,
+                        joining: joiningFriend,
+                        onInvite: inviteFriend,
+                        onUpload: uploadFriend,
+                        onRemove: removeFriend,
+                      }),
+                      (toyModel || toyCutout) &&
+                        jsx('div', {
+                          className: 'toy-model-area',
+                          children: jsx(ThreeDViewer, { t, modelFile: toyModel, cutout: toyCutout, action: speech.paused ? null : toyAction, talking: mainTalking, wordTick: speech.ticks + liveTicks }),
+                        }),
+                      !toyModel && cutoutProgress !== null && jsx(LoadingSpinner, { text: t('toy.makingStandIn', { percent: cutoutProgress }) }),
+                      jsx('button', {
+                        className: 'secondary-btn gallery-btn',
+                        onClick: () => {
+                          playSound('click');
+                          setShowGallery(true);
+                        },
+                        children: t('gallery.open', { count: gallery.length }),
+                      }),
+                      jsx('div', {
+                        className: 'keepsake-actions',
+                        'aria-label': t('keepsake.heading'),
+                        role: 'group',
+                        children: [
+                          jsx('button', { className: 'secondary-btn', onClick: downloadKeepsake, children: t('keepsake.download') }),
+                          jsx('button', { className: 'secondary-btn', onClick: printSession, children: t('keepsake.print') }),
+                        ],
+                      }),
+                      jsx('button', { className: 'change-toy-btn', onClick: startOver, children: t('app.startOver') }),
                     ],
                   }),
                   jsx('div', {
                     className: 'interaction-panel',
-                    children: [
-                      jsx('div', {
-                        className: 'response-area',
-                        children: [
-                          !isLoadingResponse && !toyReply && !actionImage && jsx('div', { className: 'welcome-message', children: "What should we do next? Try 'catch a ball' or 'tell a story'!" }),
-                          isLoadingResponse && !toyReply && jsx(LoadingSpinner, { text: 'Thinking...' }),
-                          toyReply && jsx('div', { className: 'speech-bubble', children: toyReply }),
-                          isLoadingResponse && toyReply && jsx(LoadingSpinner, { text: 'Drawing a picture...' }),
-                          (actionImage || toyModel) && jsx('div', {
-                            className: 'media-display-area',
+                    children: story
+                      ? jsx(StoryBook, {
+                          t,
+                          name: toyName.trim() || defaultToyName,
+                          story,
+                          reading: speech.active && speech.turnId === story.pages[story.current]?.id ? speech : null,
+                          canSpeak: speechControls.canSpeak,
+                          onGoTo: goToPage,
+                          onNextPage: writeNextPage,
+                          onChoose: chooseBranch,
+                          onReadAgain: () => {
+                            initializeAudio();
+                            readPage(story.pages[story.current]);
+                          },
+                          onPause: pauseSpeaking,
+                          onResume: resumeSpeaking,
+                          onStop: stopSpeaking,
+                          onNewStory: startStory,
+                          onSaveImage: downloadImage,
+                          onClose: closeStory,
+                        })
+                      : [
+                          jsx('div', {
+                            className: 'response-area',
+                            // FIX: Cast ref to any to resolve TypeScript error.
+                            ref: responseAreaRef as any,
+                            'aria-live': 'polite',
                             children: [
-                              actionImage && jsx('img', { src: actionImage, alt: 'Generated action by toy', className: 'action-image' }),
-                              toyModel && jsx(ThreeDViewer, { modelFile: toyModel }),
+                              !isLoadingResponse && turns.length === 0 && jsx('div', { className: 'welcome-message', children: friends.length ? t('playdate.hint', { name: friends[0].name }) : t('chat.welcome') }),
+                              ...turns.map((turn) =>
+                                jsx(
+                                  ChatTurnView,
+                                  {
+                                    t,
+                                    turn,
+                                    seat: turn.role === 'toy' && turn.speakerId ? friends.findIndex((f) => f.id === turn.speakerId) + 1 : 0,
+                                    speech: speech.active && speech.turnId === turn.id ? speech : null,
+                                    controls: speechControls,
+                                    onSaveImage: downloadImage,
+                                  },
+                                  turn.id
+                                )
+                              ),
+                              isLoadingResponse && turns[turns.length - 1]?.role === 'child' && jsx(LoadingSpinner, { text: t('chat.thinking') }),
+                              pendingImages > 0 && !isLoadingResponse && jsx(LoadingSpinner, { text: t('chat.drawing') }),
                             ],
                           }),
-                        ],
-                      }),
-                      jsx('div', {
-                        className: 'command-bar',
-                        children: [
+                          game &&
+                            jsx(GameBoard, {
+                              t,
+                              game,
+                              photoUrl: toyImage,
+                              best: toyScores[game.kind]?.best,
+                              busy: isLoadingResponse,
+                              onAnswer: (answer: string) => {
+                                initializeAudio();
+                                sendCommand(answer);
+                              },
+                              onStop: stopHosted,
+                              onPlayAgain: () => beginGame(game.kind),
+                            }),
+                          lesson &&
+                            jsx(LessonBoard, {
+                              t,
+                              pack: lesson.pack,
+                              session: lesson.session,
+                              busy: isLoadingResponse,
+                              onAnswer: (answer: string) => {
+                                initializeAudio();
+                                sendCommand(answer);
+                              },
+                              onStop: stopHosted,
+                              onAgain: () => beginLesson(lesson.pack),
+                            }),
                           jsx('div', {
-                            className: 'preset-commands',
-                            children: commands.map((cmd) =>
-                              jsx('button', {
-                                onClick: () => {
+                            className: 'command-bar',
+                            children: [
+                              followUps.length > 0 &&
+                                jsx('div', {
+                                  className: 'follow-ups',
+                                  role: 'group',
+                                  'aria-label': t('chat.followUps'),
+                                  children: followUps.map((cmd) =>
+                                    jsx(
+                                      'button',
+                                      {
+                                        className: 'chip',
+                                        onClick: () => {
+                                          initializeAudio();
+                                          setUserCommand(cmd);
+                                          sendCommand(cmd);
+                                        },
+                                        children: cmd,
+                                      },
+                                      cmd
+                                    )
+                                  ),
+                                }),
+                              !game?.challenge &&
+                                !(lesson && !lessonOver(lesson.session)) &&
+                                jsx('div', {
+                                  className: 'preset-commands',
+                                  children: commands.map((cmd) =>
+                                    jsx('button', {
+                                      onClick: () => {
+                                        initializeAudio();
+                                        playSound('click');
+                                        setUserCommand(cmd);
+                                        sendCommand(cmd);
+                                      },
+                                      children: cmd.charAt(0).toUpperCase() + cmd.slice(1),
+                                    })
+                                  ),
+                                }),
+                              jsx('form', {
+                                className: 'text-command',
+                                onSubmit: (e: Event) => {
+                                  e.preventDefault();
                                   initializeAudio();
                                   playSound('click');
-                                  setUserCommand(cmd);
-                                  sendCommand(cmd);
+                                  sendCommand(userCommand);
                                 },
-                                children: cmd.charAt(0).toUpperCase() + cmd.slice(1),
-                              })
-                            ),
-                          }),
-                          jsx('form', {
-                            className: 'text-command',
-                            onSubmit: (e: Event) => {
-                              e.preventDefault();
-                              initializeAudio();
-                              playSound('click');
-                              sendCommand(userCommand);
-                            },
-                            children: [
-                              jsx('input', {
-                                type: 'text',
-                                value: userCommand,
-                                onInput: (e: any) => setUserCommand(e.target.value),
-                                placeholder: 'Type a command or use the mic...',
-                                'aria-label': 'Type a command',
+                                children: [
+                                  jsx('input', {
+                                    type: 'text',
+                                    value: userCommand,
+                                    onInput: (e: any) => setUserCommand(e.target.value),
+                                    placeholder: t('command.placeholder'),
+                                    'aria-label': t('command.aria'),
+                                  }),
+                                  (SpeechRecognition || canRecordSpeech) &&
+                                    !handsFree &&
+                                    live === 'off' &&
+                                    jsx('button', {
+                                      type: 'button',
+                                      onClick: handleMicClick,
+                                      className: `mic-button ${isListening || localMic === 'recording' ? 'listening' : ''}`,
+                                      disabled: localMic === 'transcribing',
+                                      'aria-label': t('command.mic'),
+                                      children: jsx(MicIcon, {}),
+                                    }),
+                                  jsx('button', { type: 'submit', 'aria-label': t('command.send'), children: jsx(SendIcon, {}) }),
+                                ],
                               }),
-                              SpeechRecognition && jsx('button', {
-                                type: 'button',
-                                onClick: handleMicClick,
-                                className: `mic-button ${isListening ? 'listening' : ''}`,
-                                'aria-label': 'Use voice command',
-                                children: jsx(MicIcon, {}),
+                              localMic !== 'idle' &&
+                                jsx('div', {
+                                  className: 'local-mic',
+                                  children: [
+                                    localMic === 'recording' &&
+                                      jsx('div', {
+                                        className: 'mic-level',
+                                        role: 'meter',
+                                        'aria-label': t('localMic.level'),
+                                        'aria-valuemin': 0,
+                                        'aria-valuemax': 100,
+                                        'aria-valuenow': Math.round(micLevel * 100),
+                                        children: jsx('span', { style: { width: `${Math.round(micLevel * 100)}%` } }),
+                                      }),
+                                    jsx('p', {
+                                      role: 'status',
+                                      children:
+                                        localMic === 'recording'
+                                          ? t('localMic.recording')
+                                          : modelProgress !== null && modelProgress < 100
+                                            ? t('localMic.loadingModel', { percent: modelProgress })
+                                            : t('localMic.transcribing'),
+                                    }),
+                                  ],
+                                }),
+                              SpeechRecognition &&
+                                jsx('div', {
+                                  className: 'hands-free',
+                                  children: [
+                                    jsx('button', {
+                                      className: `secondary-btn hands-free-btn ${handsFree ? 'listening' : ''}`,
+                                      onClick: toggleHandsFree,
+                                      'aria-pressed': handsFree ? 'true' : 'false',
+                                      children: [jsx(MicIcon, {}), handsFree ? t('handsFree.stop') : t('handsFree.start')],
+                                    }),
+                                    jsx('label', {
+                                      className: 'hands-free-wake',
+                                      children: [
+                                        jsx('input', { type: 'checkbox', checked: wakeWord, onChange: (e: any) => setWakeWord(e.target.checked) }),
+                                        t('handsFree.wakeWord', { name: toyName.trim() || defaultToyName }),
+                                      ],
+                                    }),
+                                    jsx('p', {
+                                      className: 'hands-free-status',
+                                      role: 'status',
+                                      children: handsFree
+                                        ? wakeArmed
+                                          ? t('handsFree.awake', { name: toyName.trim() || defaultToyName })
+                                          : wakeWord
+                                            ? t('handsFree.sayName', { name: toyName.trim() || defaultToyName })
+                                            : t('handsFree.listening')
+                                        : handsFreeNote,
+                                    }),
+                                  ],
+                                }),
+                              canTalkLive &&
+                                jsx('div', {
+                                  className: 'live-voice',
+                                  children: [
+                                    jsx('button', {
+                                      className: `secondary-btn live-btn ${live === 'on' ? 'listening' : ''}`,
+                                      onClick: toggleLive,
+                                      disabled: live === 'connecting',
+                                      'aria-pressed': live === 'on' ? 'true' : 'false',
+                                      children: [jsx(MicIcon, {}), live === 'on' ? t('live.stop') : live === 'connecting' ? t('live.connecting') : t('live.start')],
+                                    }),
+                                    jsx('p', {
+                                      className: 'live-status',
+                                      role: 'status',
+                                      children:
+                                        live === 'on'
+                                          ? liveSpeaking
+                                            ? t('live.speaking', { name: toyName.trim() || defaultToyName })
+                                            : t('live.listening')
+                                          : t('live.hint'),
+                                    }),
+                                  ],
+                                }),
+                              jsx('div', {
+                                className: 'mode-buttons',
+                                children: [
+                                  jsx('button', {
+                                    className: 'story-start-btn',
+                                    onClick: startStory,
+                                    disabled: isLoadingResponse,
+                                    title: t('story.startHint'),
+                                    children: t('story.start'),
+                                  }),
+                                  jsx('button', {
+                                    className: 'story-start-btn game-start-btn',
+                                    onClick: () => {
+                                      initializeAudio();
+                                      playSound('click');
+                                      setLessonChoice(null);
+                                      setChoosingGame(!choosingGame);
+                                    },
+                                    disabled: isLoadingResponse,
+                                    'aria-expanded': choosingGame ? 'true' : 'false',
+                                    children: t('game.start'),
+                                  }),
+                                  jsx('button', {
+                                    className: 'story-start-btn lesson-start-btn',
+                                    onClick: openLessonPicker,
+                                    disabled: isLoadingResponse,
+                                    'aria-expanded': lessonChoice ? 'true' : 'false',
+                                    children: t('lesson.start'),
+                                  }),
+                                ],
                               }),
-                              jsx('button', { type: 'submit', 'aria-label': 'Send command', children: jsx(SendIcon, {}) }),
+                              choosingGame && jsx(GamePicker, { t, sheet: toySheet, locale, scores: toyScores, onPick: beginGame }),
+                              lessonChoice && jsx(LessonPicker, { t, packs: lessonChoice.packs, progress: lessonChoice.progress, onLearner: chooseLearner, onPick: beginLesson }),
                             ],
                           }),
                         ],
-                      }),
-                    ],
                   }),
                 ],
               }),
       }),
       error && jsx('div', { className: 'error-popup', role: 'alert', children: error }),
+      showGallery &&
+        toyImage &&
+        jsx(GalleryPanel, {
+          t,
+          name: toyName.trim() || defaultToyName,
+          lang: LOCALES[locale].speechLang,
+          images: gallery,
+          onToggleFavourite: toggleFavourite,
+          onDelete: deleteFromGallery,
+          onRerun: rerunCommand,
+          onSave: (image: GalleryImage) => downloadImage(image.imageUrl, `picture-${image.id}`),
+          onClose: () => setShowGallery(false),
+        }),
+      showCamera &&
+        jsx(CameraCapture, {
+          t,
+          onCapture: (photo: File) => {
+            setShowCamera(false);
+            startWithPhoto(photo);
+          },
+          onError: (message: string) => {
+            setShowCamera(false);
+            handleError(message);
+          },
+          onClose: () => setShowCamera(false),
+        }),
+      showParentPanel &&
+        jsx(ParentPanel, {
+          t,
+          settings: parentSettings,
+          locale,
+          usage: loadUsage(),
+          onSave: (settings: ParentSettings) => {
+            saveParentSettings(settings);
+            setParentSettings(settings);
+          },
+          onClose: () => setShowParentPanel(false),
+        }),
     ],
   });
 }
 
 // ---------- 3D Viewer component ----------
-function ThreeDViewer({ modelFile }: { modelFile: File | null }) {
+// `action` plays while it is set: a matching embedded clip if the model has one, else a procedural move.
+// While `talking`, each `wordTick` opens the model's jaw / mouth morph, or pulses its scale if it has neither.
+// A model that fails to load shows why instead of an empty stage; the ⓘ button shows what the model contains.
+// Without a model file, the `cutout` of the toy photo is shown as a 2.5D stand-in (lib/photoModel.ts).
+type ThreeDViewerProps = { t: Translate; modelFile: File | null; cutout?: Blob | null; action: ToyAction | null; talking: boolean; wordTick: number };
+
+function ThreeDViewer({ t, modelFile, cutout = null, action, talking, wordTick }: ThreeDViewerProps) {
   const mountRef = useRef<HTMLDivElement | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const objectUrlRef = useRef<string | null>(null);
+  const [loadError, setLoadError] = useState<{ code: ModelErrorCode; files: string[] } | null>(null);
+  const [stats, setStats] = useState<ModelStats | null>(null);
+  const [showInspector, setShowInspector] = useState(false);
+  const actionRef = useRef<ToyAction | null>(action);
+  const playActionRef = useRef<((action: ToyAction | null) => void) | null>(null);
+  const talkRef = useRef({ talking, wordTick });
+  talkRef.current = { talking, wordTick };
 
   useEffect(() => {
-    if (!modelFile || !mountRef.current) return;
+    actionRef.current = action;
+    playActionRef.current?.(action);
+  }, [action]);
+
+  useEffect(() => {
+    if ((!modelFile && !cutout) || !mountRef.current) return;
     setIsLoading(true);
+    setLoadError(null);
+    setStats(null);
 
     const scene = new THREE.Scene();
     const mount = mountRef.current;
@@ -687,14 +2362,49 @@ function ThreeDViewer({ modelFile }: { modelFile: File | null }) {
     controls.enableDamping = true;
     controls.dampingFactor = 0.05;
 
-    const loader = new GLTFLoader();
-    const modelUrl = URL.createObjectURL(modelFile);
-    objectUrlRef.current = modelUrl;
-
-    loader.load(
-      modelUrl,
-      (gltf) => {
-        const model = gltf.scene;
+    // procedural moves transform this pivot, so the model keeps its own centring and scale
+    const pivot = new THREE.Group();
+    scene.add(pivot);
+    const clock = new THREE.Clock();
+    let mixer: THREE.AnimationMixer | null = null;
+    let clips: THREE.AnimationClip[] = [];
+    let idleAction: THREE.AnimationAction | null = null;
+    let clipAction: THREE.AnimationAction | null = null;
+    let procedural: { action: ToyAction; startedAt: number } | null = null;
+    let pose: ToyPose = REST_POSE;
+    // mouth rigs found in the model, if any
+    let jaw: { bone: THREE.Object3D; restX: number } | null = null;
+    const mouthMorphs: { mesh: THREE.Mesh; index: number }[] = [];
+    let lastWordTick = talkRef.current.wordTick;
+    let wordAt = -Infinity;
+    let mouth = 0;
+
+    const playAction = (next: ToyAction | null) => {
+      if (clipAction) {
+        clipAction.fadeOut(0.3);
+        clipAction = null;
+      }
+      procedural = null;
+      if (!next) return;
+      const clip = mixer && findClip(clips, next);
+      if (mixer && clip) {
+        clipAction = mixer.clipAction(clip).reset().setLoop(THREE.LoopRepeat, Infinity).fadeIn(0.2).play();
+      } else {
+        procedural = { action: next, startedAt: clock.elapsedTime };
+      }
+    };
+    playActionRef.current = playAction;
+
+    let disposed = false;
+    let release: (() => void) | null = null;
+    (modelFile ? loadModel(modelFile) : loadPhotoModel(cutout)).then(
+      (loaded) => {
+        release = loaded.release;
+        if (disposed) {
+          release();
+          return;
+        }
+        const model = loaded.object;
         const box = new THREE.Box3().setFromObject(model);
         const center = box.getCenter(new THREE.Vector3());
         model.position.sub(center);
@@ -702,12 +2412,31 @@ function ThreeDViewer({ modelFile }: { modelFile: File | null }) {
         const maxDim = Math.max(size.x, size.y, size.z);
         const scale = maxDim > 0 ? 5 / maxDim : 1;
         model.scale.set(scale, scale, scale);
-        scene.add(model);
+        model.position.multiplyScalar(scale);
+        pivot.add(model);
+        model.traverse((obj) => {
+          if (!jaw && (obj as THREE.Bone).isBone && /jaw/i.test(obj.name)) jaw = { bone: obj, restX: obj.rotation.x };
+          const mesh = obj as THREE.Mesh;
+          const dict = mesh.isMesh ? mesh.morphTargetDictionary : undefined;
+          if (!dict) return;
+          const key = Object.keys(dict).find((k) => /jawopen|mouthopen|viseme_aa|^mouth|^open/i.test(k));
+          if (key) mouthMorphs.push({ mesh, index: dict[key] });
+        });
+        if (loaded.animations.length) {
+          mixer = new THREE.AnimationMixer(model);
+          clips = loaded.animations;
+          const idle = findIdleClip(clips);
+          if (idle) idleAction = mixer.clipAction(idle).play();
+        }
+        // a reaction that started while the model was loading
+        if (actionRef.current) playAction(actionRef.current);
+        setStats(loaded.stats);
         setIsLoading(false);
       },
-      undefined,
       (err) => {
-        console.error('Error loading GLB', err);
+        console.error('Error loading 3D model', err);
+        if (disposed) return;
+        setLoadError({ code: err?.code ?? 'corrupt', files: err?.files ?? [] });
         setIsLoading(false);
       }
     );
@@ -715,6 +2444,26 @@ function ThreeDViewer({ modelFile }: { modelFile: File | null }) {
     let afId: number;
     const animate = () => {
       afId = requestAnimationFrame(animate);
+      const delta = clock.getDelta();
+      mixer?.update(delta);
+      pose = procedural ? proceduralPose(procedural.action, clock.elapsedTime - procedural.startedAt) : easeToRest(pose, Math.min(1, delta * 6));
+      // each spoken word opens the mouth, which then closes again
+      const talk = talkRef.current;
+      if (talk.wordTick !== lastWordTick) {
+        lastWordTick = talk.wordTick;
+        wordAt = clock.elapsedTime;
+      }
+      const target = talk.talking ? Math.exp(-(clock.elapsedTime - wordAt) * 7) : 0;
+      mouth += (target - mouth) * Math.min(1, delta * 20);
+      if (jaw) jaw.bone.rotation.x = jaw.restX + mouth * 0.35;
+      mouthMorphs.forEach(({ mesh, index }) => {
+        if (mesh.morphTargetInfluences) mesh.morphTargetInfluences[index] = mouth;
+      });
+      const pulse = jaw || mouthMorphs.length ? 1 : 1 + mouth * 0.05;
+
+      pivot.position.y = pose.y;
+      pivot.rotation.set(0, pose.rotY, pose.rotZ);
+      pivot.scale.set(1 / Math.sqrt(pose.squash), pose.squash * pulse, 1 / Math.sqrt(pose.squash));
       controls.update();
       renderer.render(scene, camera);
     };
@@ -732,9 +2481,11 @@ function ThreeDViewer({ modelFile }: { modelFile: File | null }) {
     return () => {
       window.removeEventListener('resize', handleResize);
       cancelAnimationFrame(afId);
-      try {
-        URL.revokeObjectURL(modelUrl);
-      } catch {}
+      playActionRef.current = null;
+      idleAction?.stop();
+      mixer?.stopAllAction();
+      disposed = true;
+      release?.();
       if (mount && renderer.domElement) mount.removeChild(renderer.domElement);
       renderer.dispose();
       scene.traverse((obj) => {
@@ -754,19 +2505,103 @@ function ThreeDViewer({ modelFile }: { modelFile: File | null }) {
         }
       });
     };
-  }, [modelFile]);
+  }, [modelFile, cutout]);
 
   return jsx('div', {
     className: 'threed-viewer-container',
     children: [
-      isLoading && jsx(LoadingSpinner, { text: 'Loading 3D model...' }),
+      isLoading && jsx(LoadingSpinner, { text: t('toy.loadingModel') }),
+      loadError &&
+        jsx('div', {
+          className: 'threed-error',
+          role: 'alert',
+          children: [
+            jsx('p', { children: t(MODEL_ERROR_MESSAGES[loadError.code] ?? 'model.error.corrupt') }),
+            loadError.files.length > 0 && jsx('p', { className: 'threed-error-files', children: loadError.files.join(', ') }),
+            jsx('p', { className: 'threed-error-hint', children: t('model.error.hint') }),
+          ],
+        }),
+      stats &&
+        jsx('button', {
+          className: 'model-inspect-btn',
+          'aria-label': t('model.inspect'),
+          'aria-expanded': showInspector,
+          title: t('model.inspect'),
+          onClick: () => setShowInspector((v) => !v),
+          children: 'ⓘ',
+        }),
+      stats && showInspector && jsx(ModelInspector, { t, stats }),
       // FIX: Cast ref to any to resolve TypeScript error.
       jsx('div', { ref: mountRef as any, className: 'threed-canvas' }),
     ],
   });
 }
 
+function ModelInspector({ t, stats }: { t: Translate; stats: ModelStats }) {
+  const row = (label: string, value: string) => [jsx('dt', { children: label }), jsx('dd', { children: value })];
+  const list = (items: string[]) => (items.length ? items.join(', ') : t('model.none'));
+  return jsx('div', {
+    className: 'model-inspector',
+    children: jsx('dl', {
+      children: [
+        ...row(t('model.format'), stats.format === 'photo' ? t('model.fromPhoto') : stats.format.toUpperCase()),
+        ...row(t('model.triangles'), stats.triangles.toLocaleString()),
+        ...row(t('model.meshes'), String(stats.meshes)),
+        ...row(t('model.materials'), list(stats.materials)),
+        ...row(t('model.textures'), String(stats.textures)),
+        ...row(t('model.clips'), list(stats.clips)),
+        ...(stats.missing.length ? row(t('model.missing'), stats.missing.join(', ')) : []),
+      ],
+    }),
+  });
+}
+
 // ---------- Small UI bits ----------
+type SpeechControls = {
+  canSpeak: boolean;
+  onReplay: (turn: ChatTurn) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+};
+
+// `speech` is set only on the turn currently being spoken
+// `seat` picks a playdate friend's bubble colour (0 = the main toy, or a friend who has left)
+type ChatTurnViewProps = { t: Translate; turn: ChatTurn; seat: number; speech: SpeechUi | null; controls: SpeechControls; onSaveImage: (url: string, label: string) => void };
+
+const ChatTurnView = ({ t, turn, seat, speech, controls, onSaveImage }: ChatTurnViewProps) =>
+  turn.role === 'child'
+    ? jsx('div', { className: 'child-bubble', children: turn.text })
+    : jsx('div', {
+        className: 'toy-turn',
+        children: [
+          turn.speakerName && jsx('span', { className: 'speaker-name', children: turn.speakerName }),
+          turn.text &&
+            jsx('div', {
+              className: `speech-bubble ${seat ? `seat-${seat}` : ''} ${speech ? 'speaking' : ''}`,
+              children: [
+                turn.emotion && jsx('span', { className: 'emotion-badge', role: 'img', 'aria-label': t(`emotion.${turn.emotion}` as MessageKey), title: t(`emotion.${turn.emotion}` as MessageKey), children: EMOTION_EMOJI[turn.emotion] }),
+                jsx(SpokenText, { text: turn.text, word: speech?.word ?? null }),
+                controls.canSpeak &&
+                  jsx('div', {
+                    className: 'speech-controls',
+                    children: speech
+                      ? [
+                          speech.paused
+                            ? jsx('button', { className: 'link-btn', onClick: controls.onResume, children: t('speech.resume') })
+                            : jsx('button', { className: 'link-btn', onClick: controls.onPause, children: t('speech.pause') }),
+                          jsx('button', { className: 'link-btn', onClick: controls.onStop, children: t('speech.stop') }),
+                        ]
+                      : jsx('button', { className: 'link-btn', onClick: () => controls.onReplay(turn), children: t('speech.replay') }),
+                  }),
+              ],
+            }),
+          turn.imageUrl && jsx('img', { src: turn.imageUrl, alt: t('chat.imageAlt'), className: 'action-image' }),
+          turn.imageUrl &&
+            jsx('button', { className: 'link-btn save-image-btn', onClick: () => onSaveImage(turn.imageUrl, `picture-${turn.id}`), children: t('keepsake.saveImage') }),
+        ],
+      });
+
 const LoadingSpinner = ({ text }: { text: string }) =>
   jsx('div', { className: 'loading-spinner', 'aria-label': text, role: 'status', children: [jsx('div', { className: 'spinner' }), jsx('p', { children: text })] });
 
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { parseNumber } from './answers';
+
+describe('parseNumber', () => {
+  it('reads digits', () => {
+    expect(parseNumber('I think 7!', 'en')).toBe(7);
+    expect(parseNumber('42', 'de')).toBe(42);
+  });
+
+  it('reads number words in each language', () => {
+    expect(parseNumber('Twenty one', 'en')).toBe(21);
+    expect(parseNumber('thirty', 'en')).toBe(30);
+    expect(parseNumber('treinta y dos', 'es')).toBe(32);
+    expect(parseNumber('veintiuno', 'es')).toBe(21);
+    expect(parseNumber('einundzwanzig', 'de')).toBe(21);
+    expect(parseNumber('fünf', 'de')).toBe(5);
+  });
+
+  it('takes the first number, or null when there is none', () => {
+    expect(parseNumber('three or four', 'en')).toBe(3);
+    expect(parseNumber('lots', 'en')).toBeNull();
+    expect(parseNumber('', 'es')).toBeNull();
+  });
+});
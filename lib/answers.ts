@@ -0,0 +1,94 @@
+/**
+ * Understanding a child's answer, typed or heard: compared without case, accents or
+ * punctuation, with plurals and number words read the way the mini-games (lib/games.ts)
+ * and lesson packs (lib/lessons.ts) need.
+ */
+
+import type { LocaleCode } from './i18n';
+
+// ---------- Words ----------
+// 0–20; index = value
+export const NUMBER_WORDS: Record<LocaleCode, string[][]> = {
+  en: [['zero'], ['one'], ['two'], ['three'], ['four'], ['five'], ['six'], ['seven'], ['eight'], ['nine'], ['ten'], ['eleven'], ['twelve'], ['thirteen'], ['fourteen'], ['fifteen'], ['sixteen'], ['seventeen'], ['eighteen'], ['nineteen'], ['twenty']],
+  es: [['cero'], ['uno', 'una', 'un'], ['dos'], ['tres'], ['cuatro'], ['cinco'], ['seis'], ['siete'], ['ocho'], ['nueve'], ['diez'], ['once'], ['doce'], ['trece'], ['catorce'], ['quince'], ['dieciseis'], ['diecisiete'], ['dieciocho'], ['diecinueve'], ['veinte']],
+  de: [['null'], ['eins', 'ein', 'eine'], ['zwei'], ['drei'], ['vier'], ['funf'], ['sechs'], ['sieben'], ['acht'], ['neun'], ['zehn'], ['elf'], ['zwolf'], ['dreizehn'], ['vierzehn'], ['funfzehn'], ['sechzehn'], ['siebzehn'], ['achtzehn'], ['neunzehn'], ['zwanzig']],
+};
+
+// 20–90; index = value / 10
+const TENS: Record<LocaleCode, string[]> = {
+  en: ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'],
+  es: ['', '', 'veinte', 'treinta', 'cuarenta', 'cincuenta', 'sesenta', 'setenta', 'ochenta', 'noventa'],
+  de: ['', '', 'zwanzig', 'dreissig', 'vierzig', 'funfzig', 'sechzig', 'siebzig', 'achtzig', 'neunzig'],
+};
+
+// "I give up" and "tell me", matched against normalized answers
+export const GIVE_UP: Record<LocaleCode, RegExp> = {
+  en: /\b(give up|tell me|i don'?t know|no idea)\b/,
+  es: /(me rindo|dimelo|dime|no (lo )?se\b|ni idea)/,
+  de: /(gebe? auf|sag es mir|sag's mir|sags mir|weiss (ich )?nicht|keine ahnung)/,
+};
+
+// ---------- Matching ----------
+/** Lower case, without accents or punctuation, single-spaced. */
+export function normalizeAnswer(text: string) {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ß/g, 'ss')
+    .replace(/[^a-z0-9' ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function singular(word: string) {
+  return word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+}
+
+/** Whether `text` names any of `words`; every word of a phrase must be there, in any order. */
+export function mentions(text: string, words: string[]) {
+  const said = normalizeAnswer(text).split(' ').map(singular);
+  return words.some((w) => {
+    const parts = normalizeAnswer(w).split(' ').map(singular);
+    return parts.every((p) => said.includes(p));
+  });
+}
+
+function smallNumber(word: string, locale: LocaleCode) {
+  return NUMBER_WORDS[locale].findIndex((forms) => forms.includes(word));
+}
+
+function ones(word: string | undefined, locale: LocaleCode) {
+  const value = word ? smallNumber(word, locale) : -1;
+  return value >= 1 && value <= 9 ? value : 0;
+}
+
+/** The number starting at `words[i]`, or null: "twenty one", "treinta y dos", "veintiuno", "einundzwanzig". */
+function numberAt(words: string[], i: number, locale: LocaleCode): number | null {
+  const word = words[i];
+  if (/^\d+$/.test(word)) return Number(word);
+  const tens = word ? TENS[locale].indexOf(word) : -1;
+  if (tens >= 2) {
+    const next = locale === 'en' ? words[i + 1] : locale === 'es' && words[i + 1] === 'y' ? words[i + 2] : undefined;
+    return tens * 10 + ones(next, locale);
+  }
+  if (locale === 'es' && word.startsWith('veinti') && ones(word.slice(6), locale)) return 20 + ones(word.slice(6), locale);
+  const compound = locale === 'de' ? /^(\w+)und(\w+)$/.exec(word) : null;
+  if (compound && ones(compound[1], locale) && TENS.de.indexOf(compound[2]) >= 2) return TENS.de.indexOf(compound[2]) * 10 + ones(compound[1], locale);
+  const small = smallNumber(word, locale);
+  return small >= 0 ? small : null;
+}
+
+/** The first number in `text`, in digits or words (0–99), or null. */
+export function parseNumber(text: string, locale: LocaleCode): number | null {
+  const words = normalizeAnswer(text).split(' ');
+  for (let i = 0; i < words.length; i++) {
+    const value = numberAt(words, i, locale);
+    if (value !== null) return value;
+  }
+  return null;
+}
+
+export function givesUp(text: string, locale: LocaleCode) {
+  return GIVE_UP[locale].test(normalizeAnswer(text));
+}
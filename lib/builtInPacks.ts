@@ -0,0 +1,132 @@
+/**
+ * The lesson packs that come with the app, one per supported language (see lib/lessonPacks.ts
+ * for the format). Packs parents load sit next to these.
+ */
+
+import type { LessonPack } from './lessonPacks';
+
+export const BUILT_IN_PACKS: LessonPack[] = [
+  {
+    format: 1,
+    id: 'first-steps-en',
+    title: 'First steps',
+    description: 'Colours, counting and animals',
+    language: 'en',
+    ages: { min: 3, max: 6 },
+    builtIn: true,
+    topics: [
+      {
+        id: 'colours',
+        title: 'Colours',
+        questions: [
+          { id: 'banana', ask: 'What colour is a banana?', answers: ['yellow'], choices: ['yellow', 'blue', 'green'], hint: 'Think of the sun!' },
+          { id: 'grass', ask: 'What colour is grass?', answers: ['green'], choices: ['red', 'green', 'white'], hint: 'Frogs are often this colour too.' },
+          { id: 'sky', ask: 'What colour is the sky on a sunny day?', answers: ['blue'], hint: 'The sea is often this colour too.' },
+          { id: 'mix', ask: 'What colour do you get when you mix red and white?', answers: ['pink'], choices: ['pink', 'black', 'yellow'], explain: 'Red and white make pink, like a flamingo!' },
+        ],
+      },
+      {
+        id: 'counting',
+        title: 'Counting',
+        questions: [
+          { id: 'hands', ask: 'How many hands do you have?', answers: ['2'], hint: 'Wave them both in the air!' },
+          { id: 'legs', ask: 'How many legs does a dog have?', answers: ['4'], hint: 'Two at the front and two at the back.' },
+          { id: 'add', ask: 'What is two plus three?', answers: ['5'], hint: 'Hold up two fingers, then three more.', explain: 'Two and three make five, like the fingers on one hand.' },
+          { id: 'after', ask: 'Which number comes after nine?', answers: ['10'], explain: 'Ten comes after nine.' },
+        ],
+      },
+      {
+        id: 'animals',
+        title: 'Animals',
+        questions: [
+          { id: 'cow', ask: 'What does a cow say?', answers: ['moo'], choices: ['moo', 'woof', 'quack'], hint: 'It lives on a farm and gives us milk.' },
+          { id: 'fish', ask: 'Where does a fish live?', answers: ['water', 'sea', 'river', 'lake', 'pond', 'ocean'], hint: 'It swims all day.' },
+          { id: 'baby-dog', ask: 'What is a baby dog called?', answers: ['puppy', 'pup'], hint: 'It starts with "p".' },
+          { id: 'fly', ask: 'Which animal can fly: a bird, a pig or a snail?', answers: ['bird'], choices: ['bird', 'pig', 'snail'], explain: 'Birds fly with their wings.' },
+        ],
+      },
+    ],
+  },
+  {
+    format: 1,
+    id: 'first-steps-es',
+    title: 'Primeros pasos',
+    description: 'Colores, números y animales',
+    language: 'es',
+    ages: { min: 3, max: 6 },
+    builtIn: true,
+    topics: [
+      {
+        id: 'colours',
+        title: 'Colores',
+        questions: [
+          { id: 'banana', ask: '¿De qué color es un plátano?', answers: ['amarillo'], choices: ['amarillo', 'azul', 'verde'], hint: '¡Piensa en el sol!' },
+          { id: 'grass', ask: '¿De qué color es la hierba?', answers: ['verde'], choices: ['rojo', 'verde', 'blanco'], hint: 'Las ranas suelen ser de este color.' },
+          { id: 'sky', ask: '¿De qué color es el cielo en un día de sol?', answers: ['azul'], hint: 'El mar también suele ser de este color.' },
+          { id: 'mix', ask: '¿Qué color sale si mezclas rojo y blanco?', answers: ['rosa'], choices: ['rosa', 'negro', 'amarillo'], explain: '¡Rojo y blanco hacen rosa, como un flamenco!' },
+        ],
+      },
+      {
+        id: 'counting',
+        title: 'Contar',
+        questions: [
+          { id: 'hands', ask: '¿Cuántas manos tienes?', answers: ['2'], hint: '¡Muévelas las dos en el aire!' },
+          { id: 'legs', ask: '¿Cuántas patas tiene un perro?', answers: ['4'], hint: 'Dos delante y dos detrás.' },
+          { id: 'add', ask: '¿Cuánto es dos más tres?', answers: ['5'], hint: 'Levanta dos dedos y luego tres más.', explain: 'Dos y tres son cinco, como los dedos de una mano.' },
+          { id: 'after', ask: '¿Qué número va después del nueve?', answers: ['10'], explain: 'Después del nueve va el diez.' },
+        ],
+      },
+      {
+        id: 'animals',
+        title: 'Animales',
+        questions: [
+          { id: 'cow', ask: '¿Qué dice la vaca?', answers: ['mu', 'muu'], choices: ['mu', 'guau', 'cuac'], hint: 'Vive en la granja y nos da leche.' },
+          { id: 'fish', ask: '¿Dónde vive un pez?', answers: ['agua', 'mar', 'río', 'lago', 'océano'], hint: 'Se pasa el día nadando.' },
+          { id: 'baby-dog', ask: '¿Cómo se llama un perro bebé?', answers: ['cachorro', 'perrito'], hint: 'Empieza por "c".' },
+          { id: 'fly', ask: '¿Qué animal puede volar: un pájaro, un cerdo o un caracol?', answers: ['pájaro'], choices: ['pájaro', 'cerdo', 'caracol'], explain: 'Los pájaros vuelan con sus alas.' },
+        ],
+      },
+    ],
+  },
+  {
+    format: 1,
+    id: 'first-steps-de',
+    title: 'Erste Schritte',
+    description: 'Farben, Zählen und Tiere',
+    language: 'de',
+    ages: { min: 3, max: 6 },
+    builtIn: true,
+    topics: [
+      {
+        id: 'colours',
+        title: 'Farben',
+        questions: [
+          { id: 'banana', ask: 'Welche Farbe hat eine Banane?', answers: ['gelb'], choices: ['gelb', 'blau', 'grün'], hint: 'Denk an die Sonne!' },
+          { id: 'grass', ask: 'Welche Farbe hat Gras?', answers: ['grün'], choices: ['rot', 'grün', 'weiß'], hint: 'Frösche haben oft diese Farbe.' },
+          { id: 'sky', ask: 'Welche Farbe hat der Himmel, wenn die Sonne scheint?', answers: ['blau'], hint: 'Das Meer hat oft auch diese Farbe.' },
+          { id: 'mix', ask: 'Welche Farbe bekommst du, wenn du Rot und Weiß mischst?', answers: ['rosa', 'pink'], choices: ['rosa', 'schwarz', 'gelb'], explain: 'Rot und Weiß ergeben Rosa, wie ein Flamingo!' },
+        ],
+      },
+      {
+        id: 'counting',
+        title: 'Zählen',
+        questions: [
+          { id: 'hands', ask: 'Wie viele Hände hast du?', answers: ['2'], hint: 'Wink mal mit beiden!' },
+          { id: 'legs', ask: 'Wie viele Beine hat ein Hund?', answers: ['4'], hint: 'Zwei vorne und zwei hinten.' },
+          { id: 'add', ask: 'Wie viel ist zwei plus drei?', answers: ['5'], hint: 'Halt zwei Finger hoch und dann noch drei.', explain: 'Zwei und drei sind fünf, so viele Finger wie an einer Hand.' },
+          { id: 'after', ask: 'Welche Zahl kommt nach der Neun?', answers: ['10'], explain: 'Nach der Neun kommt die Zehn.' },
+        ],
+      },
+      {
+        id: 'animals',
+        title: 'Tiere',
+        questions: [
+          { id: 'cow', ask: 'Was sagt die Kuh?', answers: ['muh'], choices: ['muh', 'wau', 'quak'], hint: 'Sie lebt auf dem Bauernhof und gibt uns Milch.' },
+          { id: 'fish', ask: 'Wo lebt ein Fisch?', answers: ['wasser', 'meer', 'fluss', 'see', 'teich'], hint: 'Er schwimmt den ganzen Tag.' },
+          { id: 'baby-dog', ask: 'Wie heißt ein Hundebaby?', answers: ['welpe', 'welpen'], hint: 'Es fängt mit "W" an.' },
+          { id: 'fly', ask: 'Welches Tier kann fliegen: ein Vogel, ein Schwein oder eine Schnecke?', answers: ['vogel'], choices: ['Vogel', 'Schwein', 'Schnecke'], explain: 'Vögel fliegen mit ihren Flügeln.' },
+        ],
+      },
+    ],
+  },
+];
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { createChildTurn, createToyTurn, historyForRequest, OMITTED_IMAGE, splitHistory, summarizeTurns } from './conversation';
+import type { ChatTurn } from './conversation';
+
+const IMAGE_URL = 'data:image/png;base64,aGVsbG8=';
+
+/** `count` turns taking turns, the child first. */
+function chat(count: number): ChatTurn[] {
+  return Array.from({ length: count }, (_, i) => (i % 2 ? createToyTurn(`Answer ${i}. And more.`) : createChildTurn(`Question ${i}? Please.`)));
+}
+
+describe('splitHistory', () => {
+  it('sends a short chat verbatim', () => {
+    const turns = chat(12);
+    expect(splitHistory(turns)).toEqual({ older: [], recent: turns });
+  });
+
+  it('keeps the last twelve turns, starting on the child', () => {
+    const even = splitHistory(chat(20));
+    expect(even.older).toHaveLength(8);
+    expect(even.recent).toHaveLength(12);
+
+    const odd = splitHistory(chat(21));
+    expect(odd.recent).toHaveLength(11);
+    expect(odd.recent[0].role).toBe('child');
+  });
+});
+
+describe('summarizeTurns', () => {
+  it('keeps the first sentence of each turn', () => {
+    const turns = [createChildTurn('Can you dance? Please!'), createToyTurn('Sure! Watch me.', IMAGE_URL), createToyTurn('Hello there.', undefined, { id: 'bear', name: 'Bear' })];
+    expect(summarizeTurns(turns)).toBe(
+      ['- The child said: "Can you dance?"', '- You answered: "Sure!" (and drew a picture)', '- Bear said: "Hello there."'].join('\n')
+    );
+    expect(summarizeTurns([])).toBe('');
+  });
+
+  it('drops the oldest lines when over budget', () => {
+    const summary = summarizeTurns(chat(100));
+    expect(summary.length).toBeLessThanOrEqual(1200);
+    expect(summary.startsWith('- (earlier chat omitted)')).toBe(true);
+    expect(summary.endsWith('"Answer 99."')).toBe(true);
+  });
+});
+
+describe('historyForRequest', () => {
+  it('sends only the newest picture and the summarized sentence of older turns', () => {
+    const turns = chat(20);
+    turns[3] = createToyTurn('An old picture.', IMAGE_URL);
+    turns[15] = createToyTurn('A picture.', IMAGE_URL);
+    turns[17] = createToyTurn('The newest picture.', IMAGE_URL);
+    const sent = historyForRequest(turns);
+    expect(sent).toHaveLength(20);
+    expect(sent.map((t) => (t.role === 'toy' ? t.imageUrl : undefined)).filter(Boolean)).toEqual([OMITTED_IMAGE, OMITTED_IMAGE, IMAGE_URL]);
+    expect(sent[0].text).toBe('Question 0?');
+    expect(sent[19]).toBe(turns[19]);
+  });
+
+  it('leaves out turns too old for the summary', () => {
+    const turns = chat(100);
+    const sent = historyForRequest(turns);
+    expect(sent).toHaveLength(60);
+    expect(sent[59]).toBe(turns[99]);
+  });
+});
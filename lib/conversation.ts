@@ -0,0 +1,185 @@
+/**
+ * Conversation memory for the toy companion.
+ * - Typed transcript of child turns and toy turns (text + generated images)
+ * - Builds the multi-turn `contents` array sent to the model on each request
+ * - Folds old turns into a short local summary so requests stay small
+ * - Trims the history before it is sent to what the request can use
+ * - Playdates: several toys share one transcript; each sees the others' lines as theirs
+ */
+
+import type { Content, Part } from '@google/genai';
+import type { Emotion } from './toyReply';
+
+// ---------- Configuration ----------
+const MAX_VERBATIM_TURNS = 12; // most recent turns sent as-is
+const MAX_HISTORY_IMAGES = 1; // generated images re-sent to the model (newest first)
+const MAX_SUMMARY_CHARS = 1200;
+const MAX_SENT_TURNS = 60; // older turns than these would not fit in the summary anyway
+
+/** The imageUrl of a picture left out of a request; the model is told one was drawn. */
+export const OMITTED_IMAGE = 'omitted:';
+
+// ---------- Types ----------
+export type ChildTurn = {
+  id: string;
+  role: 'child';
+  text: string;
+  at: number;
+};
+
+export type ToyTurn = {
+  id: string;
+  role: 'toy';
+  text: string;
+  imageUrl?: string; // data: URL of a generated action image
+  speakerId?: string; // library id of a visiting friend; unset for the main toy
+  speakerName?: string; // set on playdate turns, for labels and for the other toys' context
+  emotion?: Emotion; // from the structured reply (lib/toyReply.ts), shown as a badge
+  at: number;
+};
+
+export type ChatTurn = ChildTurn | ToyTurn;
+
+export type InlineImagePart = { inlineData: { data: string; mimeType: string } };
+
+/** Another toy in the scene, sent along so the model can see and name it. */
+export type Companion = { name: string; image: InlineImagePart };
+
+export type ConversationOptions = {
+  companions?: Companion[];
+  self?: string; // speakerId of the toy answering; unset for the main toy
+};
+
+// ---------- Turn helpers ----------
+let turnCounter = 0;
+function nextTurnId() {
+  turnCounter += 1;
+  return `${Date.now().toString(36)}-${turnCounter}`;
+}
+
+export function createChildTurn(text: string): ChildTurn {
+  return { id: nextTurnId(), role: 'child', text, at: Date.now() };
+}
+
+export function createToyTurn(text: string, imageUrl?: string, speaker?: { id?: string; name: string }): ToyTurn {
+  const turn: ToyTurn = { id: nextTurnId(), role: 'toy', text, imageUrl, at: Date.now() };
+  if (speaker) Object.assign(turn, { speakerId: speaker.id, speakerName: speaker.name });
+  return turn;
+}
+
+/** Whether a toy turn was said by the toy answering now (see ConversationOptions.self). */
+function isOwnTurn(turn: ToyTurn, self: string | undefined) {
+  return (turn.speakerId || undefined) === self;
+}
+
+function dataUrlToPart(url: string): Part | null {
+  const match = /^data:([^;]+);base64,(.*)$/.exec(url);
+  if (!match) return null;
+  return { inlineData: { mimeType: match[1], data: match[2] } };
+}
+
+function firstSentence(text: string) {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  const m = /^(.{1,160}?[.!?])(\s|$)/.exec(clean);
+  return m ? m[1] : clean.slice(0, 160);
+}
+
+// ---------- Summary ----------
+/**
+ * Cheap, deterministic summary of turns that no longer fit in the verbatim window.
+ * Keeps what the child asked and the gist of each toy answer, newest last.
+ */
+export function summarizeTurns(turns: ChatTurn[], self?: string): string {
+  if (!turns.length) return '';
+  const lines = turns.map((t) =>
+    t.role === 'child'
+      ? `- The child said: "${firstSentence(t.text)}"`
+      : `- ${isOwnTurn(t, self) ? 'You answered' : `${t.speakerName || 'Your friend'} said`}: "${firstSentence(t.text)}"${t.imageUrl ? ' (and drew a picture)' : ''}`
+  );
+  let summary = lines.join('\n');
+  // drop the oldest lines first when over budget
+  while (summary.length > MAX_SUMMARY_CHARS && lines.length > 1) {
+    lines.shift();
+    summary = ['- (earlier chat omitted)', ...lines].join('\n');
+  }
+  return summary;
+}
+
+/** Splits history into the part that gets summarized and the part sent verbatim. */
+export function splitHistory(turns: ChatTurn[]) {
+  if (turns.length <= MAX_VERBATIM_TURNS) return { older: [] as ChatTurn[], recent: turns };
+  let cut = turns.length - MAX_VERBATIM_TURNS;
+  // never start the verbatim window on a toy turn, so it reads as a real exchange
+  while (cut < turns.length && turns[cut].role === 'toy') cut += 1;
+  return { older: turns.slice(0, cut), recent: turns.slice(cut) };
+}
+
+/**
+ * The history as it goes with a request: no more than buildConversationContents uses. Older turns
+ * are cut to the sentence the summary keeps, and only the newest pictures are sent along.
+ */
+export function historyForRequest(turns: ChatTurn[]): ChatTurn[] {
+  const { older, recent } = splitHistory(turns.slice(-MAX_SENT_TURNS));
+  const pictures = new Set(
+    recent
+      .filter((t) => t.role === 'toy' && t.imageUrl)
+      .slice(-MAX_HISTORY_IMAGES)
+      .map((t) => t.id)
+  );
+  const slim = (turn: ChatTurn): ChatTurn => (turn.role === 'toy' && turn.imageUrl && !pictures.has(turn.id) ? { ...turn, imageUrl: OMITTED_IMAGE } : turn);
+  return [...older.map((turn) => slim({ ...turn, text: firstSentence(turn.text) })), ...recent.map(slim)];
+}
+
+// ---------- Request building ----------
+/**
+ * Builds the multi-turn request: the toy photo and framing first, an optional
+ * summary of older chat, the recent turns, and finally the new command prompt.
+ * On a playdate the other toys' photos follow the framing, and their lines come
+ * in as reported speech from the user side rather than as the model's own.
+ */
+export function buildConversationContents(
+  toyImagePart: InlineImagePart,
+  history: ChatTurn[],
+  commandPrompt: string,
+  { companions = [], self }: ConversationOptions = {}
+): Content[] {
+  const { older, recent } = splitHistory(history);
+  const summary = summarizeTurns(older, self);
+
+  let framing = 'This is a photo of me, the toy. We are having a conversation with a child.';
+  if (summary) framing += `\nHere is what happened earlier in our chat:\n${summary}`;
+
+  const firstParts: Part[] = [toyImagePart, { text: framing }];
+  for (const friend of companions) firstParts.push({ text: `My friend ${friend.name} is playing with us too. This is ${friend.name}:` }, friend.image);
+  const contents: Content[] = [{ role: 'user', parts: firstParts }];
+
+  // only the newest generated images are re-sent, older ones become a text hint
+  let imagesLeft = MAX_HISTORY_IMAGES;
+  const imageTurnIds = new Set<string>();
+  for (let i = recent.length - 1; i >= 0 && imagesLeft > 0; i--) {
+    const t = recent[i];
+    if (t.role === 'toy' && t.imageUrl) {
+      imageTurnIds.add(t.id);
+      imagesLeft -= 1;
+    }
+  }
+
+  for (const turn of recent) {
+    if (turn.role === 'child') {
+      contents.push({ role: 'user', parts: [{ text: turn.text }] });
+      continue;
+    }
+    const own = isOwnTurn(turn, self);
+    const parts: Part[] = [];
+    if (turn.text) parts.push({ text: own ? turn.text : `${turn.speakerName || 'My friend'} said: "${turn.text}"` });
+    if (turn.imageUrl) {
+      const imgPart = imageTurnIds.has(turn.id) ? dataUrlToPart(turn.imageUrl) : null;
+      if (imgPart) parts.push(imgPart);
+      else parts.push({ text: own ? '(I drew a picture here.)' : '(A picture was drawn here.)' });
+    }
+    if (parts.length) contents.push({ role: own ? 'model' : 'user', parts });
+  }
+
+  contents.push({ role: 'user', parts: [{ text: commandPrompt }] });
+  return contents;
+}
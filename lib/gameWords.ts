@@ -0,0 +1,60 @@
+/**
+ * Words the mini-games need in every supported language (see lib/i18n.ts): things to guess,
+ * count and spell, Simon says actions, and the ways children say "I did it" or "I didn't".
+ * Words are lower case; answers are compared without accents (see lib/answers.ts).
+ */
+
+import type { LocaleCode } from './i18n';
+
+// ---------- Things ----------
+export type Thing = {
+  id: string; // English, for prompts
+  kind: string; // English category, for prompts
+  emoji: string;
+  words: Record<LocaleCode, string[]>; // the first is the word shown and spelled; the rest also count as right
+};
+
+export const THINGS: Thing[] = [
+  { id: 'cat', kind: 'animal', emoji: '🐱', words: { en: ['cat', 'kitty', 'kitten'], es: ['gato', 'gatito'], de: ['katze', 'kätzchen'] } },
+  { id: 'dog', kind: 'animal', emoji: '🐶', words: { en: ['dog', 'puppy', 'doggy'], es: ['perro', 'perrito'], de: ['hund', 'hündchen'] } },
+  { id: 'fish', kind: 'animal', emoji: '🐟', words: { en: ['fish'], es: ['pez', 'pescado'], de: ['fisch'] } },
+  { id: 'bird', kind: 'animal', emoji: '🐦', words: { en: ['bird', 'birdie'], es: ['pájaro', 'pajarito', 'ave'], de: ['vogel'] } },
+  { id: 'duck', kind: 'animal', emoji: '🦆', words: { en: ['duck', 'duckling'], es: ['pato', 'patito'], de: ['ente', 'entchen'] } },
+  { id: 'frog', kind: 'animal', emoji: '🐸', words: { en: ['frog'], es: ['rana'], de: ['frosch'] } },
+  { id: 'elephant', kind: 'animal', emoji: '🐘', words: { en: ['elephant'], es: ['elefante'], de: ['elefant'] } },
+  { id: 'giraffe', kind: 'animal', emoji: '🦒', words: { en: ['giraffe'], es: ['jirafa'], de: ['giraffe'] } },
+  { id: 'apple', kind: 'food', emoji: '🍎', words: { en: ['apple'], es: ['manzana'], de: ['apfel'] } },
+  { id: 'banana', kind: 'food', emoji: '🍌', words: { en: ['banana'], es: ['plátano', 'banana'], de: ['banane'] } },
+  { id: 'pizza', kind: 'food', emoji: '🍕', words: { en: ['pizza'], es: ['pizza'], de: ['pizza'] } },
+  { id: 'cake', kind: 'food', emoji: '🎂', words: { en: ['cake'], es: ['tarta', 'pastel'], de: ['kuchen', 'torte'] } },
+  { id: 'ball', kind: 'toy', emoji: '⚽', words: { en: ['ball'], es: ['pelota', 'balón'], de: ['ball'] } },
+  { id: 'car', kind: 'vehicle', emoji: '🚗', words: { en: ['car'], es: ['coche', 'carro', 'auto'], de: ['auto', 'wagen'] } },
+  { id: 'train', kind: 'vehicle', emoji: '🚂', words: { en: ['train'], es: ['tren'], de: ['zug', 'eisenbahn'] } },
+  { id: 'boat', kind: 'vehicle', emoji: '⛵', words: { en: ['boat', 'ship'], es: ['barco', 'barca'], de: ['boot', 'schiff'] } },
+  { id: 'sun', kind: 'thing in the sky', emoji: '☀️', words: { en: ['sun'], es: ['sol'], de: ['sonne'] } },
+  { id: 'moon', kind: 'thing in the sky', emoji: '🌙', words: { en: ['moon'], es: ['luna'], de: ['mond'] } },
+  { id: 'star', kind: 'thing in the sky', emoji: '⭐', words: { en: ['star'], es: ['estrella'], de: ['stern'] } },
+  { id: 'tree', kind: 'plant', emoji: '🌳', words: { en: ['tree'], es: ['árbol'], de: ['baum'] } },
+  { id: 'flower', kind: 'plant', emoji: '🌸', words: { en: ['flower'], es: ['flor'], de: ['blume'] } },
+];
+
+// ---------- Simon says ----------
+export const SIMON_ACTIONS: Record<LocaleCode, string[]> = {
+  en: ['touch your nose', 'clap your hands', 'jump up high', 'wave hello', 'spin around', 'stand on one leg', 'pat your head', 'wiggle your fingers'],
+  es: ['tócate la nariz', 'aplaude', 'salta muy alto', 'saluda con la mano', 'da una vuelta', 'ponte a la pata coja', 'tócate la cabeza', 'mueve los dedos'],
+  de: ['fass dir an die Nase', 'klatsch in die Hände', 'spring ganz hoch', 'wink zum Hallo', 'dreh dich im Kreis', 'steh auf einem Bein', 'klopf dir auf den Kopf', 'wackel mit den Fingern'],
+};
+
+// ---------- Understanding answers ----------
+// matched against answers without accents; "didn't" is checked before "did"
+export const DID_NOT: Record<LocaleCode, RegExp> = {
+  en: /\b(no|nope|not|didn'?t|stayed|still|never)\b/,
+  es: /\b(no|nada|quiet[oa]|me quede)\b/,
+  de: /\b(nein|nicht|no|stehen geblieben|stillgestanden)\b/,
+};
+
+export const DID: Record<LocaleCode, RegExp> = {
+  en: /\b(yes|yeah|yep|yup|did|done|ok|okay)\b/,
+  es: /\b(si|hecho|listo|lo hice|ya|vale)\b/,
+  de: /\b(ja|gemacht|fertig|hab ich|erledigt|okay)\b/,
+};
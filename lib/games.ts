@@ -0,0 +1,312 @@
+/**
+ * Mini-games the toy hosts: I spy (something on the toy itself, from its reference sheet),
+ * 20 questions, Simon says and a counting and spelling quiz. Rules, answers and scores are
+ * all kept here; the model only writes what the toy says about each turn, from the facts
+ * `gameFacts` puts into words.
+ */
+
+import type { LocaleCode, Translate } from './i18n';
+import type { ReferenceSheet } from './referenceSheet';
+import { givesUp, mentions, normalizeAnswer, parseNumber } from './answers';
+import { DID, DID_NOT, SIMON_ACTIONS, THINGS } from './gameWords';
+import type { Thing } from './gameWords';
+
+// ---------- Configuration ----------
+const ISPY_ROUNDS = 3;
+const ISPY_TRIES = 3; // wrong guesses before the toy tells
+const TWENTY_QUESTIONS = 20;
+const SIMON_ROUNDS = 8;
+const SIMON_SAYS_CHANCE = 0.7; // the rest are trick instructions without "Simon says"
+const QUIZ_ROUNDS = 6;
+const MAX_COUNT = 10;
+const MAX_SPELLING_LETTERS = 6;
+
+// words in reference sheet features that are not the thing itself
+const FILLER_WORDS = new Set(['a', 'an', 'the', 'and', 'with', 'on', 'of', 'its', 'his', 'her', 'in', 'at', 'to', 'small', 'big', 'large', 'little', 'tiny', 'round', 'soft', 'shiny', 'fluffy', 'one', 'two', 'left', 'right', 'front', 'back', 'side']);
+const COLOUR_WORDS = ['red', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink', 'brown', 'black', 'white', 'grey', 'gray', 'gold', 'silver'];
+
+// ---------- Types ----------
+export type GameKind = 'ispy' | 'twenty' | 'simon' | 'quiz';
+export const GAME_KINDS: GameKind[] = ['ispy', 'twenty', 'simon', 'quiz'];
+
+export type Challenge =
+  | { type: 'spy'; target: string; clue: string; answers: string[] } // a feature from the reference sheet, in English
+  | { type: 'secret'; thing: Thing }
+  | { type: 'simon'; action: string; simonSays: boolean }
+  | { type: 'count'; thing: Thing; count: number }
+  | { type: 'spell'; thing: Thing; word: string };
+
+export type Game = {
+  id: string;
+  kind: GameKind;
+  locale: LocaleCode;
+  round: number; // 1-based
+  rounds: number;
+  score: number;
+  maxScore: number;
+  tries: number; // wrong guesses (I spy) or questions asked (20 questions) this round
+  challenge: Challenge | null; // null once the game is over
+  used: string[]; // targets already played, so rounds don't repeat
+};
+
+export type GameEvent =
+  | { type: 'start' }
+  | { type: 'correct'; answer: string }
+  | { type: 'wrong'; answer: string; expected?: string } // with `expected`, the round is over
+  | { type: 'reveal'; expected: string } // the child gave up or ran out of guesses
+  | { type: 'question'; question: string } // 20 questions: a yes-or-no question for the toy to answer
+  | { type: 'unclear'; answer: string }; // Simon says: neither "did" nor "didn't"
+
+/** A turn's outcome; `next` is set when a new challenge has just been set (or the game ended). */
+export type GameTurn = { game: Game; event: GameEvent; next: boolean };
+
+/** Per toy, saved with it in the library. */
+export type GameScores = Partial<Record<GameKind, { played: number; best: number }>>;
+
+type Random = () => number;
+
+// ---------- Answers ----------
+/** The letters of a spelling answer: "c-a-t", "C A T" and "cat" all read "cat". */
+function spelled(text: string) {
+  return normalizeAnswer(text).replace(/[^a-z]/g, '');
+}
+
+// ---------- Challenges ----------
+function pick<T>(items: T[], random: Random): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+/** The I spy targets on a toy: its features that name something a child could guess. */
+function spyTargets(sheet: ReferenceSheet | null) {
+  if (!sheet) return [];
+  const colours = [...COLOUR_WORDS, ...sheet.colours.map(normalizeAnswer)];
+  return sheet.features
+    .map((feature) => {
+      const words = normalizeAnswer(feature).split(' ');
+      const answers = words.filter((w) => w.length >= 3 && !FILLER_WORDS.has(w) && !colours.includes(w));
+      const colour = words.find((w) => colours.includes(w));
+      const clue = colour ? `something ${colour}` : `something beginning with "${answers[0]?.[0]}"`;
+      return { type: 'spy' as const, target: feature, clue, answers };
+    })
+    .filter((target) => target.answers.length);
+}
+
+/** I spy needs the reference sheet, whose feature words and clues are English, so it is English only for now. */
+export function canPlay(kind: GameKind, sheet: ReferenceSheet | null, locale: LocaleCode) {
+  return kind !== 'ispy' || (locale === 'en' && spyTargets(sheet).length > 0);
+}
+
+function nextChallenge(game: Game, sheet: ReferenceSheet | null, random: Random): Challenge {
+  const fresh = <T>(items: T[], key: (item: T) => string) => {
+    const unused = items.filter((item) => !game.used.includes(key(item)));
+    return pick(unused.length ? unused : items, random);
+  };
+  switch (game.kind) {
+    case 'ispy':
+      return fresh(spyTargets(sheet), (t) => t.target);
+    case 'twenty':
+      return { type: 'secret', thing: pick(THINGS, random) };
+    case 'simon':
+      return { type: 'simon', action: fresh(SIMON_ACTIONS[game.locale], (a) => a), simonSays: random() < SIMON_SAYS_CHANCE };
+    case 'quiz': {
+      // counting and spelling take turns
+      if (game.round % 2) return { type: 'count', thing: pick(THINGS, random), count: 1 + Math.floor(random() * MAX_COUNT) };
+      const spellable = THINGS.filter((t) => spelled(t.words[game.locale][0]).length <= MAX_SPELLING_LETTERS);
+      const thing = fresh(spellable, (t) => t.id);
+      return { type: 'spell', thing, word: thing.words[game.locale][0] };
+    }
+  }
+}
+
+function challengeKey(challenge: Challenge) {
+  switch (challenge.type) {
+    case 'spy':
+      return challenge.target;
+    case 'simon':
+      return challenge.action;
+    case 'secret':
+    case 'count':
+    case 'spell':
+      return challenge.thing.id;
+  }
+}
+
+/** Guesses (I spy) or questions (20 questions) left this round. */
+export function triesLeft(game: Game) {
+  return (game.kind === 'twenty' ? TWENTY_QUESTIONS : ISPY_TRIES) - game.tries;
+}
+
+// ---------- Playing ----------
+export function startGame(kind: GameKind, locale: LocaleCode, sheet: ReferenceSheet | null, random: Random = Math.random): Game {
+  const rounds = { ispy: Math.min(ISPY_ROUNDS, spyTargets(sheet).length), twenty: 1, simon: SIMON_ROUNDS, quiz: QUIZ_ROUNDS }[kind];
+  const game: Game = {
+    id: `game-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    kind,
+    locale,
+    round: 1,
+    rounds,
+    score: 0,
+    maxScore: kind === 'twenty' ? TWENTY_QUESTIONS : rounds,
+    tries: 0,
+    challenge: null,
+    used: [],
+  };
+  const challenge = nextChallenge(game, sheet, random);
+  return { ...game, challenge, used: [challengeKey(challenge)] };
+}
+
+/** Moves on to the next round, or ends the game after the last one. */
+function advance(game: Game, sheet: ReferenceSheet | null, random: Random): Game {
+  if (game.round >= game.rounds) return { ...game, challenge: null, tries: 0 };
+  const next = { ...game, round: game.round + 1, tries: 0 };
+  const challenge = nextChallenge(next, sheet, random);
+  return { ...next, challenge, used: [...next.used, challengeKey(challenge)] };
+}
+
+/** The child's answer (typed, said or tapped) applied to the game. */
+export function playTurn(game: Game, answer: string, sheet: ReferenceSheet | null, random: Random = Math.random): GameTurn {
+  const challenge = game.challenge;
+  if (!challenge) return { game, event: { type: 'start' }, next: false };
+  const gaveUp = givesUp(answer, game.locale);
+  const finish = (event: GameEvent, scored = 0): GameTurn => ({ game: advance({ ...game, score: game.score + scored }, sheet, random), event, next: true });
+
+  switch (challenge.type) {
+    case 'spy': {
+      if (mentions(answer, challenge.answers)) return finish({ type: 'correct', answer }, 1);
+      if (gaveUp || game.tries + 1 >= ISPY_TRIES) return finish({ type: 'reveal', expected: challenge.target });
+      return { game: { ...game, tries: game.tries + 1 }, event: { type: 'wrong', answer }, next: false };
+    }
+    case 'secret': {
+      if (mentions(answer, [...challenge.thing.words[game.locale], challenge.thing.id])) return finish({ type: 'correct', answer }, TWENTY_QUESTIONS - game.tries);
+      const expected = challenge.thing.words[game.locale][0];
+      if (gaveUp || game.tries + 1 >= TWENTY_QUESTIONS) return finish({ type: 'reveal', expected });
+      return { game: { ...game, tries: game.tries + 1 }, event: { type: 'question', question: answer }, next: false };
+    }
+    case 'simon': {
+      const said = normalizeAnswer(answer);
+      const didNot = DID_NOT[game.locale].test(said);
+      if (!didNot && !DID[game.locale].test(said)) return { game, event: { type: 'unclear', answer }, next: false };
+      return didNot !== challenge.simonSays ? finish({ type: 'correct', answer }, 1) : finish({ type: 'wrong', answer });
+    }
+    case 'count': {
+      const expected = String(challenge.count);
+      if (gaveUp) return finish({ type: 'reveal', expected });
+      return parseNumber(answer, game.locale) === challenge.count ? finish({ type: 'correct', answer }, 1) : finish({ type: 'wrong', answer, expected });
+    }
+    case 'spell': {
+      if (gaveUp) return finish({ type: 'reveal', expected: challenge.word });
+      return spelled(answer) === spelled(challenge.word) ? finish({ type: 'correct', answer }, 1) : finish({ type: 'wrong', answer, expected: challenge.word });
+    }
+  }
+}
+
+// ---------- What the toy says ----------
+const GAME_NAMES: Record<GameKind, string> = {
+  ispy: 'I spy',
+  twenty: '20 questions',
+  simon: 'Simon says',
+  quiz: 'a counting and spelling quiz',
+};
+
+const GAME_RULES: Record<GameKind, string> = {
+  ispy: 'you spy something on yourself (the toy in the photo) and give a clue; the child guesses what it is.',
+  twenty: 'you secretly think of something; the child asks yes-or-no questions and tries to guess it.',
+  simon: 'the child only does an action when it starts with "Simon says", and stays still otherwise.',
+  quiz: 'the child counts pictures and spells short words.',
+};
+
+/** A thing's word as shown and said: German nouns are capitalised. */
+export function thingName(thing: Thing, locale: LocaleCode) {
+  const word = thing.words[locale][0];
+  return locale === 'de' ? word.charAt(0).toUpperCase() + word.slice(1) : word;
+}
+
+/** The line that sets the current challenge, in the game's language; empty for I spy, whose clue the toy words itself. */
+export function challengeText(game: Game, t: Translate): string {
+  const challenge = game.challenge;
+  switch (challenge?.type) {
+    case 'secret':
+      return t('game.twenty.prompt');
+    case 'simon':
+      return challenge.simonSays ? t('game.simon.says', { action: challenge.action }) : t('game.simon.plain', { action: challenge.action });
+    case 'count':
+      return t('game.quiz.count', { thing: thingName(challenge.thing, game.locale) });
+    case 'spell':
+      return t('game.quiz.spell', { word: thingName(challenge.thing, game.locale) });
+    default:
+      return '';
+  }
+}
+
+/** What just happened and what comes next, in English, for the prompt of the toy's line. */
+export function gameFacts({ game, event, next }: GameTurn, say: string): string {
+  const facts: string[] = [];
+  switch (event.type) {
+    case 'start':
+      facts.push(`You are starting a game of ${GAME_NAMES[game.kind]}: ${GAME_RULES[game.kind]}`);
+      break;
+    case 'correct':
+      facts.push(`The child answered "${event.answer}", which is right!`);
+      break;
+    case 'wrong':
+      facts.push(
+        event.expected
+          ? `The child answered "${event.answer}", which is not right; the answer was "${event.expected}".`
+          : game.kind === 'simon'
+            ? `The child answered "${event.answer}", which is wrong this time.`
+            : `The child guessed "${event.answer}", which is not it. They have ${triesLeft(game)} guesses left.`
+      );
+      break;
+    case 'reveal':
+      facts.push(`The child gave up or ran out of guesses. The answer was "${event.expected}"; tell them kindly.`);
+      break;
+    case 'question':
+      facts.push(`The child asked: "${event.question}". Answer it truthfully with yes, no or "sort of", without giving the secret away. They have ${triesLeft(game)} questions left.`);
+      break;
+    case 'unclear':
+      facts.push(`The child said "${event.answer}"; you can't tell whether they did the action. Ask again whether they did it.`);
+      break;
+  }
+  const challenge = game.challenge;
+  if (!challenge) {
+    facts.push(`The game is over. Final score: ${game.score} out of ${game.maxScore}. Celebrate and thank the child.`);
+  } else if (challenge.type === 'secret') {
+    facts.push(`The secret thing is: ${challenge.thing.id} (${challenge.thing.kind}). Never say it unless the child guesses it or gives up.`);
+  } else if (challenge.type === 'spy' && next) {
+    facts.push(`Now say "I spy with my little eye ${challenge.clue}". You spy your own "${challenge.target}"; never name it.`);
+  } else if (challenge.type === 'spy') {
+    facts.push(`You are spying your own "${challenge.target}" (clue: ${challenge.clue}); never name it.`);
+  }
+  if (challenge && next && challenge.type !== 'spy' && say) facts.push(`Then say exactly: "${say}"`);
+  return facts.join('\n');
+}
+
+/** The toy's line when the model can't give one. */
+export function fallbackLine({ game, event, next }: GameTurn, t: Translate): string {
+  const lines: string[] = [];
+  if (event.type === 'correct') lines.push(t('game.correct'));
+  else if (event.type === 'wrong') lines.push(event.expected ? t('game.wrongAnswer', { answer: event.expected }) : t('game.wrong'));
+  else if (event.type === 'reveal') lines.push(t('game.reveal', { answer: event.expected }));
+  else if (event.type === 'question') lines.push(t('game.question'));
+  else if (event.type === 'unclear') lines.push(t('game.unclear'));
+  if (!game.challenge) lines.push(t('game.over', { score: game.score, max: game.maxScore }));
+  else if (next) lines.push(game.challenge.type === 'spy' ? t('game.ispy.prompt') : challengeText(game, t));
+  return lines.join(' ');
+}
+
+// ---------- Scores ----------
+export function recordScore(scores: GameScores, game: Game): GameScores {
+  const previous = scores[game.kind] ?? { played: 0, best: 0 };
+  return { ...scores, [game.kind]: { played: previous.played + 1, best: Math.max(previous.best, game.score) } };
+}
+
+/** Saved scores, tolerating records from before games or with bad values. */
+export function normalizeGameScores(value: unknown): GameScores {
+  const scores: GameScores = {};
+  const v = (value || {}) as Record<string, any>;
+  for (const kind of GAME_KINDS) {
+    const entry = v[kind];
+    if (entry && Number.isFinite(entry.played) && Number.isFinite(entry.best)) scores[kind] = { played: entry.played, best: entry.best };
+  }
+  return scores;
+}
@@ -0,0 +1,172 @@
+/**
+ * Hands-free conversation: one continuous recognizer that restarts itself whenever the
+ * browser ends its session, passes interim text along while the child speaks and hands
+ * each finished sentence over as a command. With a wake phrase, only sentences naming a
+ * toy count; the name on its own arms the next sentence instead. Listening stops by
+ * itself after a quiet spell (not counting the time the toy is busy answering).
+ */
+
+// ---------- Configuration ----------
+export const SILENCE_TIMEOUT_MS = 45_000; // quiet time before listening stops by itself
+const WAKE_WINDOW_MS = 8_000; // after the name alone, the next sentence is the command
+const RESTART_DELAY_MS = 250; // gap before listening again once the browser ends a session
+const ECHO_OVERLAP = 0.7; // share of heard words also in the toy's reply that marks it as echo
+// errors that would only repeat on restart; anything else ('no-speech', 'aborted') just restarts
+const FATAL_ERRORS = new Set(['not-allowed', 'service-not-allowed', 'audio-capture', 'network', 'language-not-supported']);
+// said along with the wake phrase ("hey Teddy!") without being a command
+const GREETINGS = new Set(['hey', 'hi', 'hello', 'ok', 'okay', 'oye', 'hola', 'oiga', 'hallo', 'na']);
+
+// ---------- Types ----------
+export type HandsFreeStopReason = 'user' | 'timeout' | 'error';
+
+export type HandsFreeEvents = {
+  /** Toy names that wake the listener, or null to treat every sentence as a command. */
+  wakeNames: () => string[] | null;
+  /** Text of the sentence still being spoken; `awake` is false while a wake phrase is awaited. */
+  onInterim: (text: string, awake: boolean) => void;
+  /** A finished sentence meant for the toy (wake phrase included). */
+  onCommand: (text: string) => void;
+  /** The name was said on its own (true) or its window passed without a command (false). */
+  onWake: (armed: boolean) => void;
+  onStop: (reason: HandsFreeStopReason, error?: string) => void;
+};
+
+export type HandsFreeListener = ReturnType<typeof createHandsFreeListener>;
+
+// ---------- Helpers ----------
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+}
+
+function namePattern(name: string) {
+  return new RegExp(`(^|[^\\p{L}])${name.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\p{L}])`, 'giu');
+}
+
+/** Whether the text names one of the toys. */
+export function mentionsName(text: string, names: string[]): boolean {
+  return names.some((name) => name.trim() && namePattern(name).test(text));
+}
+
+/** Whether the text is nothing but a toy's name, maybe with a greeting ("Hey Teddy!"). */
+export function isOnlyWakePhrase(text: string, names: string[]): boolean {
+  const rest = names.reduce((left, name) => (name.trim() ? left.replace(namePattern(name), ' ') : left), text);
+  return words(rest).every((word) => GREETINGS.has(word));
+}
+
+/** Whether heard text is probably the toy's own voice coming back through the microphone. */
+export function isLikelyEcho(heard: string, spoken: string): boolean {
+  const heardWords = words(heard);
+  if (!heardWords.length || !spoken) return false;
+  const said = new Set(words(spoken));
+  return heardWords.filter((word) => said.has(word)).length / heardWords.length >= ECHO_OVERLAP;
+}
+
+// ---------- Listener ----------
+/**
+ * `events` is read on every callback, so it can close over the latest app state.
+ * While `setBusy(true)` (the toy is thinking or talking) the silence timer is held.
+ */
+export function createHandsFreeListener(Recognition: any, lang: string, events: () => HandsFreeEvents) {
+  let recognition: any = null;
+  let running = false;
+  let busy = false;
+  let armed = false;
+  let silenceTimer: ReturnType<typeof setTimeout> | undefined;
+  let wakeTimer: ReturnType<typeof setTimeout> | undefined;
+  let restartTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const resetSilenceTimer = () => {
+    clearTimeout(silenceTimer);
+    if (running && !busy) silenceTimer = setTimeout(() => stop('timeout'), SILENCE_TIMEOUT_MS);
+  };
+
+  const setArmed = (value: boolean) => {
+    clearTimeout(wakeTimer);
+    if (armed !== value) events().onWake(value);
+    armed = value;
+    if (value) wakeTimer = setTimeout(() => setArmed(false), WAKE_WINDOW_MS);
+  };
+
+  const isAwake = (text: string) => {
+    const names = events().wakeNames();
+    return !names || armed || mentionsName(text, names);
+  };
+
+  const handleFinal = (text: string) => {
+    const names = events().wakeNames();
+    if (names && !armed) {
+      if (!mentionsName(text, names)) return; // chatter that wasn't meant for the toy
+      if (isOnlyWakePhrase(text, names)) return setArmed(true);
+    }
+    setArmed(false);
+    events().onCommand(text);
+  };
+
+  const listen = () => {
+    const recog = new Recognition();
+    recog.lang = lang;
+    recog.continuous = true;
+    recog.interimResults = true;
+    recog.maxAlternatives = 1;
+    recog.onresult = (event: any) => {
+      resetSilenceTimer();
+      let interim = '';
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const text = (event.results[i][0]?.transcript ?? '').trim();
+        if (!text) continue;
+        if (event.results[i].isFinal) handleFinal(text);
+        else interim = `${interim} ${text}`.trim();
+      }
+      if (interim) events().onInterim(interim, isAwake(interim));
+    };
+    recog.onerror = (event: any) => {
+      if (FATAL_ERRORS.has(event?.error)) stop('error', event.error);
+    };
+    // browsers end continuous sessions after a pause or a minute or so; keep listening
+    recog.onend = () => {
+      if (recognition !== recog) return;
+      recognition = null;
+      if (running) restartTimer = setTimeout(listen, RESTART_DELAY_MS);
+    };
+    recognition = recog;
+    try {
+      recog.start();
+    } catch {
+      stop('error', 'start');
+    }
+  };
+
+  const stop = (reason: HandsFreeStopReason, error?: string) => {
+    if (!running) return;
+    running = false;
+    clearTimeout(silenceTimer);
+    clearTimeout(restartTimer);
+    setArmed(false);
+    const recog = recognition;
+    recognition = null;
+    if (recog) {
+      recog.onresult = recog.onerror = recog.onend = null;
+      try {
+        recog.abort();
+      } catch {}
+    }
+    events().onStop(reason, error);
+  };
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      listen();
+      resetSilenceTimer();
+    },
+    stop: () => stop('user'),
+    setBusy(value: boolean) {
+      busy = value;
+      resetSilenceTimer();
+    },
+    get active() {
+      return running;
+    },
+  };
+}
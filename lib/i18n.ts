@@ -0,0 +1,124 @@
+/**
+ * Locales: UI strings, preset commands, speech recognition / synthesis language
+ * and the language the toy is asked to reply in.
+ * The chosen locale is app-wide and kept in localStorage.
+ */
+
+import { de } from './locales/de';
+import { en } from './locales/en';
+import type { MessageKey, Messages } from './locales/en';
+import { es } from './locales/es';
+
+export type { MessageKey } from './locales/en';
+
+// ---------- Configuration ----------
+const LOCALE_KEY = 'toy-locale';
+
+// ---------- Types ----------
+export type LocaleCode = 'en' | 'es' | 'de';
+
+export type Locale = {
+  code: LocaleCode;
+  label: string; // shown in the language picker, in its own language
+  speechLang: string; // BCP 47 tag for recognition and synthesis
+  promptLanguage: string; // language name the model is told to answer in
+  commands: string[]; // preset command buttons
+  messages: Messages;
+};
+
+export type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string;
+
+// ---------- Locales ----------
+export const LOCALES: Record<LocaleCode, Locale> = {
+  en: {
+    code: 'en',
+    label: 'English',
+    speechLang: 'en-US',
+    promptLanguage: 'English',
+    commands: ['say hi', 'dance', 'jump', 'be happy', 'be angry', 'tell a story'],
+    messages: en,
+  },
+  es: {
+    code: 'es',
+    label: 'Español',
+    speechLang: 'es-ES',
+    promptLanguage: 'Spanish',
+    commands: ['di hola', 'baila', 'salta', 'ponte contento', 'ponte enfadado', 'cuenta un cuento'],
+    messages: es,
+  },
+  de: {
+    code: 'de',
+    label: 'Deutsch',
+    speechLang: 'de-DE',
+    promptLanguage: 'German',
+    commands: ['sag hallo', 'tanz', 'spring', 'sei fröhlich', 'sei wütend', 'erzähl eine Geschichte'],
+    messages: de,
+  },
+};
+
+export const DEFAULT_LOCALE: LocaleCode = 'en';
+
+// ---------- Persistence ----------
+function isLocaleCode(value: unknown): value is LocaleCode {
+  return typeof value === 'string' && Object.hasOwn(LOCALES, value);
+}
+
+/** The saved choice, else the first browser language we support, else English. */
+export function loadLocale(): LocaleCode {
+  try {
+    const saved = localStorage.getItem(LOCALE_KEY);
+    if (isLocaleCode(saved)) return saved;
+  } catch {}
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const tag of preferred) {
+    const base = (tag || '').toLowerCase().split('-')[0];
+    if (isLocaleCode(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function saveLocale(code: LocaleCode) {
+  try {
+    localStorage.setItem(LOCALE_KEY, code);
+  } catch (err) {
+    console.warn('Could not save the language choice', err);
+  }
+}
+
+// ---------- Strings ----------
+export function createTranslator(code: LocaleCode): Translate {
+  const messages = LOCALES[code].messages;
+  return (key, vars) => {
+    const template = messages[key] ?? en[key] ?? key;
+    return vars ? template.replace(/\{(\w+)\}/g, (m, name) => (name in vars ? String(vars[name]) : m)) : template;
+  };
+}
+
+// ---------- Voices ----------
+function voiceLang(voice: SpeechSynthesisVoice) {
+  return voice.lang.replace('_', '-').toLowerCase();
+}
+
+/** Voices that speak the locale's language (any region). */
+export function voicesForLocale(voices: SpeechSynthesisVoice[], code: LocaleCode): SpeechSynthesisVoice[] {
+  const base = LOCALES[code].speechLang.split('-')[0].toLowerCase();
+  return voices.filter((v) => voiceLang(v).split('-')[0] === base);
+}
+
+/**
+ * The voice to speak with: the toy's chosen voice if it fits the locale, else a friendly
+ * default for that language. Null means no voice matches, and the caller should let the
+ * browser choose from the utterance's `lang`.
+ */
+export function pickVoice(voices: SpeechSynthesisVoice[], code: LocaleCode, voiceURI: string | null): SpeechSynthesisVoice | null {
+  const matching = voicesForLocale(voices, code);
+  const exact = LOCALES[code].speechLang.toLowerCase();
+  return (
+    (voiceURI && matching.find((v) => v.voiceURI === voiceURI)) ||
+    matching.find((v) => voiceLang(v) === exact && /google/i.test(v.name)) ||
+    matching.find((v) => /female/i.test(v.name)) ||
+    matching.find((v) => voiceLang(v) === exact) ||
+    matching[0] ||
+    null
+  );
+}
@@ -0,0 +1,159 @@
+/**
+ * Keepsake export: packs a play session (toy photo, description, the conversation with
+ * its pictures, and any stories) into one self-contained HTML file. Images stay inline
+ * as data: URLs, so the file opens anywhere without the app; its print styles give a
+ * page-per-story layout for "Save as PDF".
+ */
+
+import type { ChatTurn } from './conversation';
+import type { Story } from './story';
+import type { Translate } from './i18n';
+
+// ---------- Types ----------
+export type Keepsake = {
+  toyName: string;
+  description: string;
+  photoUrl: string; // data: URL of the toy photo
+  turns: ChatTurn[];
+  stories: Story[];
+  createdAt: number;
+  lang: string; // BCP 47 tag for the document
+};
+
+// ---------- Helpers ----------
+function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+}
+
+// only inline images are embedded; anything else could make the file depend on the network
+function imageTag(url: string | null | undefined, alt: string, className: string) {
+  return url && url.startsWith('data:image/') ? `<img class="${className}" src="${escapeHtml(url)}" alt="${escapeHtml(alt)}">` : '';
+}
+
+function slug(text: string) {
+  return (
+    text
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '')
+      .slice(0, 40) || 'toy'
+  );
+}
+
+const EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/gif': 'gif', 'image/svg+xml': 'svg' };
+
+export function keepsakeFileName(toyName: string, at: number) {
+  return `${slug(toyName)}-keepsake-${new Date(at).toISOString().slice(0, 10)}.html`;
+}
+
+/** File name for one generated picture, with the extension its data: URL implies. */
+export function imageFileName(toyName: string, label: string, dataUrl: string) {
+  const mimeType = /^data:([^;,]+)/.exec(dataUrl)?.[1] ?? '';
+  return `${slug(toyName)}-${slug(label)}.${EXTENSIONS[mimeType] ?? 'png'}`;
+}
+
+// ---------- Document ----------
+const STYLES = `
+body { font-family: 'Nunito', 'Helvetica Neue', Arial, sans-serif; color: #1F2937; background: #FFFBEB; margin: 0; }
+main { max-width: 760px; margin: 0 auto; padding: 2rem 1.25rem; }
+h1, h2 { color: #4F46E5; }
+.toy { text-align: center; }
+.toy-photo { max-width: 280px; max-height: 280px; border-radius: 16px; border: 4px solid white; box-shadow: 0 4px 16px rgba(0,0,0,.12); }
+.saved-on { color: #6B7280; font-size: .9rem; }
+.turn { margin: .75rem 0; }
+.child { text-align: right; }
+.child span { display: inline-block; background: #F3F4F6; border: 1px solid #E5E7EB; border-radius: 18px 18px 4px 18px; padding: .6rem 1rem; }
+.speaker { margin: 0 0 .2rem; color: #6B7280; font-size: .85rem; font-weight: 700; }
+.toy-reply span { display: inline-block; background: #4F46E5; color: white; border-radius: 18px 18px 18px 4px; padding: .6rem 1rem; }
+.picture { display: block; max-width: 100%; max-height: 420px; margin: .75rem auto; border-radius: 12px; border: 4px solid white; box-shadow: 0 4px 16px rgba(0,0,0,.12); }
+.story-page { text-align: center; margin: 1.5rem 0; }
+.story-page p { font-size: 1.15rem; line-height: 1.6; }
+.choice { color: #6B7280; font-style: italic; }
+@media print {
+  body { background: white; }
+  main { padding: 0; }
+  .toy, .conversation, .story { break-after: page; }
+  .story-page, .turn { break-inside: avoid; }
+  .toy-reply span { background: none; color: #1F2937; border: 1px solid #4F46E5; }
+}
+`;
+
+function conversationHtml(turns: ChatTurn[], t: Translate) {
+  if (!turns.length) return '';
+  const items = turns.map((turn) =>
+    turn.role === 'child'
+      ? `<div class="turn child"><span>${escapeHtml(turn.text)}</span></div>`
+      : `<div class="turn toy-reply">${turn.speakerName ? `<p class="speaker">${escapeHtml(turn.speakerName)}</p>` : ''}${turn.text ? `<span>${escapeHtml(turn.text)}</span>` : ''}${imageTag(turn.imageUrl, t('chat.imageAlt'), 'picture')}</div>`
+  );
+  return `<section class="conversation"><h2>${escapeHtml(t('keepsake.conversation'))}</h2>${items.join('\n')}</section>`;
+}
+
+function storyHtml(story: Story, name: string, t: Translate) {
+  const pages = story.pages.map(
+    (page) =>
+      `<div class="story-page">${imageTag(page.imageUrl, t('story.imageAlt'), 'picture')}<p>${escapeHtml(page.text)}</p>${
+        page.chosen ? `<p class="choice">${escapeHtml(t('story.chose', { choice: page.chosen }))}</p>` : ''
+      }${page.ending ? `<h2>${escapeHtml(t('story.theEnd'))}</h2>` : ''}</div>`
+  );
+  return `<section class="story"><h2>${escapeHtml(t('story.title', { name }))}</h2>${pages.join('\n')}</section>`;
+}
+
+export function buildKeepsakeHtml(keepsake: Keepsake, t: Translate): string {
+  const { toyName, description, photoUrl, turns, stories, createdAt, lang } = keepsake;
+  const title = t('keepsake.title', { name: toyName });
+  const savedOn = t('keepsake.savedOn', { date: new Date(createdAt).toLocaleDateString(lang) });
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(lang)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+<section class="toy">
+<h1>${escapeHtml(title)}</h1>
+<p class="saved-on">${escapeHtml(savedOn)}</p>
+${imageTag(photoUrl, t('toy.imageAlt'), 'toy-photo')}
+${description ? `<p>${escapeHtml(description)}</p>` : ''}
+</section>
+${conversationHtml(turns, t)}
+${stories
+  .filter((s) => s.pages.length)
+  .map((s) => storyHtml(s, toyName, t))
+  .join('\n')}
+</main>
+</body>
+</html>
+`;
+}
+
+// ---------- Browser helpers ----------
+export function downloadFile(content: Blob | string, fileName: string) {
+  const url = typeof content === 'string' ? content : URL.createObjectURL(content);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  if (typeof content !== 'string') setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** Prints the keepsake from a hidden frame, so the browser's "Save as PDF" gets the print layout. */
+export function printKeepsake(html: string) {
+  const frame = document.createElement('iframe');
+  frame.style.cssText = 'position:fixed;width:0;height:0;border:0;';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return frame.remove();
+    win.onafterprint = () => setTimeout(() => frame.remove(), 0);
+    win.focus();
+    win.print();
+  };
+  document.body.appendChild(frame);
+}
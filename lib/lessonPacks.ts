@@ -0,0 +1,190 @@
+/**
+ * Lesson packs: topics of questions with the answers that count, for the toy to walk a child
+ * through (see lib/lessons.ts). A few packs come with the app (lib/builtInPacks.ts); parents
+ * can load more as JSON files in the parent panel, kept in localStorage on this device.
+ *
+ * {
+ *   "format": 1,
+ *   "id": "animals-en",
+ *   "title": "Animals",
+ *   "description": "Animal sounds and homes",
+ *   "language": "en",
+ *   "ages": { "min": 3, "max": 6 },
+ *   "topics": [
+ *     { "id": "sounds", "title": "Animal sounds", "questions": [
+ *       { "id": "cow", "ask": "What does a cow say?", "answers": ["moo"], "hint": "It lives on a farm.",
+ *         "choices": ["moo", "woof", "quack"], "explain": "Cows say moo!" }
+ *     ] }
+ *   ]
+ * }
+ *
+ * `choices`, `hint`, `explain` and `description` are optional. Answers are matched without case,
+ * accents or punctuation; numeric answers also match number words (see lib/answers.ts).
+ */
+
+import type { LocaleCode } from './i18n';
+import { LOCALES } from './i18n';
+import { BUILT_IN_PACKS } from './builtInPacks';
+
+// ---------- Configuration ----------
+const PACKS_KEY = 'toy-lesson-packs';
+const FORMAT = 1;
+const MAX_PACK_BYTES = 200_000;
+const ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+// ---------- Types ----------
+export type LessonQuestion = {
+  id: string;
+  ask: string; // what the toy asks, in the pack's language
+  answers: string[]; // any of them counts as right; the first is the one the toy tells
+  choices?: string[]; // shown as buttons to tap
+  hint?: string; // given after a first wrong answer
+  explain?: string; // said after the answer is told
+};
+
+export type LessonTopic = { id: string; title: string; questions: LessonQuestion[] };
+
+export type LessonPack = {
+  format: typeof FORMAT;
+  id: string;
+  title: string;
+  description?: string;
+  language: LocaleCode;
+  ages: { min: number; max: number };
+  topics: LessonTopic[];
+  builtIn?: boolean; // shipped with the app, so it can't be removed
+};
+
+export type LessonPackErrorCode = 'not-json' | 'too-large' | 'unsupported' | 'invalid';
+
+export class LessonPackError extends Error {
+  code: LessonPackErrorCode;
+  field: string; // where in the file the problem is, e.g. "topics[0].questions[2].answers"
+
+  constructor(message: string, code: LessonPackErrorCode, field = '') {
+    super(message);
+    this.name = 'LessonPackError';
+    this.code = code;
+    this.field = field;
+  }
+}
+
+// ---------- Parsing ----------
+function text(value: unknown, field: string, optional: true): string | undefined;
+function text(value: unknown, field: string): string;
+function text(value: unknown, field: string, optional = false) {
+  if (value === undefined && optional) return undefined;
+  if (typeof value !== 'string' || !value.trim()) throw new LessonPackError(`${field} must be a non-empty string.`, 'invalid', field);
+  return value.trim();
+}
+
+function texts(value: unknown, field: string, optional = false): string[] | undefined {
+  if (value === undefined && optional) return undefined;
+  if (!Array.isArray(value) || !value.length) throw new LessonPackError(`${field} must be a non-empty list.`, 'invalid', field);
+  return value.map((v, i) => text(v, `${field}[${i}]`));
+}
+
+function id(value: unknown, field: string) {
+  const v = text(value, field);
+  if (!ID_PATTERN.test(v)) throw new LessonPackError(`${field} may only use letters, digits, "-" and "_".`, 'invalid', field);
+  return v;
+}
+
+function list<T>(value: unknown, field: string, read: (item: any, field: string) => T & { id: string }) {
+  if (!Array.isArray(value) || !value.length) throw new LessonPackError(`${field} must be a non-empty list.`, 'invalid', field);
+  const items = value.map((item, i) => read(item ?? {}, `${field}[${i}]`));
+  items.forEach((item, i) => {
+    if (items.findIndex((other) => other.id === item.id) !== i) throw new LessonPackError(`${field} has "${item.id}" twice.`, 'invalid', `${field}[${i}].id`);
+  });
+  return items;
+}
+
+function readQuestion(q: any, field: string): LessonQuestion {
+  const question: LessonQuestion = { id: id(q.id, `${field}.id`), ask: text(q.ask, `${field}.ask`), answers: texts(q.answers, `${field}.answers`)! };
+  const choices = texts(q.choices, `${field}.choices`, true);
+  if (choices) question.choices = choices;
+  const hint = text(q.hint, `${field}.hint`, true);
+  if (hint) question.hint = hint;
+  const explain = text(q.explain, `${field}.explain`, true);
+  if (explain) question.explain = explain;
+  return question;
+}
+
+function readTopic(topic: any, field: string): LessonTopic {
+  return { id: id(topic.id, `${field}.id`), title: text(topic.title, `${field}.title`), questions: list(topic.questions, `${field}.questions`, readQuestion) };
+}
+
+/** A pack from its JSON text, checked field by field; throws LessonPackError. */
+export function parseLessonPack(json: string): LessonPack {
+  if (json.length > MAX_PACK_BYTES) throw new LessonPackError('The lesson pack is too large.', 'too-large');
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new LessonPackError('The lesson pack is not valid JSON.', 'not-json');
+  }
+  if (!raw || typeof raw !== 'object') throw new LessonPackError('The lesson pack must be a JSON object.', 'invalid');
+  if (raw.format !== FORMAT) throw new LessonPackError(`Only lesson pack format ${FORMAT} is supported.`, 'unsupported', 'format');
+  if (typeof raw.language !== 'string' || !Object.hasOwn(LOCALES, raw.language)) throw new LessonPackError(`language must be one of ${Object.keys(LOCALES).join(', ')}.`, 'unsupported', 'language');
+  const min = Number(raw.ages?.min);
+  const max = Number(raw.ages?.max);
+  if (!Number.isInteger(min) || !Number.isInteger(max) || min < 0 || max < min) throw new LessonPackError('ages must have whole numbers min <= max.', 'invalid', 'ages');
+  const pack: LessonPack = {
+    format: FORMAT,
+    id: id(raw.id, 'id'),
+    title: text(raw.title, 'title'),
+    language: raw.language,
+    ages: { min, max },
+    topics: list(raw.topics, 'topics', readTopic),
+  };
+  const description = text(raw.description, 'description', true);
+  if (description) pack.description = description;
+  return pack;
+}
+
+// ---------- Storage ----------
+function loadImported(): LessonPack[] {
+  try {
+    const raw = localStorage.getItem(PACKS_KEY);
+    const saved: unknown[] = raw ? JSON.parse(raw) : [];
+    // packs are checked again, so a bad edit to storage only loses that pack
+    return saved.flatMap((pack) => {
+      try {
+        return [parseLessonPack(JSON.stringify(pack))];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+function saveImported(packs: LessonPack[]) {
+  try {
+    localStorage.setItem(PACKS_KEY, JSON.stringify(packs));
+  } catch (err) {
+    console.warn(`Could not save ${PACKS_KEY}`, err);
+  }
+}
+
+/** The built-in packs, then the ones parents loaded. */
+export function loadLessonPacks(): LessonPack[] {
+  return [...BUILT_IN_PACKS, ...loadImported()];
+}
+
+/** Checks and keeps a pack from a file; one with the same id as a loaded pack replaces it. */
+export function importLessonPack(json: string): LessonPack {
+  const pack = parseLessonPack(json);
+  if (BUILT_IN_PACKS.some((p) => p.id === pack.id)) throw new LessonPackError(`"${pack.id}" is the id of a built-in pack.`, 'invalid', 'id');
+  saveImported([...loadImported().filter((p) => p.id !== pack.id), pack]);
+  return pack;
+}
+
+export function removeLessonPack(packId: string) {
+  saveImported(loadImported().filter((p) => p.id !== packId));
+}
+
+export function questionCount(pack: LessonPack) {
+  return pack.topics.reduce((sum, topic) => sum + topic.questions.length, 0);
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { gradeItem, planLesson } from './lessons';
+import type { Learner } from './lessons';
+import type { LessonPack } from './lessonPacks';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+
+const pack: LessonPack = {
+  format: 1,
+  id: 'pack',
+  title: 'Pack',
+  language: 'en',
+  ages: { min: 3, max: 6 },
+  topics: [{ id: 'topic', title: 'Topic', questions: ['a', 'b', 'c', 'd'].map((id) => ({ id, ask: `${id}?`, answers: [id] })) }],
+};
+
+const learner = (items: Learner['items'] = {}): Learner => ({ id: 'learner', name: '', items, lessons: [], createdAt: 0 });
+
+describe('gradeItem', () => {
+  it('moves a right answer up a box and waits longer', () => {
+    const first = gradeItem(undefined, 'right', NOW);
+    expect(first).toEqual({ box: 1, due: NOW + DAY_MS, seen: 1, right: 1, lastAt: NOW });
+    const second = gradeItem(first, 'right', NOW);
+    expect(second).toMatchObject({ box: 2, due: NOW + 3 * DAY_MS, seen: 2, right: 2 });
+  });
+
+  it('stops at the last box', () => {
+    let item = gradeItem(undefined, 'right', NOW);
+    for (let i = 0; i < 10; i++) item = gradeItem(item, 'right', NOW);
+    expect(item).toMatchObject({ box: 5, due: NOW + 35 * DAY_MS });
+  });
+
+  it('sends a helped answer back to the first wait and a missed one to now', () => {
+    const known = { box: 4, due: NOW, seen: 4, right: 4, lastAt: NOW };
+    expect(gradeItem(known, 'helped', NOW)).toMatchObject({ box: 1, due: NOW + DAY_MS, seen: 5, right: 4 });
+    expect(gradeItem(known, 'missed', NOW)).toMatchObject({ box: 0, due: NOW, seen: 5, right: 4 });
+  });
+});
+
+describe('planLesson', () => {
+  const key = (id: string) => `pack/topic/${id}`;
+  const item = (box: number, due: number) => ({ box, due, seen: 1, right: 1, lastAt: 0 });
+
+  it('asks new questions in pack order', () => {
+    expect(planLesson(pack, learner(), NOW, 3)).toEqual([key('a'), key('b'), key('c')]);
+  });
+
+  it('puts due questions first, lowest box first, then new ones, then the ones due soonest', () => {
+    const items = {
+      [key('a')]: item(1, NOW + 2 * DAY_MS),
+      [key('b')]: item(3, NOW - DAY_MS),
+      [key('c')]: item(0, NOW),
+    };
+    expect(planLesson(pack, learner(items), NOW)).toEqual([key('c'), key('b'), key('d'), key('a')]);
+    expect(planLesson(pack, learner(items), NOW, 2)).toEqual([key('c'), key('b')]);
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Lessons from lesson packs (lib/lessonPacks.ts), one child at a time. Each lesson is a short
+ * run of questions: missed ones first, then new ones. Answers are checked here, not by the
+ * model, and every question moves through review boxes (spaced repetition): right answers
+ * wait longer and longer before they come back, missed ones come back later in the same
+ * lesson and again the next time. Learners and their progress are kept in localStorage on
+ * this device for the parent panel's dashboard; the model only writes the toy's lines, from
+ * the facts `lessonFacts` puts into words.
+ */
+
+import { givesUp, mentions, parseNumber } from './answers';
+import type { LocaleCode, Translate } from './i18n';
+import type { LessonPack, LessonQuestion } from './lessonPacks';
+
+// ---------- Configuration ----------
+const PROGRESS_KEY = 'toy-lesson-progress';
+const REVIEW_DAYS = [0, 1, 3, 7, 16, 35]; // wait before a question comes back, by box
+const MASTERED_BOX = 3; // right three times in a row, over at least four days
+const LESSON_SIZE = 8;
+const TRIES = 2; // answers per question before the toy tells
+const RETRY_GAP = 2; // a missed question comes back after this many others
+const MAX_SESSIONS = 50; // lesson results kept per learner
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---------- Types ----------
+/** Where a question stands for one learner. */
+export type ItemProgress = {
+  box: number; // index into REVIEW_DAYS
+  due: number; // when it should be asked again, ms
+  seen: number;
+  right: number; // right first time
+  lastAt: number;
+};
+
+export type LessonResult = { at: number; packId: string; title: string; asked: number; right: number };
+
+export type Learner = {
+  id: string;
+  name: string; // empty for the learner made before parents name anyone
+  items: Record<string, ItemProgress>; // by item key, see itemKey
+  lessons: LessonResult[]; // newest first
+  createdAt: number;
+};
+
+export type LessonProgress = { learners: Learner[]; activeId: string };
+
+/** A question's place in a pack; also its key in Learner.items. */
+type ItemRef = { key: string; topicTitle: string; question: LessonQuestion };
+
+export type LessonSession = {
+  id: string;
+  packId: string;
+  learnerId: string;
+  locale: LocaleCode;
+  queue: string[]; // item keys; missed ones are added again further on
+  position: number; // index into `queue`; past the end once the lesson is over
+  tries: number; // wrong answers to the current question
+  asked: number; // different questions asked
+  right: number; // of those, right first time
+  requeued: string[]; // asked again this lesson already
+};
+
+export type LessonEvent =
+  | { type: 'start' }
+  | { type: 'correct'; answer: string }
+  | { type: 'retry'; answer: string; hint?: string }
+  | { type: 'reveal'; answer: string | null; expected: string; explain?: string; again: boolean }; // `answer` is null when the child asked to be told
+
+/** A turn's outcome; `next` is set when a new question has just come up (or the lesson ended). */
+export type LessonTurn = { session: LessonSession; event: LessonEvent; next: boolean; grade: Grade | null };
+
+/** How a question went: right first time, right after a hint, or told. */
+export type Grade = 'right' | 'helped' | 'missed';
+
+// ---------- Items ----------
+function itemKey(pack: LessonPack, topicId: string, questionId: string) {
+  return `${pack.id}/${topicId}/${questionId}`;
+}
+
+function packItems(pack: LessonPack): ItemRef[] {
+  return pack.topics.flatMap((topic) => topic.questions.map((question) => ({ key: itemKey(pack, topic.id, question.id), topicTitle: topic.title, question })));
+}
+
+export function lessonItem(pack: LessonPack, key: string): ItemRef | undefined {
+  return packItems(pack).find((item) => item.key === key);
+}
+
+/** The current question, or undefined once the lesson is over. */
+export function currentItem(session: LessonSession, pack: LessonPack) {
+  const key = session.queue[session.position];
+  return key ? lessonItem(pack, key) : undefined;
+}
+
+// ---------- Answers ----------
+/**
+ * Whether `answer` is right: numbers by value (digits or words), anything else by naming one of
+ * the accepted answers. Naming two of the choices at once ("red or blue") doesn't count.
+ */
+export function checkAnswer(question: LessonQuestion, answer: string, locale: LocaleCode) {
+  const numbers = question.answers.map(Number);
+  if (numbers.every(Number.isFinite)) return numbers.includes(parseNumber(answer, locale) ?? NaN);
+  if (!mentions(answer, question.answers)) return false;
+  const named = (question.choices ?? []).filter((choice) => mentions(answer, [choice]));
+  return named.length <= 1 || named.every((choice) => mentions(choice, question.answers));
+}
+
+// ---------- Spaced repetition ----------
+/** The item after a question went `grade`: right moves it up a box, helped back to the first wait, missed to now. */
+export function gradeItem(item: ItemProgress | undefined, grade: Grade, now = Date.now()): ItemProgress {
+  const before = item ?? { box: 0, due: now, seen: 0, right: 0, lastAt: now };
+  const box = grade === 'right' ? Math.min(before.box + 1, REVIEW_DAYS.length - 1) : grade === 'helped' ? 1 : 0;
+  return { box, due: now + REVIEW_DAYS[box] * DAY_MS, seen: before.seen + 1, right: before.right + (grade === 'right' ? 1 : 0), lastAt: now };
+}
+
+/**
+ * The questions for the next lesson: due ones (lowest box first), then new ones in pack order;
+ * when neither fills it, the ones due soonest, so there is always something to practise.
+ */
+export function planLesson(pack: LessonPack, learner: Learner, now = Date.now(), size = LESSON_SIZE): string[] {
+  const items = packItems(pack);
+  const progress = (key: string) => learner.items[key];
+  const due = items
+    .filter((item) => progress(item.key) && progress(item.key).due <= now)
+    .sort((a, b) => progress(a.key).box - progress(b.key).box || progress(a.key).due - progress(b.key).due);
+  const fresh = items.filter((item) => !progress(item.key));
+  const ahead = items.filter((item) => progress(item.key) && progress(item.key).due > now).sort((a, b) => progress(a.key).due - progress(b.key).due);
+  return [...due, ...fresh, ...ahead].slice(0, size).map((item) => item.key);
+}
+
+// ---------- Playing ----------
+export function startLesson(pack: LessonPack, learner: Learner, locale: LocaleCode, now = Date.now()): LessonSession {
+  return {
+    id: `lesson-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    packId: pack.id,
+    learnerId: learner.id,
+    locale,
+    queue: planLesson(pack, learner, now),
+    position: 0,
+    tries: 0,
+    asked: 1,
+    right: 0,
+    requeued: [],
+  };
+}
+
+export function lessonOver(session: LessonSession) {
+  return session.position >= session.queue.length;
+}
+
+/** The child's answer (typed, said or tapped) applied to the lesson; `grade` is set when the question is done. */
+export function playLessonTurn(session: LessonSession, pack: LessonPack, answer: string): LessonTurn {
+  const item = currentItem(session, pack);
+  if (!item) return { session, event: { type: 'start' }, next: false, grade: null };
+  const { question } = item;
+  const repeat = session.requeued.includes(item.key) && session.queue.indexOf(item.key) < session.position;
+  const move = (done: LessonSession): LessonSession => {
+    const position = done.position + 1;
+    const next = done.queue[position];
+    // a question coming back later in the lesson isn't counted as a new one
+    const fresh = next && !(done.requeued.includes(next) && done.queue.indexOf(next) < position);
+    return { ...done, position, tries: 0, asked: done.asked + (fresh ? 1 : 0) };
+  };
+
+  if (checkAnswer(question, answer, session.locale)) {
+    const grade: Grade = session.tries ? 'helped' : 'right';
+    const scored = grade === 'right' && !repeat ? 1 : 0;
+    return { session: move({ ...session, right: session.right + scored }), event: { type: 'correct', answer }, next: true, grade };
+  }
+  const gaveUp = givesUp(answer, session.locale);
+  if (!gaveUp && session.tries + 1 < TRIES) {
+    return { session: { ...session, tries: session.tries + 1 }, event: { type: 'retry', answer, hint: question.hint }, next: false, grade: null };
+  }
+  // a missed question comes back once more, a little later in the same lesson
+  const again = !session.requeued.includes(item.key);
+  const queue = again ? [...session.queue.slice(0, session.position + 1 + RETRY_GAP), item.key, ...session.queue.slice(session.position + 1 + RETRY_GAP)] : session.queue;
+  const requeued = again ? [...session.requeued, item.key] : session.requeued;
+  return {
+    session: move({ ...session, queue, requeued }),
+    event: { type: 'reveal', answer: gaveUp ? null : answer, expected: question.answers[0], explain: question.explain, again },
+    next: true,
+    grade: 'missed',
+  };
+}
+
+// ---------- What the toy says ----------
+/** What just happened and what comes next, in English, for the prompt of the toy's line. */
+export function lessonFacts({ session, event, next }: LessonTurn, pack: LessonPack): string {
+  const facts: string[] = [];
+  switch (event.type) {
+    case 'start':
+      facts.push(`You are starting a short lesson from "${pack.title}" with the child: ${session.queue.length} questions. Say you are happy to learn together.`);
+      break;
+    case 'correct':
+      facts.push(`The child answered "${event.answer}", which is right! Praise them in a few words.`);
+      break;
+    case 'retry':
+      facts.push(`The child answered "${event.answer}", which is not right yet. Encourage them to try once more${event.hint ? ` and give this hint: "${event.hint}"` : ''}. Don't give the answer away.`);
+      break;
+    case 'reveal':
+      facts.push(`${event.answer === null ? 'The child asked you to tell them.' : `The child answered "${event.answer}", which is not right.`} Tell them kindly that the answer is "${event.expected}".`);
+      if (event.explain) facts.push(`Explain: "${event.explain}"`);
+      if (event.again) facts.push('Say you will ask it again a bit later.');
+      break;
+  }
+  const item = currentItem(session, pack);
+  if (!item) facts.push(`The lesson is over: ${session.right} of ${session.asked} questions right first time. Celebrate and thank the child.`);
+  else if (next) facts.push(`Then ask exactly: "${item.question.ask}"`);
+  return facts.join('\n');
+}
+
+/** The toy's line when the model can't give one. */
+export function lessonFallback({ session, event, next }: LessonTurn, pack: LessonPack, t: Translate): string {
+  const lines: string[] = [];
+  if (event.type === 'start') lines.push(t('lesson.starting', { title: pack.title }));
+  else if (event.type === 'correct') lines.push(t('lesson.correct'));
+  else if (event.type === 'retry') lines.push(event.hint ? t('lesson.tryAgainHint', { hint: event.hint }) : t('lesson.tryAgain'));
+  else lines.push(t('lesson.reveal', { answer: event.expected }), ...(event.explain ? [event.explain] : []));
+  const item = currentItem(session, pack);
+  if (!item) lines.push(t('lesson.over', { right: session.right, asked: session.asked }));
+  else if (next) lines.push(item.question.ask);
+  return lines.join(' ');
+}
+
+// ---------- Learners ----------
+function createLearner(name: string, now = Date.now()): Learner {
+  return { id: `learner-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`, name, items: {}, lessons: [], createdAt: now };
+}
+
+/** Saved progress, tolerating bad values; there is always at least one learner. */
+export function loadLessonProgress(): LessonProgress {
+  let raw: any = null;
+  try {
+    raw = JSON.parse(localStorage.getItem(PROGRESS_KEY) || 'null');
+  } catch {}
+  const learners: Learner[] = (Array.isArray(raw?.learners) ? raw.learners : [])
+    .filter((l: any) => l && typeof l.id === 'string')
+    .map((l: any) => ({
+      id: l.id,
+      name: typeof l.name === 'string' ? l.name : '',
+      items: l.items && typeof l.items === 'object' ? l.items : {},
+      lessons: Array.isArray(l.lessons) ? l.lessons : [],
+      createdAt: Number(l.createdAt) || 0,
+    }));
+  if (!learners.length) learners.push(createLearner(''));
+  const activeId = learners.some((l) => l.id === raw?.activeId) ? raw.activeId : learners[0].id;
+  return { learners, activeId };
+}
+
+export function saveLessonProgress(progress: LessonProgress) {
+  try {
+    localStorage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+  } catch (err) {
+    console.warn(`Could not save ${PROGRESS_KEY}`, err);
+  }
+}
+
+/** Progress with a new learner added last. */
+export function withLearner(progress: LessonProgress, name: string): LessonProgress {
+  return { ...progress, learners: [...progress.learners, createLearner(name.trim())] };
+}
+
+export function withoutLearner(progress: LessonProgress, learnerId: string): LessonProgress {
+  const learners = progress.learners.filter((l) => l.id !== learnerId);
+  if (!learners.length) learners.push(createLearner(''));
+  return { learners, activeId: learners.some((l) => l.id === progress.activeId) ? progress.activeId : learners[0].id };
+}
+
+export function updateLearner(progress: LessonProgress, learnerId: string, update: (learner: Learner) => Learner): LessonProgress {
+  return { ...progress, learners: progress.learners.map((l) => (l.id === learnerId ? update(l) : l)) };
+}
+
+/** Progress after a question of the lesson went `grade`. */
+export function recordGrade(progress: LessonProgress, session: LessonSession, key: string, grade: Grade, now = Date.now()): LessonProgress {
+  return updateLearner(progress, session.learnerId, (l) => ({ ...l, items: { ...l.items, [key]: gradeItem(l.items[key], grade, now) } }));
+}
+
+/** Progress with the finished lesson in the learner's history. */
+export function recordLesson(progress: LessonProgress, session: LessonSession, pack: LessonPack, now = Date.now()): LessonProgress {
+  const result: LessonResult = { at: now, packId: pack.id, title: pack.title, asked: session.asked, right: session.right };
+  return updateLearner(progress, session.learnerId, (l) => ({ ...l, lessons: [result, ...l.lessons].slice(0, MAX_SESSIONS) }));
+}
+
+// ---------- Dashboard ----------
+export type PackSummary = {
+  total: number;
+  mastered: number; // in MASTERED_BOX or higher
+  learning: number; // asked, not mastered yet
+  due: number; // to be asked in the next lesson
+  accuracy: number | null; // share of answers right first time, once any were given
+  hardest: { ask: string; topicTitle: string; seen: number; right: number }[]; // most often missed, at most three
+};
+
+export function summarizePack(pack: LessonPack, learner: Learner, now = Date.now()): PackSummary {
+  const items = packItems(pack);
+  let seen = 0;
+  let right = 0;
+  const summary: PackSummary = { total: items.length, mastered: 0, learning: 0, due: 0, accuracy: null, hardest: [] };
+  for (const item of items) {
+    const progress = learner.items[item.key];
+    if (!progress) continue;
+    seen += progress.seen;
+    right += progress.right;
+    if (progress.box >= MASTERED_BOX) summary.mastered++;
+    else summary.learning++;
+    if (progress.due <= now) summary.due++;
+  }
+  if (seen) summary.accuracy = right / seen;
+  summary.hardest = items
+    .filter((item) => learner.items[item.key] && learner.items[item.key].right < learner.items[item.key].seen)
+    .map((item) => ({ ask: item.question.ask, topicTitle: item.topicTitle, seen: learner.items[item.key].seen, right: learner.items[item.key].right }))
+    .sort((a, b) => a.right / a.seen - b.right / b.seen || b.seen - a.seen)
+    .slice(0, 3);
+  return summary;
+}
@@ -0,0 +1,255 @@
+/**
+ * Realtime voice mode: the toy hears the child directly and answers in a generated voice
+ * (Gemini Live, relayed by the server's /api/live socket, see server/liveApi.ts).
+ * The microphone streams as 16 kHz PCM; the reply audio is scheduled on the app's
+ * AudioContext as it arrives, alongside a transcript of what the toy says.
+ */
+
+import type { VoiceSettings } from './personality';
+
+// ---------- Configuration ----------
+const LIVE_PATH = '/api/live';
+const INPUT_RATE = 16_000; // what the Live API expects from the microphone
+const CHUNK_MS = 100; // microphone audio per message
+const PLAYBACK_LEAD_S = 0.05; // scheduling slack so the first chunk does not start late
+// prebuilt voices, picked to roughly match the toy's browser voice pitch
+const VOICE_NAMES = { high: 'Puck', middle: 'Aoede', low: 'Charon' };
+
+// copies the microphone's samples out of the audio thread
+const TAP_WORKLET = `class PcmTap extends AudioWorkletProcessor {
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) this.port.postMessage(channel.slice(0));
+    return true;
+  }
+}
+registerProcessor('pcm-tap', PcmTap);`;
+
+export const canTalkLive = typeof WebSocket !== 'undefined' && typeof AudioWorkletNode !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+// ---------- Types ----------
+export type LiveError = { code: string; message: string };
+
+export type LiveVoiceEvents = {
+  /** What the child said, in pieces (only when the model transcribes input). */
+  onInput: (text: string) => void;
+  /** What the toy is saying, in pieces. */
+  onOutput: (text: string) => void;
+  onTurnComplete: () => void;
+  /** The child talked over the toy; its queued audio was dropped. */
+  onInterrupted: () => void;
+  /** The toy's voice started or stopped playing. */
+  onSpeaking: (speaking: boolean) => void;
+  /** The session is over; `error` is set unless it was stopped on purpose. */
+  onClose: (error?: LiveError) => void;
+};
+
+export type LiveVoiceOptions = {
+  audioContext: AudioContext;
+  instructions: string;
+  voiceName: string;
+  languageCode: string;
+  /** Read on every event, so it can close over the latest app state. */
+  events: () => LiveVoiceEvents;
+};
+
+export type LiveVoice = {
+  sendText: (text: string) => void;
+  /** Stops the reply being played; the rest of that turn stays silent. */
+  silenceReply: () => void;
+  stop: () => void;
+};
+
+// ---------- Helpers ----------
+export function liveVoiceName(voice: VoiceSettings): string {
+  if (voice.pitch >= 1.3) return VOICE_NAMES.high;
+  if (voice.pitch <= 0.85) return VOICE_NAMES.low;
+  return VOICE_NAMES.middle;
+}
+
+function toBase64(bytes: Uint8Array) {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+}
+
+function fromBase64(data: string) {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** Linear resampling to 16 kHz and conversion to little-endian PCM16. */
+function toPcm16(samples: Float32Array, fromRate: number): Uint8Array {
+  const length = Math.floor((samples.length * INPUT_RATE) / fromRate);
+  const pcm = new DataView(new ArrayBuffer(length * 2));
+  for (let i = 0; i < length; i++) {
+    const at = (i * fromRate) / INPUT_RATE;
+    const j = Math.floor(at);
+    const s = samples[j] + ((samples[j + 1] ?? samples[j]) - samples[j]) * (at - j);
+    pcm.setInt16(i * 2, Math.max(-1, Math.min(1, s)) * 0x7fff, true);
+  }
+  return new Uint8Array(pcm.buffer);
+}
+
+// ---------- Session ----------
+/** Resolves once the server says the session is ready; rejects with a LiveError otherwise. */
+export async function startLiveVoice({ audioContext, instructions, voiceName, languageCode, events }: LiveVoiceOptions): Promise<LiveVoice> {
+  // ask for the microphone first, so a refusal is reported before anything is opened
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true, channelCount: 1 } }).catch(() => {
+    throw { code: 'microphone', message: 'The microphone is not available.' } as LiveError;
+  });
+  const workletUrl = URL.createObjectURL(new Blob([TAP_WORKLET], { type: 'text/javascript' }));
+  try {
+    await audioContext.audioWorklet.addModule(workletUrl);
+  } finally {
+    URL.revokeObjectURL(workletUrl);
+  }
+
+  const socket = new WebSocket(`${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.host}${LIVE_PATH}`);
+  const send = (message: unknown) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  // microphone -> socket, in CHUNK_MS pieces
+  const source = audioContext.createMediaStreamSource(stream);
+  const tap = new AudioWorkletNode(audioContext, 'pcm-tap');
+  const sink = audioContext.createGain();
+  sink.gain.value = 0; // the tap only runs while connected to the output
+  let pending: Float32Array[] = [];
+  let pendingLength = 0;
+  let streaming = false;
+  tap.port.onmessage = (e: MessageEvent<Float32Array>) => {
+    if (!streaming) return;
+    pending.push(e.data);
+    pendingLength += e.data.length;
+    if (pendingLength < (audioContext.sampleRate * CHUNK_MS) / 1000) return;
+    const samples = new Float32Array(pendingLength);
+    let at = 0;
+    for (const piece of pending) {
+      samples.set(piece, at);
+      at += piece.length;
+    }
+    pending = [];
+    pendingLength = 0;
+    send({ type: 'audio', data: toBase64(toPcm16(samples, audioContext.sampleRate)) });
+  };
+  source.connect(tap).connect(sink).connect(audioContext.destination);
+
+  // socket -> speakers, each chunk queued right after the previous one
+  const playing = new Set<AudioBufferSourceNode>();
+  let playhead = 0;
+  let silenced = false; // until the current turn ends
+  const play = (data: string, mimeType: string) => {
+    if (silenced) return;
+    const rate = Number(/rate=(\d+)/.exec(mimeType)?.[1]) || 24_000;
+    const bytes = fromBase64(data);
+    const pcm = new DataView(bytes.buffer);
+    const buffer = audioContext.createBuffer(1, Math.floor(bytes.length / 2), rate);
+    const channel = buffer.getChannelData(0);
+    for (let i = 0; i < channel.length; i++) channel[i] = pcm.getInt16(i * 2, true) / 0x8000;
+    const node = audioContext.createBufferSource();
+    node.buffer = buffer;
+    node.connect(audioContext.destination);
+    playhead = Math.max(playhead, audioContext.currentTime + PLAYBACK_LEAD_S);
+    node.start(playhead);
+    playhead += buffer.duration;
+    playing.add(node);
+    if (playing.size === 1) events().onSpeaking(true);
+    node.onended = () => {
+      playing.delete(node);
+      if (!playing.size) events().onSpeaking(false);
+    };
+  };
+  const flush = () => {
+    const wasPlaying = playing.size > 0;
+    playing.forEach((node) => {
+      node.onended = null;
+      try {
+        node.stop();
+      } catch {}
+    });
+    playing.clear();
+    playhead = 0;
+    if (wasPlaying) events().onSpeaking(false);
+  };
+
+  let finished = false;
+  const finish = (error?: LiveError) => {
+    if (finished) return;
+    finished = true;
+    streaming = false;
+    tap.port.onmessage = null;
+    source.disconnect();
+    tap.disconnect();
+    sink.disconnect();
+    stream.getTracks().forEach((track) => track.stop());
+    flush();
+    if (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING) socket.close();
+    events().onClose(error);
+  };
+
+  return new Promise<LiveVoice>((resolve, reject) => {
+    let ready = false;
+    const controls: LiveVoice = {
+      sendText: (text) => send({ type: 'text', text }),
+      silenceReply: () => {
+        silenced = true;
+        flush();
+      },
+      stop: () => {
+        send({ type: 'end' });
+        finish();
+      },
+    };
+    socket.onopen = () => send({ type: 'start', instructions, voiceName, languageCode });
+    socket.onmessage = (e) => {
+      let message: any;
+      try {
+        message = JSON.parse(e.data);
+      } catch {
+        return;
+      }
+      switch (message.type) {
+        case 'ready':
+          ready = true;
+          streaming = true;
+          resolve(controls);
+          break;
+        case 'audio':
+          play(message.data, message.mimeType);
+          break;
+        case 'input':
+          events().onInput(message.text);
+          break;
+        case 'output':
+          if (!silenced) events().onOutput(message.text);
+          break;
+        case 'interrupted':
+          flush();
+          silenced = false;
+          events().onInterrupted();
+          break;
+        case 'turnComplete':
+          silenced = false;
+          events().onTurnComplete();
+          break;
+        case 'error': {
+          const error: LiveError = { code: message.code || 'unknown', message: message.message || '' };
+          if (!ready) reject(error);
+          finish(ready ? error : undefined);
+          break;
+        }
+      }
+    };
+    socket.onclose = () => {
+      const error: LiveError = { code: 'closed', message: 'The voice connection closed.' };
+      if (!ready) reject(error);
+      finish(ready && !finished ? error : undefined);
+    };
+  }).catch((error) => {
+    finish();
+    throw error;
+  });
+}
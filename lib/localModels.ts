@@ -0,0 +1,56 @@
+/**
+ * Models that run in the page on transformers.js: speech-to-text (lib/localSpeech.ts) and
+ * background removal (lib/photoModel.ts). The library and its WebAssembly runtime are part of
+ * the build; only the model weights download, on first use, and the browser caches them.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+type Progress = (percent: number) => void;
+type Loading = { pipeline: Promise<unknown>; onProgress: Progress | null };
+
+const loading = new Map<string, Loading>();
+
+async function transformers() {
+  const lib = await import('@huggingface/transformers');
+  // the library points the runtime at a CDN; without a path it uses the copy bundled next to it
+  if (lib.env.backends.onnx.wasm) lib.env.backends.onnx.wasm.wasmPaths = undefined;
+  return lib;
+}
+
+/**
+ * A transformers.js pipeline, loaded once per task and model. While the model downloads,
+ * progress (0–100) goes to the `onProgress` of the latest call.
+ */
+export function loadPipeline<T>(task: string, model: string, options: Record<string, unknown>, onProgress?: Progress): Promise<T> {
+  const key = `${task}:${model}`;
+  const loaded = loading.get(key);
+  if (loaded) {
+    loaded.onProgress = onProgress ?? null;
+    return loaded.pipeline as Promise<T>;
+  }
+
+  const files = new Map<string, { loaded: number; total: number }>();
+  const entry: Loading = { pipeline: Promise.resolve(), onProgress: onProgress ?? null };
+  entry.pipeline = (async () => {
+    const { pipeline } = await transformers();
+    return pipeline(task as any, model, {
+      ...options,
+      progress_callback: (event: any) => {
+        if (event.status !== 'progress' || !event.total) return;
+        files.set(event.file, { loaded: event.loaded, total: event.total });
+        let loaded = 0;
+        let total = 0;
+        files.forEach((f) => {
+          loaded += f.loaded;
+          total += f.total;
+        });
+        entry.onProgress?.(Math.round((loaded / total) * 100));
+      },
+    });
+  })();
+  loading.set(key, entry);
+  // a failed load (e.g. offline before the first download) can be tried again later
+  entry.pipeline.catch(() => loading.delete(key));
+  return entry.pipeline as Promise<T>;
+}
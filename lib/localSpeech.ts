@@ -0,0 +1,125 @@
+/**
+ * Speech-to-text for browsers without the Web Speech API (Firefox, many tablets): the
+ * microphone is recorded with MediaRecorder and transcribed in the page by a small Whisper
+ * model (transformers.js on WebAssembly, see lib/localModels.ts). The model downloads on first
+ * use and the browser caches it, so later sessions work offline.
+ */
+
+import { loadPipeline } from './localModels';
+
+// ---------- Configuration ----------
+const WHISPER_MODEL = 'Xenova/whisper-tiny'; // multilingual, about 40 MB quantized
+const SAMPLE_RATE = 16_000; // what Whisper expects
+const MAX_RECORDING_MS = 15_000;
+const SILENCE_AFTER_SPEECH_MS = 1_500; // a pause this long after speaking ends the recording
+const SPEECH_LEVEL = 0.08; // meter level (0–1) that counts as talking
+
+export const canRecordSpeech = typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+// ---------- Types ----------
+export type Recording = {
+  /** Stops recording and returns 16 kHz mono samples, or null if nothing was captured. */
+  stop: () => Promise<Float32Array | null>;
+  /** Stops recording and throws the audio away. */
+  cancel: () => void;
+};
+
+type RecordingOptions = {
+  audioContext: AudioContext;
+  onLevel: (level: number) => void; // 0–1, every animation frame
+  onAutoStop: () => void; // the child stopped talking, or the time ran out
+};
+
+type Transcriber = (audio: Float32Array, options: Record<string, unknown>) => Promise<{ text: string } | { text: string }[]>;
+
+// ---------- Recording ----------
+export async function startRecording({ audioContext, onLevel, onAutoStop }: RecordingOptions): Promise<Recording> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size) chunks.push(e.data);
+  };
+
+  // level meter, which also ends the recording once the child has spoken and gone quiet
+  const source = audioContext.createMediaStreamSource(stream);
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 1024;
+  source.connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+  const startedAt = Date.now();
+  let heardSpeech = false;
+  let quietSince = 0;
+  let frame = 0;
+  let autoStopped = false;
+  const measure = () => {
+    analyser.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (const s of samples) sum += s * s;
+    const level = Math.min(1, Math.sqrt(sum / samples.length) * 5);
+    onLevel(level);
+    const now = Date.now();
+    if (level >= SPEECH_LEVEL) {
+      heardSpeech = true;
+      quietSince = 0;
+    } else if (heardSpeech && !quietSince) quietSince = now;
+    if (!autoStopped && ((quietSince && now - quietSince > SILENCE_AFTER_SPEECH_MS) || now - startedAt > MAX_RECORDING_MS)) {
+      autoStopped = true;
+      onAutoStop();
+    }
+    frame = requestAnimationFrame(measure);
+  };
+  frame = requestAnimationFrame(measure);
+
+  const release = () => {
+    cancelAnimationFrame(frame);
+    source.disconnect();
+    stream.getTracks().forEach((track) => track.stop());
+    onLevel(0);
+  };
+  const stopped = new Promise<void>((resolve) => (recorder.onstop = () => resolve()));
+  recorder.start();
+
+  return {
+    async stop() {
+      if (recorder.state !== 'inactive') recorder.stop();
+      await stopped;
+      release();
+      if (!chunks.length) return null;
+      return toWhisperAudio(new Blob(chunks, { type: recorder.mimeType }), audioContext);
+    },
+    cancel() {
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      release();
+    },
+  };
+}
+
+/** Decodes a recording and resamples it to 16 kHz mono. */
+async function toWhisperAudio(blob: Blob, audioContext: AudioContext): Promise<Float32Array | null> {
+  const decoded = await audioContext.decodeAudioData(await blob.arrayBuffer());
+  if (!decoded.length) return null;
+  const offline = new OfflineAudioContext(1, Math.ceil(decoded.duration * SAMPLE_RATE), SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  return (await offline.startRendering()).getChannelData(0);
+}
+
+// ---------- Transcription ----------
+const loadTranscriber = (onProgress?: (percent: number) => void) =>
+  loadPipeline<Transcriber>('automatic-speech-recognition', WHISPER_MODEL, { dtype: 'q8', device: 'wasm' }, onProgress);
+
+/**
+ * Transcribes 16 kHz mono audio; `language` is a two-letter code. The first call loads the
+ * model, reporting download progress (0–100) through `onProgress`.
+ */
+export async function transcribe(audio: Float32Array, language: string, onProgress?: (percent: number) => void): Promise<string> {
+  const run = await loadTranscriber(onProgress);
+  const result = await run(audio, { language, task: 'transcribe' });
+  const text = Array.isArray(result) ? result.map((r) => r.text).join(' ') : result.text;
+  // Whisper marks silence and noise with tags like [BLANK_AUDIO] or (music)
+  return text.replace(/\[[^\]]*\]|\([^)]*\)/g, ' ').replace(/\s+/g, ' ').trim();
+}
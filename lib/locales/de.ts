@@ -0,0 +1,357 @@
+/**
+ * German UI strings.
+ */
+
+import type { Messages } from './en';
+
+export const de: Messages = {
+  // app shell
+  'app.title': 'KI-Spielzeugfreund',
+  'app.tagline': 'Lade ein Foto deines Spielzeugs hoch und erwecke es zum Leben!',
+  'app.startOver': 'Neu anfangen',
+  'app.parents': 'Eltern',
+  'app.language': 'Sprache',
+
+  // upload view
+  'upload.heading': 'Lass uns dein Spielzeug kennenlernen!',
+  'upload.prompt': 'Lade ein Foto hoch, um loszulegen.',
+  'upload.aria': 'Foto des Spielzeugs hochladen',
+  'upload.button': 'Spielzeug hochladen!',
+  'upload.camera': 'Foto machen',
+  'upload.model': 'Optional: 3D-Modell hochladen (glTF, OBJ, FBX, STL, PLY oder ZIP)',
+  'upload.modelReady': '3D-Modell bereit: {name}',
+  'camera.title': 'Mach ein Foto von deinem Spielzeug',
+  'camera.starting': 'Kamera startet...',
+  'camera.hint': 'Bring dein Spielzeug ins Quadrat.',
+  'camera.capture': 'Klick!',
+  'camera.switch': 'Kamera wechseln',
+  'camera.cropHint': 'Zieh über das Foto, um den Teil auszuwählen, der bleiben soll.',
+  'camera.rotateLeft': 'Nach links drehen',
+  'camera.rotateRight': 'Nach rechts drehen',
+  'camera.wholePhoto': 'Ganzes Foto',
+  'camera.retake': 'Nochmal',
+  'camera.use': 'Dieses Foto nehmen',
+
+  // toy panel and conversation
+  'toy.defaultName': 'Mein Spielzeug',
+  'toy.nameAria': 'Name deines Spielzeugs',
+  'toy.imageAlt': 'Das Spielzeug des Kindes',
+  'toy.describing': 'Ich lerne dein Spielzeug kennen...',
+  'toy.defaultDescription': 'Ein freundliches Spielzeug! (Es gab keine genauere Beschreibung.)',
+  'toy.loadingModel': '3D-Modell wird geladen...',
+  'toy.makingStandIn': 'Dein Spielzeug wird 3D... {percent}%',
+  'model.inspect': 'Über dieses Modell',
+  'model.format': 'Format',
+  'model.fromPhoto': 'Aus dem Foto gemacht',
+  'model.triangles': 'Dreiecke',
+  'model.meshes': 'Meshes',
+  'model.materials': 'Materialien',
+  'model.textures': 'Texturen',
+  'model.clips': 'Animationen',
+  'model.missing': 'Fehlende Dateien',
+  'model.none': 'keine',
+  'model.error.noModel': 'Unter diesen Dateien ist kein 3D-Modell.',
+  'model.error.missingFile': 'Einige Dateien, die dieses Modell braucht, fehlen:',
+  'model.error.corrupt': 'Dieses 3D-Modell ließ sich nicht öffnen. Die Datei ist vielleicht beschädigt oder in einer Version, die wir nicht lesen können.',
+  'model.error.hint': 'Wähle das Modell zusammen mit seinen anderen Dateien noch einmal aus (oder als eine .zip).',
+  'chat.welcome': 'Was machen wir als Nächstes? Probier mal „fang einen Ball“ oder „erzähl eine Geschichte“!',
+  'chat.thinking': 'Ich denke nach...',
+  'chat.drawing': 'Ich male ein Bild...',
+  'chat.imageAlt': 'Gemalte Aktion des Spielzeugs',
+  'chat.followUps': 'Probier als Nächstes',
+  'emotion.happy': 'Fröhlich',
+  'emotion.excited': 'Aufgeregt',
+  'emotion.silly': 'Albern',
+  'emotion.curious': 'Neugierig',
+  'emotion.calm': 'Ruhig',
+  'emotion.surprised': 'Überrascht',
+  'emotion.sad': 'Traurig',
+  'emotion.sleepy': 'Müde',
+  'command.placeholder': 'Schreib einen Befehl oder nutze das Mikrofon...',
+  'command.aria': 'Befehl eingeben',
+  'command.mic': 'Sprachbefehl verwenden',
+  'command.send': 'Befehl senden',
+  'voice.preview': 'Hallo! Ich bin {name}. Gefällt dir meine Stimme?',
+  'speech.replay': 'Noch mal',
+  'speech.pause': 'Pause',
+  'speech.resume': 'Weiter',
+  'speech.stop': 'Stopp',
+
+  // storybook
+  'story.start': 'Geschichtenzeit',
+  'story.startHint': 'Schreib zuerst, wovon die Geschichte handeln soll, oder lass es leer für eine Überraschung.',
+  'story.title': '{name}s Geschichte',
+  'story.page': 'Seite {page} von {total}',
+  'story.writing': 'Die nächste Seite wird geschrieben...',
+  'story.drawing': 'Das Bild wird gemalt...',
+  'story.imageAlt': 'Bild zur Geschichte',
+  'story.choose': 'Wie soll es weitergehen?',
+  'story.chose': 'Du hast gewählt: {choice}',
+  'story.prev': 'Zurück',
+  'story.next': 'Umblättern',
+  'story.readAgain': 'Noch mal vorlesen',
+  'story.theEnd': 'Ende',
+  'story.newStory': 'Neue Geschichte',
+  'story.close': 'Zurück zum Spielen',
+
+  // Minispiele
+  'game.start': 'Ein Spiel spielen',
+  'game.pick': 'Such dir ein Spiel aus',
+  'game.ispy': 'Ich sehe was',
+  'game.twenty': '20 Fragen',
+  'game.simon': 'Simon sagt',
+  'game.quiz': 'Zählen und Buchstabieren',
+  'game.ispyNeedsSheet': '„Ich sehe was“ geht los, sobald sich das Spielzeug genau angeschaut hat.',
+  'game.ispyEnglishOnly': '„Ich sehe was“ gibt es bisher nur auf Englisch.',
+  'game.best': 'Rekord: {score}',
+  'game.round': 'Runde {round} von {rounds}',
+  'game.score': 'Punkte: {score}',
+  'game.guessesLeft': 'Noch {count} Versuche',
+  'game.questionsLeft': 'Noch {count} Fragen',
+  'game.tellMe': 'Sag es mir!',
+  'game.simon.did': 'Hab ich gemacht!',
+  'game.simon.stayed': 'Ich bin stehen geblieben',
+  'game.simon.says': 'Simon sagt: {action}!',
+  'game.simon.plain': '{action}!',
+  'game.quiz.count': 'Zähl die Bilder: {thing}! Wie viele sind es?',
+  'game.quiz.spell': 'Kannst du {word} buchstabieren?',
+  'game.quiz.spellHint': 'Tipp die Buchstaben oder sag sie einzeln.',
+  'game.ispy.prompt': 'Ich sehe was, was du nicht siehst, an mir! Was ist es?',
+  'game.twenty.prompt': 'Ich denke an etwas. Stell mir Ja-oder-Nein-Fragen und rate, was es ist!',
+  'game.correct': 'Ja, genau richtig! Super!',
+  'game.wrong': 'Ups, diesmal nicht!',
+  'game.wrongAnswer': 'Gut versucht! Es war {answer}.',
+  'game.reveal': 'Es war {answer}!',
+  'game.question': 'Hmm, gute Frage! Rate weiter!',
+  'game.unclear': 'Hast du es gemacht, oder bist du stehen geblieben?',
+  'game.over': 'Spiel vorbei! Du hast {score} von {max} geschafft.',
+  'game.playAgain': 'Nochmal spielen',
+  'game.stop': 'Spiel beenden',
+  'game.aria': 'Spiel',
+
+  // Lektionen
+  'lesson.start': 'Lernzeit',
+  'lesson.pick': 'Such dir eine Lektion aus',
+  'lesson.whoIsLearning': 'Wer lernt?',
+  'lesson.learnerDefault': 'Kind {number}',
+  'lesson.ages': '{min} bis {max} Jahre',
+  'lesson.learned': '{count} von {total} gelernt',
+  'lesson.due': '{count} zum Üben',
+  'lesson.noPacks': 'In dieser Sprache gibt es noch keine Lektionen. Eltern können in den Elterneinstellungen eine laden.',
+  'lesson.question': 'Frage {number} von {total}',
+  'lesson.right': 'Richtig: {count}',
+  'lesson.starting': 'Lass uns zusammen etwas lernen! Hier kommt eine Frage aus {title}.',
+  'lesson.correct': 'Richtig! Super gemacht!',
+  'lesson.tryAgain': 'Fast. Versuch es noch einmal!',
+  'lesson.tryAgainHint': 'Fast. Ein Tipp: {hint}',
+  'lesson.reveal': 'Die Antwort ist {answer}.',
+  'lesson.over': 'Die Lektion ist vorbei! Du hattest {right} von {asked} gleich beim ersten Mal richtig.',
+  'lesson.again': 'Noch eine Lektion',
+  'lesson.stop': 'Lektion beenden',
+  'lesson.aria': 'Lektion',
+  'lesson.dashboard': 'Lektionen und Fortschritt',
+  'lesson.learnerName': 'Name',
+  'lesson.removeLearner': 'Dieses Kind entfernen',
+  'lesson.removeLearnerConfirm': '{name} und den ganzen Fortschritt entfernen?',
+  'lesson.questions': '{count} Fragen',
+  'lesson.removePack': 'Entfernen',
+  'lesson.summary': '{mastered} von {total} gelernt, {learning} noch in Arbeit, {due} zum Üben fällig.',
+  'lesson.accuracy': '{percent} % gleich beim ersten Mal richtig.',
+  'lesson.hardest': 'Am häufigsten falsch:',
+  'lesson.recent': 'Letzte Lektionen',
+  'lesson.noLessons': 'Noch keine Lektionen.',
+  'lesson.result': '{right} von {asked} beim ersten Mal richtig',
+  'lesson.newLearner': 'Name eines weiteren Kindes',
+  'lesson.addLearner': 'Kind hinzufügen',
+  'lesson.loadPack': 'Lektion laden',
+  'lesson.packLoaded': '„{title}“ geladen.',
+  'lesson.packNotJson': 'Diese Datei ist keine Lektion (kein JSON).',
+  'lesson.packTooLarge': 'Diese Lektion ist zu groß.',
+  'lesson.packUnsupported': 'Diese App kann die Lektion nicht verwenden ({field}).',
+  'lesson.packInvalid': 'In der Lektion muss etwas korrigiert werden: {field}.',
+  'lesson.packHint': 'Lektionen sind JSON-Dateien; das Format steht in der README.',
+
+  // keepsake export
+  'keepsake.heading': 'Andenken',
+  'keepsake.download': 'Andenken speichern',
+  'keepsake.print': 'Drucken oder als PDF speichern',
+  'keepsake.saveImage': 'Bild speichern',
+  'keepsake.title': 'Andenken an {name}',
+  'keepsake.savedOn': 'Gespeichert am {date}',
+  'keepsake.conversation': 'Was wir zusammen gemacht haben',
+
+  // gallery
+  'gallery.open': 'Galerie ({count})',
+  'gallery.title': 'Bilder von {name}',
+  'gallery.empty': 'Noch keine Bilder. Bitte {name}, etwas zu machen!',
+  'gallery.noFavourites': 'Noch keine Favoriten. Tippe auf den Stern bei einem Lieblingsbild.',
+  'gallery.favouritesOnly': 'Nur Favoriten',
+  'gallery.favourite': 'Zu Favoriten hinzufügen',
+  'gallery.unfavourite': 'Aus Favoriten entfernen',
+  'gallery.rerun': 'Noch mal',
+  'gallery.delete': 'Löschen',
+  'gallery.confirmDelete': 'Ja, löschen',
+  'gallery.keep': 'Behalten',
+  'gallery.view': '{command} ansehen',
+  'gallery.close': 'Schließen',
+  'gallery.prev': 'Vorheriges Bild',
+  'gallery.next': 'Nächstes Bild',
+  'gallery.saveFailed': 'Die Galerie konnte nicht aktualisiert werden.',
+
+  // playdates
+  'playdate.title': 'Spielfreunde',
+  'playdate.invite': 'Einen Freund einladen',
+  'playdate.pickTitle': 'Wer kommt zum Spielen?',
+  'playdate.inviteToy': '{name} einladen',
+  'playdate.noSavedToys': 'Noch keine anderen gespeicherten Spielzeuge. Lade ein Foto eines neuen Freundes hoch!',
+  'playdate.uploadFriend': 'Foto eines neuen Freundes hochladen',
+  'playdate.remove': '{name} nach Hause schicken',
+  'playdate.joining': 'Der neue Freund wird begrüßt...',
+  'playdate.friendName': 'Freund {number}',
+  'playdate.hint': 'Sprich mit allen oder fang mit einem Namen an: „{name}, spring!“',
+
+  // freihändig
+  'handsFree.start': 'Freihändig',
+  'handsFree.stop': 'Freihändig beenden',
+  'handsFree.wakeWord': 'Nur wenn ich „{name}“ höre',
+  'handsFree.listening': 'Ich höre zu, sprich einfach mit mir!',
+  'handsFree.sayName': 'Sag „{name}“, um mit mir zu sprechen',
+  'handsFree.awake': '{name} hört zu!',
+  'handsFree.timedOut': 'Freihändig ist nach einer stillen Weile eingeschlafen. Tippe darauf, um neu zu starten.',
+
+  // Mikrofon ohne Spracherkennung des Browsers
+  'localMic.recording': 'Ich höre zu... tippe aufs Mikrofon, wenn du fertig bist.',
+  'localMic.level': 'Mikrofonpegel',
+  'localMic.loadingModel': 'Ich spitze meine Ohren... {percent} %',
+  'localMic.transcribing': 'Ich überlege, was du gesagt hast...',
+
+  // live voice
+  'live.start': 'Live sprechen',
+  'live.stop': 'Live-Sprechen beenden',
+  'live.connecting': 'Meine Stimme wacht auf...',
+  'live.hint': 'Live sprechen: Ich höre dich und antworte mit meiner echten Stimme.',
+  'live.listening': 'Ich höre zu, sprich einfach mit mir!',
+  'live.speaking': '{name} spricht...',
+  'live.childSpoke': '(laut gesagt)',
+
+  // errors
+  'failure.rateLimited': 'Hui, wir haben ganz schön viel geredet! Machen wir eine kleine Pause und versuchen es gleich noch mal.',
+  'failure.quota': 'Das tägliche Anfragelimit des KI-Modells ist erreicht. Bitte versuch es morgen wieder.',
+  'failure.safety': 'Hmm, das kann ich nicht machen. Lass uns etwas anderes Lustiges probieren, zum Beispiel „tanz“ oder „sag hallo“!',
+  'failure.network': 'Ich erreiche meine Denkwolke nicht. Prüfe die Internetverbindung und versuch es noch mal.',
+  'failure.server': 'Meine Denkwolke macht gerade ein Nickerchen. Versuch es gleich noch einmal.',
+  'failure.rejected': 'Das habe ich nicht verstanden. Probier einen einfacheren Befehl wie „tanz“ oder „sag hallo“.',
+  'failure.unknown': 'Etwas ist schiefgelaufen. Bitte versuch es noch einmal.',
+  'error.notImage': 'Bitte lade eine Bilddatei hoch.',
+  'error.notModel': 'Bitte lade ein 3D-Modell hoch: .glb, .gltf, .obj, .fbx, .stl, .ply oder eine .zip mit dem Modell und seinen Dateien.',
+  'error.describe': 'Das Spielzeug konnte nicht beschrieben werden. Bitte versuch es noch einmal.',
+  'error.readImage': 'Das Bild konnte nicht gelesen oder die API nicht erreicht werden.',
+  'error.openToy': 'Dieses Spielzeug konnte nicht geöffnet werden. Bitte versuch es noch einmal.',
+  'error.reply': 'Beim Erstellen der Antwort ist etwas schiefgelaufen. Bitte versuch es noch einmal.',
+  'error.noReply': 'Mir ist keine Antwort und kein Bild eingefallen. Probier einen einfacheren Befehl wie „tanz“ oder „sag hallo“.',
+  'error.noRecognition': 'Spracherkennung wird in deinem Browser nicht unterstützt.',
+  'error.recognition': 'Fehler bei der Spracherkennung: {error}',
+  'error.startRecognition': 'Die Spracherkennung konnte nicht gestartet werden.',
+  'error.story': 'Ich habe den Faden verloren. Bitte versuch es noch einmal.',
+  'error.inviteFriend': 'Dieses Spielzeug konnte nicht eingeladen werden. Bitte versuch es noch einmal.',
+  'error.micPermission': 'Das Mikrofon konnte nicht benutzt werden. Bitte erlaube den Mikrofonzugriff und versuche es noch einmal.',
+  'error.cameraPermission': 'Die Kamera konnte nicht benutzt werden. Bitte erlaube den Kamerazugriff und versuche es noch einmal.',
+  'error.noCamera': 'Es wurde keine Kamera gefunden. Du kannst stattdessen ein Foto hochladen.',
+  'error.camera': 'Die Kamera konnte nicht starten. Du kannst stattdessen ein Foto hochladen.',
+  'error.localRecognition': 'Ich konnte die Aufnahme nicht verstehen. Versuch es noch einmal oder tippe deinen Befehl.',
+  'error.live': 'Meine Live-Stimme funktioniert gerade nicht. Nimm das Mikrofon oder tippe deinen Befehl.',
+  'error.liveUnsupported': 'Live sprechen funktioniert in diesem Browser nicht.',
+  'error.liveEnded': 'Das Live-Sprechen wurde beendet. Tippe darauf, um neu zu starten.',
+
+  // safety and limits
+  'safety.blockedCommand': 'Hmm, das lassen wir lieber. Wie wäre es mit einem Tanz oder einem lustigen Lied?',
+  'safety.filteredReply': 'Ups, lass uns über etwas anderes reden! Möchtest du eine Geschichte hören?',
+  'limit.minutes': 'Ich werde müde! Für heute ist die Spielzeit vorbei. Morgen spielen wir wieder!',
+  'limit.commands': 'Puh, wir haben heute so viel gemacht! Jetzt ruhen wir uns aus und spielen morgen weiter.',
+
+  // toy library
+  'library.heading': 'Spielzeuge, die du kennst',
+  'library.aria': 'Gespeicherte Spielzeuge',
+  'library.play': 'Mit {name} spielen',
+  'library.newName': 'Neuer Name',
+  'library.save': 'Speichern',
+  'library.rename': 'Umbenennen',
+  'library.delete': 'Löschen',
+  'library.confirmDelete': 'Ja, löschen',
+  'library.keep': 'Behalten',
+  'library.renameFailed': 'Das Spielzeug konnte nicht umbenannt werden.',
+  'library.deleteFailed': 'Das Spielzeug konnte nicht gelöscht werden.',
+
+  // personality & voice
+  'profile.title': 'Persönlichkeit & Stimme',
+  'profile.character': 'Charakter',
+  'profile.speakingStyle': 'Sprechweise',
+  'profile.favourites': 'Lieblingsdinge',
+  'profile.favouritesPlaceholder': 'Honig, Pfützen, Raketen',
+  'profile.ageLevel': 'Altersstufe',
+  'profile.voice': 'Stimme',
+  'profile.automatic': 'Automatisch',
+  'profile.pitch': 'Tonhöhe',
+  'profile.speed': 'Tempo',
+  'profile.volume': 'Lautstärke',
+  'profile.preview': 'Stimme anhören',
+  'profile.noVoice': 'Auf diesem Gerät gibt es keine deutsche Stimme, daher wird die Standardstimme des Browsers verwendet.',
+  'profile.pictures': 'Bilder',
+  'profile.artStyle': 'Bildstil',
+  'profile.sheet': 'Bilder halten sich an: {details}',
+  'trait.playful': 'verspielt',
+  'trait.curious': 'neugierig',
+  'trait.brave': 'mutig',
+  'trait.shy': 'schüchtern',
+  'trait.silly': 'albern',
+  'trait.gentle': 'sanft',
+  'trait.sleepy': 'verschlafen',
+  'trait.bouncy': 'hüpfig',
+  'style.giggly and bubbly': 'kichernd und sprudelnd',
+  'style.calm and cosy': 'ruhig und gemütlich',
+  'style.rhyming and sing-song': 'reimend und singend',
+  'style.dramatic like a storyteller': 'dramatisch wie ein Geschichtenerzähler',
+  'style.squeaky and excited': 'quietschig und aufgeregt',
+  'artStyle.cartoon': 'Cartoon',
+  'artStyle.watercolour': 'Aquarell',
+  'artStyle.claymation': 'Knetfiguren',
+  'artStyle.pixel-art': 'Pixelkunst',
+  'age.toddler': 'Kleinkind (2-3)',
+  'age.preschool': 'Kindergarten (4-5)',
+  'age.early-reader': 'Erstleser (6-8)',
+
+  // parent panel
+  'parent.title': 'Einstellungen für Eltern',
+  'parent.close': 'Schließen',
+  'parent.createPin': 'Eltern-PIN festlegen',
+  'parent.newPin': 'Neue PIN wählen',
+  'parent.parentsOnly': 'Nur für Eltern',
+  'parent.pinPlaceholder': 'PIN (4-8 Ziffern)',
+  'parent.pinAria': 'PIN',
+  'parent.repeatPin': 'PIN wiederholen',
+  'parent.setPin': 'PIN speichern',
+  'parent.unlock': 'Entsperren',
+  'parent.pinInvalid': 'Bitte 4 bis 8 Ziffern verwenden.',
+  'parent.pinMismatch': 'Die PINs stimmen nicht überein.',
+  'parent.pinWrong': 'Falsche PIN.',
+  'parent.filters': 'Wortfilter',
+  'parent.filtersHint': 'Ein Wort oder Ausdruck pro Zeile, mit Listen für jede Sprache, in der das Spielzeug sprechen kann. Erlaubte Ausdrücke haben Vorrang vor gesperrten Wörtern ("Messer und Gabel" statt "Messer").',
+  'parent.filtersLanguage': 'Listen für',
+  'parent.blocked': 'Gesperrt',
+  'parent.allowed': 'Erlaubt',
+  'parent.limits': 'Tageslimits',
+  'parent.usageToday': 'Heute: {minutes} Min. gespielt, {commands} Befehle. 0 bedeutet kein Limit.',
+  'parent.minutesPerDay': 'Minuten pro Tag',
+  'parent.commandsPerDay': 'Befehle pro Tag',
+  'parent.log': 'Sicherheitsprotokoll',
+  'parent.logEmpty': 'Bisher wurde nichts blockiert.',
+  'parent.clearLog': 'Protokoll leeren',
+  'parent.matched': 'Treffer: "{word}"',
+  'parent.changePin': 'PIN ändern',
+  'parent.cancel': 'Abbrechen',
+  'parent.save': 'Speichern',
+  'event.command_blocked': 'Befehl blockiert',
+  'event.reply_filtered': 'Antwort gefiltert',
+  'event.model_declined': 'Von der KI-Sicherheit abgelehnt',
+  'event.limit_reached': 'Tageslimit erreicht',
+};
@@ -0,0 +1,360 @@
+/**
+ * English UI strings. This is the reference locale: its keys define `MessageKey`,
+ * and every other locale must provide all of them. `{name}`-style placeholders are
+ * filled in by the translator (see lib/i18n.ts).
+ */
+
+export const en = {
+  // app shell
+  'app.title': 'AI Toy Companion',
+  'app.tagline': 'Upload a picture of your toy and bring it to life!',
+  'app.startOver': 'Start Over',
+  'app.parents': 'Parents',
+  'app.language': 'Language',
+
+  // upload view
+  'upload.heading': "Let's meet your toy!",
+  'upload.prompt': 'Upload a photo to get started.',
+  'upload.aria': 'Upload toy photo',
+  'upload.button': 'Upload Your Toy!',
+  'upload.camera': 'Take a Photo',
+  'upload.model': 'Optional: Upload 3D Model (glTF, OBJ, FBX, STL, PLY or zip)',
+  'upload.modelReady': '3D model ready: {name}',
+  'camera.title': 'Take a photo of your toy',
+  'camera.starting': 'Starting the camera...',
+  'camera.hint': 'Fit your toy inside the square.',
+  'camera.capture': 'Snap!',
+  'camera.switch': 'Switch camera',
+  'camera.cropHint': 'Drag over the photo to choose the part to keep.',
+  'camera.rotateLeft': 'Turn left',
+  'camera.rotateRight': 'Turn right',
+  'camera.wholePhoto': 'Whole photo',
+  'camera.retake': 'Retake',
+  'camera.use': 'Use this photo',
+
+  // toy panel and conversation
+  'toy.defaultName': 'My Toy',
+  'toy.nameAria': "Your toy's name",
+  'toy.imageAlt': "User's toy",
+  'toy.describing': 'Getting to know your toy...',
+  'toy.defaultDescription': 'A friendly toy! (Could not get a detailed description.)',
+  'toy.loadingModel': 'Loading 3D model...',
+  'toy.makingStandIn': 'Making your toy 3D... {percent}%',
+  'model.inspect': 'About this model',
+  'model.format': 'Format',
+  'model.fromPhoto': 'Made from the photo',
+  'model.triangles': 'Triangles',
+  'model.meshes': 'Meshes',
+  'model.materials': 'Materials',
+  'model.textures': 'Textures',
+  'model.clips': 'Animations',
+  'model.missing': 'Missing files',
+  'model.none': 'none',
+  'model.error.noModel': 'There is no 3D model among these files.',
+  'model.error.missingFile': 'Some files this model needs are missing:',
+  'model.error.corrupt': "This 3D model could not be opened. The file may be damaged or in a version we can't read.",
+  'model.error.hint': 'Pick the model again together with its other files (or as one .zip).',
+  'chat.welcome': "What should we do next? Try 'catch a ball' or 'tell a story'!",
+  'chat.thinking': 'Thinking...',
+  'chat.drawing': 'Drawing a picture...',
+  'chat.imageAlt': 'Generated action by toy',
+  'chat.followUps': 'Try next',
+  'emotion.happy': 'Happy',
+  'emotion.excited': 'Excited',
+  'emotion.silly': 'Silly',
+  'emotion.curious': 'Curious',
+  'emotion.calm': 'Calm',
+  'emotion.surprised': 'Surprised',
+  'emotion.sad': 'Sad',
+  'emotion.sleepy': 'Sleepy',
+  'command.placeholder': 'Type a command or use the mic...',
+  'command.aria': 'Type a command',
+  'command.mic': 'Use voice command',
+  'command.send': 'Send command',
+  'voice.preview': "Hi! I'm {name}. Do you like my voice?",
+  'speech.replay': 'Say it again',
+  'speech.pause': 'Pause',
+  'speech.resume': 'Go on',
+  'speech.stop': 'Stop',
+
+  // storybook
+  'story.start': 'Story time',
+  'story.startHint': 'Type what the story should be about first, or leave it empty for a surprise.',
+  'story.title': "{name}'s story",
+  'story.page': 'Page {page} of {total}',
+  'story.writing': 'Writing the next page...',
+  'story.drawing': 'Drawing the picture...',
+  'story.imageAlt': 'Story picture',
+  'story.choose': 'What should happen next?',
+  'story.chose': 'You chose: {choice}',
+  'story.prev': 'Back',
+  'story.next': 'Turn the page',
+  'story.readAgain': 'Read it again',
+  'story.theEnd': 'The End',
+  'story.newStory': 'New story',
+  'story.close': 'Back to playing',
+
+  // mini-games
+  'game.start': 'Play a game',
+  'game.pick': 'Pick a game',
+  'game.ispy': 'I spy',
+  'game.twenty': '20 questions',
+  'game.simon': 'Simon says',
+  'game.quiz': 'Count and spell',
+  'game.ispyNeedsSheet': 'I spy starts once the toy has had a good look at itself.',
+  'game.ispyEnglishOnly': 'I spy only works in English for now.',
+  'game.best': 'Best: {score}',
+  'game.round': 'Round {round} of {rounds}',
+  'game.score': 'Score: {score}',
+  'game.guessesLeft': 'Guesses left: {count}',
+  'game.questionsLeft': 'Questions left: {count}',
+  'game.tellMe': 'Tell me!',
+  'game.simon.did': 'I did it!',
+  'game.simon.stayed': 'I stayed still',
+  'game.simon.says': 'Simon says: {action}!',
+  'game.simon.plain': '{action}!',
+  'game.quiz.count': 'Count the {thing} pictures! How many are there?',
+  'game.quiz.spell': 'Can you spell {word}?',
+  'game.quiz.spellHint': 'Type the letters, or say them one by one.',
+  'game.ispy.prompt': 'I spy with my little eye something on me! What is it?',
+  'game.twenty.prompt': "I'm thinking of something. Ask me yes-or-no questions and guess what it is!",
+  'game.correct': "Yes, that's right! Well done!",
+  'game.wrong': 'Oops, not this time!',
+  'game.wrongAnswer': 'Good try! It was {answer}.',
+  'game.reveal': 'It was {answer}!',
+  'game.question': 'Hmm, good question! Keep guessing!',
+  'game.unclear': 'Did you do it, or did you stay still?',
+  'game.over': 'Game over! You got {score} out of {max}.',
+  'game.playAgain': 'Play again',
+  'game.stop': 'Stop the game',
+  'game.aria': 'Game',
+
+  // lessons
+  'lesson.start': 'Lesson time',
+  'lesson.pick': 'Pick a lesson',
+  'lesson.whoIsLearning': 'Who is learning?',
+  'lesson.learnerDefault': 'Child {number}',
+  'lesson.ages': 'Ages {min}-{max}',
+  'lesson.learned': '{count} of {total} learned',
+  'lesson.due': '{count} to practise',
+  'lesson.noPacks': 'There are no lesson packs in this language yet. Parents can load one in the parent settings.',
+  'lesson.question': 'Question {number} of {total}',
+  'lesson.right': 'Right: {count}',
+  'lesson.starting': "Let's learn something together! Here comes a question from {title}.",
+  'lesson.correct': "That's right! Well done!",
+  'lesson.tryAgain': 'Not quite. Have another go!',
+  'lesson.tryAgainHint': 'Not quite. Here is a hint: {hint}',
+  'lesson.reveal': 'The answer is {answer}.',
+  'lesson.over': "That's the end of the lesson! You got {right} of {asked} right first time.",
+  'lesson.again': 'Another lesson',
+  'lesson.stop': 'Stop the lesson',
+  'lesson.aria': 'Lesson',
+  'lesson.dashboard': 'Lessons and progress',
+  'lesson.learnerName': 'Name',
+  'lesson.removeLearner': 'Remove this child',
+  'lesson.removeLearnerConfirm': "Remove {name} and all of their progress?",
+  'lesson.questions': '{count} questions',
+  'lesson.removePack': 'Remove',
+  'lesson.summary': '{mastered} of {total} learned, {learning} still learning, {due} due for practice.',
+  'lesson.accuracy': '{percent}% right first time.',
+  'lesson.hardest': 'Missed most:',
+  'lesson.recent': 'Recent lessons',
+  'lesson.noLessons': 'No lessons yet.',
+  'lesson.result': '{right} of {asked} right first time',
+  'lesson.newLearner': "Another child's name",
+  'lesson.addLearner': 'Add child',
+  'lesson.loadPack': 'Load a lesson pack',
+  'lesson.packLoaded': 'Loaded "{title}".',
+  'lesson.packNotJson': "That file isn't a lesson pack (it isn't JSON).",
+  'lesson.packTooLarge': 'That lesson pack is too large.',
+  'lesson.packUnsupported': 'This app cannot use that lesson pack ({field}).',
+  'lesson.packInvalid': 'Something in the lesson pack needs fixing: {field}.',
+  'lesson.packHint': 'Lesson packs are JSON files; the README describes the format.',
+
+  // keepsake export
+  'keepsake.heading': 'Keepsake',
+  'keepsake.download': 'Save keepsake',
+  'keepsake.print': 'Print or save as PDF',
+  'keepsake.saveImage': 'Save picture',
+  'keepsake.title': "{name}'s keepsake",
+  'keepsake.savedOn': 'Saved on {date}',
+  'keepsake.conversation': 'What we did together',
+
+  // gallery
+  'gallery.open': 'Gallery ({count})',
+  'gallery.title': "{name}'s pictures",
+  'gallery.empty': 'No pictures yet. Ask {name} to do something!',
+  'gallery.noFavourites': 'No favourites yet. Tap the star on a picture you love.',
+  'gallery.favouritesOnly': 'Favourites only',
+  'gallery.favourite': 'Add to favourites',
+  'gallery.unfavourite': 'Remove from favourites',
+  'gallery.rerun': 'Do it again',
+  'gallery.delete': 'Delete',
+  'gallery.confirmDelete': 'Yes, delete',
+  'gallery.keep': 'Keep',
+  'gallery.view': 'Show {command}',
+  'gallery.close': 'Close',
+  'gallery.prev': 'Previous picture',
+  'gallery.next': 'Next picture',
+  'gallery.saveFailed': 'Could not update the gallery.',
+
+  // playdates
+  'playdate.title': 'Playdate friends',
+  'playdate.invite': 'Invite a friend',
+  'playdate.pickTitle': "Who's coming to play?",
+  'playdate.inviteToy': 'Invite {name}',
+  'playdate.noSavedToys': 'No other saved toys yet. Upload a photo of a new friend!',
+  'playdate.uploadFriend': "Upload a new friend's photo",
+  'playdate.remove': 'Send {name} home',
+  'playdate.joining': 'Saying hello to the new friend...',
+  'playdate.friendName': 'Friend {number}',
+  'playdate.hint': 'Talk to everyone, or start with a name: "{name}, jump!"',
+
+  // hands-free
+  'handsFree.start': 'Hands-free',
+  'handsFree.stop': 'Stop hands-free',
+  'handsFree.wakeWord': 'Only when I hear "{name}"',
+  'handsFree.listening': "I'm listening, just talk to me!",
+  'handsFree.sayName': 'Say "{name}" to talk to me',
+  'handsFree.awake': '{name} is listening!',
+  'handsFree.timedOut': 'Hands-free went to sleep after a quiet while. Tap it to start again.',
+
+  // microphone fallback
+  'localMic.recording': "I'm listening... tap the mic when you're done.",
+  'localMic.level': 'Microphone level',
+  'localMic.loadingModel': 'Getting my ears ready... {percent}%',
+  'localMic.transcribing': 'Working out what you said...',
+
+  // live voice
+  'live.start': 'Talk live',
+  'live.stop': 'Stop talking live',
+  'live.connecting': 'Waking up my voice...',
+  'live.hint': 'Talk live: I hear you and answer with my real voice.',
+  'live.listening': "I'm listening, just talk to me!",
+  'live.speaking': '{name} is talking...',
+  'live.childSpoke': '(said out loud)',
+
+  // errors
+  'failure.rateLimited': "Whoa, that's a lot of chatting! Let's take a tiny break and try again in a moment.",
+  'failure.quota': 'Looks like the daily request limit for the AI model has been reached. Please try again tomorrow.',
+  'failure.safety': "Hmm, I can't do that one. Let's try something else fun, like 'dance' or 'say hi'!",
+  'failure.network': "I can't reach my thinking cloud. Check the internet connection and try again.",
+  'failure.server': 'My thinking cloud is taking a nap. Please try again in a little bit.',
+  'failure.rejected': "I didn't understand that. Try a simpler command like 'dance' or 'say hi'.",
+  'failure.unknown': 'Something went wrong. Please try again.',
+  'error.notImage': 'Please upload an image file.',
+  'error.notModel': 'Please upload a 3D model: .glb, .gltf, .obj, .fbx, .stl, .ply, or a .zip with the model and its files.',
+  'error.describe': 'Could not describe the toy. Please try again.',
+  'error.readImage': 'Failed to read the image or call the API.',
+  'error.openToy': 'Could not open this toy. Please try again.',
+  'error.reply': 'Something went wrong while generating the reply. Please try again.',
+  'error.noReply': "I couldn't produce a reply or image. Try a simpler command like 'dance' or 'say hi'.",
+  'error.noRecognition': 'Voice recognition is not supported in your browser.',
+  'error.recognition': 'Voice recognition error: {error}',
+  'error.startRecognition': 'Could not start voice recognition.',
+  'error.story': 'I lost my place in the story. Please try again.',
+  'error.inviteFriend': 'Could not invite this toy. Please try again.',
+  'error.micPermission': 'Could not use the microphone. Please allow microphone access and try again.',
+  'error.cameraPermission': 'Could not use the camera. Please allow camera access and try again.',
+  'error.noCamera': 'No camera was found. You can upload a photo instead.',
+  'error.camera': 'The camera could not start. You can upload a photo instead.',
+  'error.localRecognition': "I couldn't make out the recording. Please try again or type your command.",
+  'error.live': "My live voice isn't working right now. Try the mic or type your command.",
+  'error.liveUnsupported': "Live talking doesn't work in this browser.",
+  'error.liveEnded': 'Live talking stopped. Tap it to start again.',
+
+  // safety and limits
+  'safety.blockedCommand': "Hmm, let's not do that one. How about a dance or a silly song instead?",
+  'safety.filteredReply': "Oops, let's talk about something else! Want to hear a story?",
+  'limit.minutes': "I'm getting sleepy! That's all our playtime for today. Let's play again tomorrow!",
+  'limit.commands': "Phew, we did so many things today! Let's rest now and play again tomorrow.",
+
+  // toy library
+  'library.heading': "Toys you've met",
+  'library.aria': 'Saved toys',
+  'library.play': 'Play with {name}',
+  'library.newName': 'New name',
+  'library.save': 'Save',
+  'library.rename': 'Rename',
+  'library.delete': 'Delete',
+  'library.confirmDelete': 'Yes, delete',
+  'library.keep': 'Keep',
+  'library.renameFailed': 'Could not rename the toy.',
+  'library.deleteFailed': 'Could not delete the toy.',
+
+  // personality & voice
+  'profile.title': 'Personality & voice',
+  'profile.character': 'Character',
+  'profile.speakingStyle': 'Speaking style',
+  'profile.favourites': 'Favourite things',
+  'profile.favouritesPlaceholder': 'honey, puddles, rockets',
+  'profile.ageLevel': 'Age level',
+  'profile.voice': 'Voice',
+  'profile.automatic': 'Automatic',
+  'profile.pitch': 'Pitch',
+  'profile.speed': 'Speed',
+  'profile.volume': 'Volume',
+  'profile.preview': 'Preview voice',
+  'profile.noVoice': "There's no English voice on this device, so the browser's default voice will be used.",
+  'profile.pictures': 'Pictures',
+  'profile.artStyle': 'Picture style',
+  'profile.sheet': 'Pictures stay true to: {details}',
+  'trait.playful': 'playful',
+  'trait.curious': 'curious',
+  'trait.brave': 'brave',
+  'trait.shy': 'shy',
+  'trait.silly': 'silly',
+  'trait.gentle': 'gentle',
+  'trait.sleepy': 'sleepy',
+  'trait.bouncy': 'bouncy',
+  'style.giggly and bubbly': 'giggly and bubbly',
+  'style.calm and cosy': 'calm and cosy',
+  'style.rhyming and sing-song': 'rhyming and sing-song',
+  'style.dramatic like a storyteller': 'dramatic like a storyteller',
+  'style.squeaky and excited': 'squeaky and excited',
+  'artStyle.cartoon': 'Cartoon',
+  'artStyle.watercolour': 'Watercolour',
+  'artStyle.claymation': 'Claymation',
+  'artStyle.pixel-art': 'Pixel art',
+  'age.toddler': 'Toddler (2-3)',
+  'age.preschool': 'Preschool (4-5)',
+  'age.early-reader': 'Early reader (6-8)',
+
+  // parent panel
+  'parent.title': 'Parent settings',
+  'parent.close': 'Close',
+  'parent.createPin': 'Create a parent PIN',
+  'parent.newPin': 'Choose a new PIN',
+  'parent.parentsOnly': 'Parents only',
+  'parent.pinPlaceholder': 'PIN (4-8 digits)',
+  'parent.pinAria': 'PIN',
+  'parent.repeatPin': 'Repeat PIN',
+  'parent.setPin': 'Set PIN',
+  'parent.unlock': 'Unlock',
+  'parent.pinInvalid': 'Use 4 to 8 digits.',
+  'parent.pinMismatch': "The PINs don't match.",
+  'parent.pinWrong': 'Wrong PIN.',
+  'parent.filters': 'Word filters',
+  'parent.filtersHint': 'One word or phrase per line, with lists for each language the toy can talk in. Allowed phrases win over blocked words ("water gun" vs "gun").',
+  'parent.filtersLanguage': 'Lists for',
+  'parent.blocked': 'Blocked',
+  'parent.allowed': 'Allowed',
+  'parent.limits': 'Daily limits',
+  'parent.usageToday': 'Today: {minutes} min played, {commands} commands. 0 means no limit.',
+  'parent.minutesPerDay': 'Minutes per day',
+  'parent.commandsPerDay': 'Commands per day',
+  'parent.log': 'Safety log',
+  'parent.logEmpty': 'Nothing has been blocked so far.',
+  'parent.clearLog': 'Clear log',
+  'parent.matched': 'matched "{word}"',
+  'parent.changePin': 'Change PIN',
+  'parent.cancel': 'Cancel',
+  'parent.save': 'Save',
+  'event.command_blocked': 'Command blocked',
+  'event.reply_filtered': 'Reply filtered',
+  'event.model_declined': 'Declined by AI safety',
+  'event.limit_reached': 'Daily limit reached',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
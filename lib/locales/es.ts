@@ -0,0 +1,357 @@
+/**
+ * Spanish UI strings.
+ */
+
+import type { Messages } from './en';
+
+export const es: Messages = {
+  // app shell
+  'app.title': 'Juguete Amigo con IA',
+  'app.tagline': '¡Sube una foto de tu juguete y dale vida!',
+  'app.startOver': 'Empezar de nuevo',
+  'app.parents': 'Padres',
+  'app.language': 'Idioma',
+
+  // upload view
+  'upload.heading': '¡Vamos a conocer a tu juguete!',
+  'upload.prompt': 'Sube una foto para empezar.',
+  'upload.aria': 'Subir foto del juguete',
+  'upload.button': '¡Sube tu juguete!',
+  'upload.camera': 'Hacer una foto',
+  'upload.model': 'Opcional: subir modelo 3D (glTF, OBJ, FBX, STL, PLY o zip)',
+  'upload.modelReady': 'Modelo 3D listo: {name}',
+  'camera.title': 'Haz una foto de tu juguete',
+  'camera.starting': 'Encendiendo la cámara...',
+  'camera.hint': 'Pon tu juguete dentro del cuadrado.',
+  'camera.capture': '¡Foto!',
+  'camera.switch': 'Cambiar de cámara',
+  'camera.cropHint': 'Arrastra sobre la foto para elegir la parte que quieres guardar.',
+  'camera.rotateLeft': 'Girar a la izquierda',
+  'camera.rotateRight': 'Girar a la derecha',
+  'camera.wholePhoto': 'Foto entera',
+  'camera.retake': 'Repetir',
+  'camera.use': 'Usar esta foto',
+
+  // toy panel and conversation
+  'toy.defaultName': 'Mi Juguete',
+  'toy.nameAria': 'Nombre de tu juguete',
+  'toy.imageAlt': 'El juguete del niño',
+  'toy.describing': 'Conociendo a tu juguete...',
+  'toy.defaultDescription': '¡Un juguete muy simpático! (No se pudo obtener una descripción detallada.)',
+  'toy.loadingModel': 'Cargando modelo 3D...',
+  'toy.makingStandIn': 'Convirtiendo tu juguete en 3D... {percent}%',
+  'model.inspect': 'Sobre este modelo',
+  'model.format': 'Formato',
+  'model.fromPhoto': 'Hecho a partir de la foto',
+  'model.triangles': 'Triángulos',
+  'model.meshes': 'Mallas',
+  'model.materials': 'Materiales',
+  'model.textures': 'Texturas',
+  'model.clips': 'Animaciones',
+  'model.missing': 'Archivos que faltan',
+  'model.none': 'ninguno',
+  'model.error.noModel': 'No hay ningún modelo 3D entre estos archivos.',
+  'model.error.missingFile': 'Faltan algunos archivos que necesita este modelo:',
+  'model.error.corrupt': 'No se pudo abrir este modelo 3D. Puede que el archivo esté dañado o en una versión que no sabemos leer.',
+  'model.error.hint': 'Vuelve a elegir el modelo junto con sus otros archivos (o en un solo .zip).',
+  'chat.welcome': '¿Qué hacemos ahora? ¡Prueba «atrapa una pelota» o «cuenta un cuento»!',
+  'chat.thinking': 'Pensando...',
+  'chat.drawing': 'Haciendo un dibujo...',
+  'chat.imageAlt': 'Acción dibujada del juguete',
+  'chat.followUps': 'Prueba ahora',
+  'emotion.happy': 'Contento',
+  'emotion.excited': 'Emocionado',
+  'emotion.silly': 'Bromista',
+  'emotion.curious': 'Curioso',
+  'emotion.calm': 'Tranquilo',
+  'emotion.surprised': 'Sorprendido',
+  'emotion.sad': 'Triste',
+  'emotion.sleepy': 'Con sueño',
+  'command.placeholder': 'Escribe una orden o usa el micrófono...',
+  'command.aria': 'Escribe una orden',
+  'command.mic': 'Usar orden de voz',
+  'command.send': 'Enviar orden',
+  'voice.preview': '¡Hola! Soy {name}. ¿Te gusta mi voz?',
+  'speech.replay': 'Repetir',
+  'speech.pause': 'Pausa',
+  'speech.resume': 'Seguir',
+  'speech.stop': 'Parar',
+
+  // storybook
+  'story.start': 'Hora del cuento',
+  'story.startHint': 'Escribe primero de qué quieres que trate el cuento, o déjalo vacío para una sorpresa.',
+  'story.title': 'El cuento de {name}',
+  'story.page': 'Página {page} de {total}',
+  'story.writing': 'Escribiendo la siguiente página...',
+  'story.drawing': 'Haciendo el dibujo...',
+  'story.imageAlt': 'Dibujo del cuento',
+  'story.choose': '¿Qué pasa ahora?',
+  'story.chose': 'Elegiste: {choice}',
+  'story.prev': 'Atrás',
+  'story.next': 'Pasar página',
+  'story.readAgain': 'Leer otra vez',
+  'story.theEnd': 'Fin',
+  'story.newStory': 'Otro cuento',
+  'story.close': 'Volver a jugar',
+
+  // minijuegos
+  'game.start': 'Jugar a un juego',
+  'game.pick': 'Elige un juego',
+  'game.ispy': 'Veo, veo',
+  'game.twenty': '20 preguntas',
+  'game.simon': 'Simón dice',
+  'game.quiz': 'Contar y deletrear',
+  'game.ispyNeedsSheet': 'Veo, veo empieza cuando el juguete se haya mirado bien.',
+  'game.ispyEnglishOnly': 'Veo, veo de momento solo funciona en inglés.',
+  'game.best': 'Récord: {score}',
+  'game.round': 'Ronda {round} de {rounds}',
+  'game.score': 'Puntos: {score}',
+  'game.guessesLeft': 'Intentos: {count}',
+  'game.questionsLeft': 'Preguntas: {count}',
+  'game.tellMe': '¡Dímelo!',
+  'game.simon.did': '¡Lo hice!',
+  'game.simon.stayed': 'Me quedé quieto',
+  'game.simon.says': 'Simón dice: ¡{action}!',
+  'game.simon.plain': '¡{action}!',
+  'game.quiz.count': '¡Cuenta los dibujos de {thing}! ¿Cuántos hay?',
+  'game.quiz.spell': '¿Sabes deletrear {word}?',
+  'game.quiz.spellHint': 'Escribe las letras o dilas una a una.',
+  'game.ispy.prompt': 'Veo, veo... ¡algo que llevo yo! ¿Qué es?',
+  'game.twenty.prompt': 'Estoy pensando en algo. ¡Hazme preguntas de sí o no y adivina qué es!',
+  'game.correct': '¡Sí, muy bien!',
+  'game.wrong': '¡Uy, esta vez no!',
+  'game.wrongAnswer': '¡Buen intento! Era {answer}.',
+  'game.reveal': '¡Era {answer}!',
+  'game.question': 'Mmm, ¡buena pregunta! ¡Sigue adivinando!',
+  'game.unclear': '¿Lo hiciste o te quedaste quieto?',
+  'game.over': '¡Fin del juego! Has conseguido {score} de {max}.',
+  'game.playAgain': 'Jugar otra vez',
+  'game.stop': 'Terminar el juego',
+  'game.aria': 'Juego',
+
+  // lecciones
+  'lesson.start': 'Hora de aprender',
+  'lesson.pick': 'Elige una lección',
+  'lesson.whoIsLearning': '¿Quién aprende?',
+  'lesson.learnerDefault': 'Niño {number}',
+  'lesson.ages': 'De {min} a {max} años',
+  'lesson.learned': '{count} de {total} aprendidas',
+  'lesson.due': '{count} para repasar',
+  'lesson.noPacks': 'Todavía no hay lecciones en este idioma. Los padres pueden cargar una en los ajustes para padres.',
+  'lesson.question': 'Pregunta {number} de {total}',
+  'lesson.right': 'Aciertos: {count}',
+  'lesson.starting': '¡Vamos a aprender juntos! Aquí va una pregunta de {title}.',
+  'lesson.correct': '¡Correcto! ¡Muy bien!',
+  'lesson.tryAgain': 'Casi. ¡Inténtalo otra vez!',
+  'lesson.tryAgainHint': 'Casi. Una pista: {hint}',
+  'lesson.reveal': 'La respuesta es {answer}.',
+  'lesson.over': '¡Se acabó la lección! Has acertado {right} de {asked} a la primera.',
+  'lesson.again': 'Otra lección',
+  'lesson.stop': 'Terminar la lección',
+  'lesson.aria': 'Lección',
+  'lesson.dashboard': 'Lecciones y progreso',
+  'lesson.learnerName': 'Nombre',
+  'lesson.removeLearner': 'Quitar a este niño',
+  'lesson.removeLearnerConfirm': '¿Quitar a {name} y todo su progreso?',
+  'lesson.questions': '{count} preguntas',
+  'lesson.removePack': 'Quitar',
+  'lesson.summary': '{mastered} de {total} aprendidas, {learning} en aprendizaje, {due} para repasar.',
+  'lesson.accuracy': '{percent}% acertadas a la primera.',
+  'lesson.hardest': 'Las más falladas:',
+  'lesson.recent': 'Últimas lecciones',
+  'lesson.noLessons': 'Todavía no hay lecciones.',
+  'lesson.result': '{right} de {asked} a la primera',
+  'lesson.newLearner': 'Nombre de otro niño',
+  'lesson.addLearner': 'Añadir niño',
+  'lesson.loadPack': 'Cargar una lección',
+  'lesson.packLoaded': 'Se ha cargado «{title}».',
+  'lesson.packNotJson': 'Ese archivo no es una lección (no es JSON).',
+  'lesson.packTooLarge': 'Esa lección es demasiado grande.',
+  'lesson.packUnsupported': 'Esta aplicación no puede usar esa lección ({field}).',
+  'lesson.packInvalid': 'Hay algo que corregir en la lección: {field}.',
+  'lesson.packHint': 'Las lecciones son archivos JSON; el README describe el formato.',
+
+  // keepsake export
+  'keepsake.heading': 'Recuerdo',
+  'keepsake.download': 'Guardar recuerdo',
+  'keepsake.print': 'Imprimir o guardar como PDF',
+  'keepsake.saveImage': 'Guardar dibujo',
+  'keepsake.title': 'Recuerdo de {name}',
+  'keepsake.savedOn': 'Guardado el {date}',
+  'keepsake.conversation': 'Lo que hicimos juntos',
+
+  // gallery
+  'gallery.open': 'Galería ({count})',
+  'gallery.title': 'Los dibujos de {name}',
+  'gallery.empty': 'Todavía no hay dibujos. ¡Pídele a {name} que haga algo!',
+  'gallery.noFavourites': 'Aún no hay favoritos. Toca la estrella de un dibujo que te encante.',
+  'gallery.favouritesOnly': 'Solo favoritos',
+  'gallery.favourite': 'Añadir a favoritos',
+  'gallery.unfavourite': 'Quitar de favoritos',
+  'gallery.rerun': 'Otra vez',
+  'gallery.delete': 'Borrar',
+  'gallery.confirmDelete': 'Sí, borrar',
+  'gallery.keep': 'Conservar',
+  'gallery.view': 'Ver {command}',
+  'gallery.close': 'Cerrar',
+  'gallery.prev': 'Dibujo anterior',
+  'gallery.next': 'Dibujo siguiente',
+  'gallery.saveFailed': 'No se pudo actualizar la galería.',
+
+  // playdates
+  'playdate.title': 'Amigos de juego',
+  'playdate.invite': 'Invitar a un amigo',
+  'playdate.pickTitle': '¿Quién viene a jugar?',
+  'playdate.inviteToy': 'Invitar a {name}',
+  'playdate.noSavedToys': 'Todavía no hay otros juguetes guardados. ¡Sube una foto de un amigo nuevo!',
+  'playdate.uploadFriend': 'Subir la foto de un amigo nuevo',
+  'playdate.remove': 'Mandar a {name} a casa',
+  'playdate.joining': 'Saludando al nuevo amigo...',
+  'playdate.friendName': 'Amigo {number}',
+  'playdate.hint': 'Habla con todos o empieza con un nombre: «{name}, ¡salta!»',
+
+  // manos libres
+  'handsFree.start': 'Manos libres',
+  'handsFree.stop': 'Parar manos libres',
+  'handsFree.wakeWord': 'Solo cuando oiga «{name}»',
+  'handsFree.listening': 'Te escucho, ¡habla conmigo!',
+  'handsFree.sayName': 'Di «{name}» para hablar conmigo',
+  'handsFree.awake': '¡{name} te escucha!',
+  'handsFree.timedOut': 'Manos libres se durmió tras un rato en silencio. Tócalo para empezar otra vez.',
+
+  // micrófono sin reconocimiento del navegador
+  'localMic.recording': 'Te escucho... toca el micrófono cuando termines.',
+  'localMic.level': 'Nivel del micrófono',
+  'localMic.loadingModel': 'Preparando mis orejas... {percent}%',
+  'localMic.transcribing': 'Entendiendo lo que dijiste...',
+
+  // live voice
+  'live.start': 'Hablar en directo',
+  'live.stop': 'Dejar de hablar en directo',
+  'live.connecting': 'Despertando mi voz...',
+  'live.hint': 'Habla en directo: te oigo y te contesto con mi voz de verdad.',
+  'live.listening': '¡Te escucho, háblame!',
+  'live.speaking': '{name} está hablando...',
+  'live.childSpoke': '(dicho en voz alta)',
+
+  // errors
+  'failure.rateLimited': '¡Uy, cuánto hemos hablado! Descansemos un momentito y volvemos a intentarlo.',
+  'failure.quota': 'Se ha alcanzado el límite diario de peticiones del modelo de IA. Inténtalo de nuevo mañana.',
+  'failure.safety': 'Mmm, eso no lo puedo hacer. ¡Probemos otra cosa divertida, como «baila» o «di hola»!',
+  'failure.network': 'No puedo llegar a mi nube de pensar. Revisa la conexión a internet y vuelve a intentarlo.',
+  'failure.server': 'Mi nube de pensar está echando la siesta. Inténtalo de nuevo en un ratito.',
+  'failure.rejected': 'No lo he entendido. Prueba una orden más sencilla, como «baila» o «di hola».',
+  'failure.unknown': 'Algo ha salido mal. Inténtalo de nuevo.',
+  'error.notImage': 'Sube un archivo de imagen, por favor.',
+  'error.notModel': 'Sube un modelo 3D, por favor: .glb, .gltf, .obj, .fbx, .stl, .ply o un .zip con el modelo y sus archivos.',
+  'error.describe': 'No se pudo describir el juguete. Inténtalo de nuevo.',
+  'error.readImage': 'No se pudo leer la imagen ni llamar a la API.',
+  'error.openToy': 'No se pudo abrir este juguete. Inténtalo de nuevo.',
+  'error.reply': 'Algo salió mal al generar la respuesta. Inténtalo de nuevo.',
+  'error.noReply': 'No pude responder ni dibujar nada. Prueba una orden más sencilla, como «baila» o «di hola».',
+  'error.noRecognition': 'Tu navegador no admite el reconocimiento de voz.',
+  'error.recognition': 'Error de reconocimiento de voz: {error}',
+  'error.startRecognition': 'No se pudo iniciar el reconocimiento de voz.',
+  'error.story': 'Me he perdido en el cuento. Inténtalo de nuevo.',
+  'error.inviteFriend': 'No se pudo invitar a este juguete. Inténtalo de nuevo.',
+  'error.micPermission': 'No se pudo usar el micrófono. Permite el acceso al micrófono e inténtalo de nuevo.',
+  'error.cameraPermission': 'No se pudo usar la cámara. Permite el acceso a la cámara e inténtalo de nuevo.',
+  'error.noCamera': 'No se encontró ninguna cámara. Puedes subir una foto.',
+  'error.camera': 'No se pudo encender la cámara. Puedes subir una foto.',
+  'error.localRecognition': 'No entendí la grabación. Inténtalo de nuevo o escribe tu orden.',
+  'error.live': 'Mi voz en directo no funciona ahora. Usa el micrófono o escribe tu orden.',
+  'error.liveUnsupported': 'Hablar en directo no funciona en este navegador.',
+  'error.liveEnded': 'Se paró la conversación en directo. Tócalo para empezar otra vez.',
+
+  // safety and limits
+  'safety.blockedCommand': 'Mmm, mejor no hagamos eso. ¿Qué tal un baile o una canción divertida?',
+  'safety.filteredReply': '¡Uy, hablemos de otra cosa! ¿Quieres que te cuente un cuento?',
+  'limit.minutes': '¡Me está entrando sueño! Se acabó el tiempo de juego por hoy. ¡Mañana jugamos otra vez!',
+  'limit.commands': '¡Uf, hoy hemos hecho un montón de cosas! Descansemos y mañana jugamos otra vez.',
+
+  // toy library
+  'library.heading': 'Juguetes que ya conoces',
+  'library.aria': 'Juguetes guardados',
+  'library.play': 'Jugar con {name}',
+  'library.newName': 'Nuevo nombre',
+  'library.save': 'Guardar',
+  'library.rename': 'Renombrar',
+  'library.delete': 'Borrar',
+  'library.confirmDelete': 'Sí, borrar',
+  'library.keep': 'Conservar',
+  'library.renameFailed': 'No se pudo renombrar el juguete.',
+  'library.deleteFailed': 'No se pudo borrar el juguete.',
+
+  // personality & voice
+  'profile.title': 'Personalidad y voz',
+  'profile.character': 'Carácter',
+  'profile.speakingStyle': 'Forma de hablar',
+  'profile.favourites': 'Cosas favoritas',
+  'profile.favouritesPlaceholder': 'miel, charcos, cohetes',
+  'profile.ageLevel': 'Edad',
+  'profile.voice': 'Voz',
+  'profile.automatic': 'Automática',
+  'profile.pitch': 'Tono',
+  'profile.speed': 'Velocidad',
+  'profile.volume': 'Volumen',
+  'profile.preview': 'Probar voz',
+  'profile.noVoice': 'No hay ninguna voz en español en este dispositivo, así que se usará la voz predeterminada del navegador.',
+  'profile.pictures': 'Dibujos',
+  'profile.artStyle': 'Estilo de los dibujos',
+  'profile.sheet': 'Los dibujos respetan: {details}',
+  'trait.playful': 'juguetón',
+  'trait.curious': 'curioso',
+  'trait.brave': 'valiente',
+  'trait.shy': 'tímido',
+  'trait.silly': 'gracioso',
+  'trait.gentle': 'tierno',
+  'trait.sleepy': 'dormilón',
+  'trait.bouncy': 'saltarín',
+  'style.giggly and bubbly': 'risueño y alegre',
+  'style.calm and cosy': 'tranquilo y acogedor',
+  'style.rhyming and sing-song': 'con rimas y cantarín',
+  'style.dramatic like a storyteller': 'teatral como un cuentacuentos',
+  'style.squeaky and excited': 'chillón y emocionado',
+  'artStyle.cartoon': 'Dibujos animados',
+  'artStyle.watercolour': 'Acuarela',
+  'artStyle.claymation': 'Plastilina',
+  'artStyle.pixel-art': 'Pixel art',
+  'age.toddler': 'Bebé (2-3)',
+  'age.preschool': 'Infantil (4-5)',
+  'age.early-reader': 'Primeros lectores (6-8)',
+
+  // parent panel
+  'parent.title': 'Ajustes para padres',
+  'parent.close': 'Cerrar',
+  'parent.createPin': 'Crea un PIN para padres',
+  'parent.newPin': 'Elige un PIN nuevo',
+  'parent.parentsOnly': 'Solo para padres',
+  'parent.pinPlaceholder': 'PIN (4-8 dígitos)',
+  'parent.pinAria': 'PIN',
+  'parent.repeatPin': 'Repite el PIN',
+  'parent.setPin': 'Guardar PIN',
+  'parent.unlock': 'Desbloquear',
+  'parent.pinInvalid': 'Usa de 4 a 8 dígitos.',
+  'parent.pinMismatch': 'Los PIN no coinciden.',
+  'parent.pinWrong': 'PIN incorrecto.',
+  'parent.filters': 'Filtros de palabras',
+  'parent.filtersHint': 'Una palabra o frase por línea, con listas para cada idioma en que puede hablar el juguete. Las frases permitidas tienen prioridad sobre las bloqueadas ("pistola de agua" frente a "pistola").',
+  'parent.filtersLanguage': 'Listas para',
+  'parent.blocked': 'Bloqueadas',
+  'parent.allowed': 'Permitidas',
+  'parent.limits': 'Límites diarios',
+  'parent.usageToday': 'Hoy: {minutes} min de juego, {commands} órdenes. 0 significa sin límite.',
+  'parent.minutesPerDay': 'Minutos al día',
+  'parent.commandsPerDay': 'Órdenes al día',
+  'parent.log': 'Registro de seguridad',
+  'parent.logEmpty': 'Todavía no se ha bloqueado nada.',
+  'parent.clearLog': 'Borrar registro',
+  'parent.matched': 'coincide con "{word}"',
+  'parent.changePin': 'Cambiar PIN',
+  'parent.cancel': 'Cancelar',
+  'parent.save': 'Guardar',
+  'event.command_blocked': 'Orden bloqueada',
+  'event.reply_filtered': 'Respuesta filtrada',
+  'event.model_declined': 'Rechazada por la seguridad de la IA',
+  'event.limit_reached': 'Límite diario alcanzado',
+};
@@ -0,0 +1,226 @@
+/**
+ * Loading the optional 3D toy model: binary or text glTF (Draco and Meshopt compressed too),
+ * OBJ with its MTL, FBX, STL and PLY. Models that come with sidecar files (buffers, textures,
+ * materials) are uploaded as several files or one zip; several files are bundled into a zip
+ * first so the toy library still keeps a single model file per toy.
+ */
+
+import * as THREE from 'three';
+import { zipSync, unzipSync } from 'three/addons/libs/fflate.module.js';
+import { MeshoptDecoder } from 'three/addons/libs/meshopt_decoder.module.js';
+import { DRACOLoader } from 'three/addons/loaders/DRACOLoader.js';
+import { FBXLoader } from 'three/addons/loaders/FBXLoader.js';
+import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
+import { MTLLoader } from 'three/addons/loaders/MTLLoader.js';
+import { OBJLoader } from 'three/addons/loaders/OBJLoader.js';
+import { PLYLoader } from 'three/addons/loaders/PLYLoader.js';
+import { STLLoader } from 'three/addons/loaders/STLLoader.js';
+import { TGALoader } from 'three/addons/loaders/TGALoader.js';
+
+// ---------- Configuration ----------
+// the decoder matching the bundled three.js, fetched (and cached by the browser) only for Draco models
+const DRACO_DECODER_URL = 'https://cdn.jsdelivr.net/npm/three@0.165.0/examples/jsm/libs/draco/gltf/';
+const DEFAULT_COLOR = 0xd9d9d9; // plain STL/PLY meshes have no material of their own
+
+/** Model formats, in the order a main file is picked from several. */
+const MODEL_FORMATS = ['glb', 'gltf', 'fbx', 'obj', 'stl', 'ply'] as const;
+export type ModelFormat = (typeof MODEL_FORMATS)[number];
+
+/** For the file picker: the model files themselves, their sidecars and zips. */
+export const MODEL_FILE_ACCEPT = '.glb,.gltf,.bin,.obj,.mtl,.fbx,.stl,.ply,.zip,.png,.jpg,.jpeg,.webp,.tga,.bmp';
+
+// ---------- Types ----------
+export type ModelErrorCode = 'unsupported' | 'no-model' | 'missing-file' | 'corrupt';
+
+export class ModelLoadError extends Error {
+  constructor(
+    message: string,
+    public code: ModelErrorCode,
+    public files: string[] = [] // the sidecar files that were missing
+  ) {
+    super(message);
+    this.name = 'ModelLoadError';
+  }
+}
+
+/** What the inspector shows about a loaded model. */
+export type ModelStats = {
+  format: ModelFormat | 'photo'; // 'photo' for the stand-in made from the toy photo (lib/photoModel.ts)
+  triangles: number;
+  meshes: number;
+  materials: string[]; // names, or the material type for unnamed ones
+  textures: number;
+  clips: string[];
+  missing: string[]; // sidecar files the model asked for but the upload did not include
+};
+
+export type LoadedModel = {
+  object: THREE.Object3D;
+  animations: THREE.AnimationClip[];
+  stats: ModelStats;
+  /** Frees the object URLs of the model's files; call once the model is thrown away. */
+  release: () => void;
+};
+
+// ---------- Files ----------
+function extension(name: string) {
+  const dot = name.lastIndexOf('.');
+  return dot < 0 ? '' : name.slice(dot + 1).toLowerCase();
+}
+
+function baseName(path: string) {
+  return path.split(/[\\/]/).pop() || path;
+}
+
+export function modelFormat(name: string): ModelFormat | null {
+  const ext = extension(name);
+  return (MODEL_FORMATS as readonly string[]).includes(ext) ? (ext as ModelFormat) : null;
+}
+
+function pickMainFile(names: string[]): string | null {
+  for (const format of MODEL_FORMATS) {
+    const name = names.find((n) => extension(n) === format);
+    if (name) return name;
+  }
+  return null;
+}
+
+/**
+ * The upload as one file: a lone model or zip as is, several files (a model with its
+ * sidecars) bundled into a zip named after the model. Throws ModelLoadError.
+ */
+export async function bundleModelFiles(files: File[]): Promise<File> {
+  if (files.length === 1 && (modelFormat(files[0].name) || extension(files[0].name) === 'zip')) return files[0];
+  const main = pickMainFile(files.map((f) => f.name));
+  if (!main) {
+    throw new ModelLoadError('No 3D model among the files.', files.length === 1 ? 'unsupported' : 'no-model');
+  }
+  const entries: Record<string, Uint8Array> = {};
+  for (const file of files) entries[file.name] = new Uint8Array(await file.arrayBuffer());
+  // level 0 stores the files as they are: models and textures are mostly compressed already
+  const zipped = zipSync(entries, { level: 0 });
+  return new File([zipped], `${main.replace(/\.[^.]+$/, '')}.zip`, { type: 'application/zip' });
+}
+
+/** The files of an upload by lower-case base name; folders inside zips are flattened. */
+async function readFiles(file: File): Promise<Map<string, Blob>> {
+  if (extension(file.name) !== 'zip') return new Map([[baseName(file.name).toLowerCase(), file]]);
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new ModelLoadError('The zip file could not be opened.', 'corrupt');
+  }
+  const files = new Map<string, Blob>();
+  for (const [path, data] of Object.entries(entries)) {
+    if (path.endsWith('/') || path.startsWith('__MACOSX/')) continue;
+    files.set(baseName(path).toLowerCase(), new Blob([data]));
+  }
+  return files;
+}
+
+// ---------- Inspection ----------
+function countTriangles(geometry: THREE.BufferGeometry) {
+  const vertices = geometry.index ? geometry.index.count : geometry.attributes.position?.count || 0;
+  return Math.floor(vertices / 3);
+}
+
+export function inspectModel(object: THREE.Object3D, animations: THREE.AnimationClip[], format: ModelStats['format'], missing: string[] = []): ModelStats {
+  let triangles = 0;
+  let meshes = 0;
+  const materials = new Map<string, string>();
+  const textures = new Set<string>();
+  object.traverse((obj) => {
+    const mesh = obj as THREE.Mesh;
+    if (!mesh.isMesh) return;
+    meshes++;
+    triangles += countTriangles(mesh.geometry);
+    const list = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    list.forEach((material: THREE.Material) => {
+      materials.set(material.uuid, material.name || material.type);
+      Object.values(material).forEach((value) => {
+        if ((value as THREE.Texture)?.isTexture) textures.add((value as THREE.Texture).uuid);
+      });
+    });
+  });
+  return {
+    format,
+    triangles,
+    meshes,
+    materials: [...materials.values()],
+    textures: textures.size,
+    clips: animations.map((clip) => clip.name || '(unnamed)'),
+    missing,
+  };
+}
+
+// ---------- Loading ----------
+/** Plain geometry (STL, PLY) as something to show: faces as a mesh, bare points as a point cloud. */
+function geometryObject(geometry: THREE.BufferGeometry, format: ModelFormat): THREE.Object3D {
+  const vertexColors = !!geometry.attributes.color;
+  // STL is always triangles; PLY files without faces are scans
+  if (format === 'ply' && !geometry.index) return new THREE.Points(geometry, new THREE.PointsMaterial({ size: 2, sizeAttenuation: false, vertexColors, color: vertexColors ? 0xffffff : DEFAULT_COLOR }));
+  if (!geometry.attributes.normal) geometry.computeVertexNormals();
+  return new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ color: vertexColors ? 0xffffff : DEFAULT_COLOR, vertexColors }));
+}
+
+/** Loads a model file (or zip of one with its sidecars). Throws ModelLoadError. */
+export async function loadModel(file: File): Promise<LoadedModel> {
+  const files = await readFiles(file);
+  const main = pickMainFile([...files.keys()]);
+  if (!main) {
+    throw new ModelLoadError('No 3D model in the upload.', extension(file.name) === 'zip' ? 'no-model' : 'unsupported');
+  }
+  const format = modelFormat(main)!;
+
+  // loaders ask for sidecars by the paths written in the model; they resolve to the uploaded files by name
+  const urls = new Map<string, string>();
+  files.forEach((blob, name) => urls.set(name, URL.createObjectURL(blob)));
+  const release = () => urls.forEach((url) => URL.revokeObjectURL(url));
+  const missing = new Set<string>();
+  const manager = new THREE.LoadingManager();
+  manager.setURLModifier((url: string) => {
+    // absolute URLs (the Draco decoder, textures on the web) are not among the uploaded files
+    if (/^(data|blob|https?):/i.test(url)) return url;
+    const name = baseName(decodeURIComponent(url.split(/[?#]/)[0])).toLowerCase();
+    const found = urls.get(name);
+    if (!found) missing.add(name);
+    return found ?? url;
+  });
+  manager.addHandler(/\.tga$/i, new TGALoader(manager));
+
+  let dracoLoader: DRACOLoader | null = null;
+  try {
+    let object: THREE.Object3D;
+    let animations: THREE.AnimationClip[] = [];
+    if (format === 'glb' || format === 'gltf') {
+      dracoLoader = new DRACOLoader(manager).setDecoderPath(DRACO_DECODER_URL);
+      const gltf = await new GLTFLoader(manager).setDRACOLoader(dracoLoader).setMeshoptDecoder(MeshoptDecoder).loadAsync(main);
+      object = gltf.scene;
+      animations = gltf.animations;
+    } else if (format === 'fbx') {
+      object = await new FBXLoader(manager).loadAsync(main);
+      animations = object.animations;
+    } else if (format === 'obj') {
+      const objLoader = new OBJLoader(manager);
+      const mtl = [...files.keys()].find((name) => extension(name) === 'mtl');
+      if (mtl) {
+        const materials = await new MTLLoader(manager).loadAsync(mtl);
+        materials.preload();
+        objLoader.setMaterials(materials);
+      }
+      object = await objLoader.loadAsync(main);
+    } else {
+      const loader = format === 'stl' ? new STLLoader(manager) : new PLYLoader(manager);
+      object = geometryObject(await loader.loadAsync(main), format);
+    }
+    if (new THREE.Box3().setFromObject(object).isEmpty()) throw new Error('The model has nothing to show.');
+    return { object, animations, stats: inspectModel(object, animations, format, [...missing]), release };
+  } catch (err) {
+    release();
+    if (missing.size) throw new ModelLoadError(`Missing model files: ${[...missing].join(', ')}`, 'missing-file', [...missing]);
+    throw new ModelLoadError(`The ${format} model could not be read: ${(err as Error)?.message || err}`, 'corrupt');
+  } finally {
+    dracoLoader?.dispose();
+  }
+}
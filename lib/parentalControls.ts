@@ -0,0 +1,147 @@
+/**
+ * Parental controls, kept in localStorage on this device.
+ * - Word filter lists, one pair per app language (see lib/safety.ts)
+ * - Daily limits on minutes of play and number of commands
+ * - PIN (salted SHA-256) guarding the parent settings panel
+ * - Log of declined or filtered interactions for parents to review
+ */
+
+import { DEFAULT_WORD_LISTS } from './safety';
+import type { WordLists } from './safety';
+import type { LocaleCode } from './i18n';
+
+// ---------- Configuration ----------
+const SETTINGS_KEY = 'toy-parent-settings';
+const USAGE_KEY = 'toy-usage';
+const LOG_KEY = 'toy-safety-log';
+const MAX_LOG_ENTRIES = 200;
+
+// ---------- Types ----------
+export type ParentSettings = {
+  wordLists: Record<LocaleCode, WordLists>;
+  dailyMinutes: number; // 0 = unlimited
+  dailyCommands: number; // 0 = unlimited
+  pinHash: string | null;
+  pinSalt: string | null;
+};
+
+export type DailyUsage = {
+  day: string; // local YYYY-MM-DD
+  activeMs: number;
+  commands: number;
+};
+
+export type SafetyEventKind = 'command_blocked' | 'reply_filtered' | 'model_declined' | 'limit_reached';
+
+export type SafetyEvent = {
+  at: number;
+  kind: SafetyEventKind;
+  toyName: string;
+  text: string;
+  matched?: string;
+};
+
+export const DEFAULT_PARENT_SETTINGS: ParentSettings = {
+  wordLists: DEFAULT_WORD_LISTS,
+  dailyMinutes: 0,
+  dailyCommands: 0,
+  pinHash: null,
+  pinSalt: null,
+};
+
+// ---------- Storage helpers ----------
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function writeJson(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.warn(`Could not save ${key}`, err);
+  }
+}
+
+// ---------- Settings ----------
+export function loadParentSettings(): ParentSettings {
+  const { blocklist, allowlist, ...saved } = readJson<Partial<ParentSettings> & Partial<WordLists>>(SETTINGS_KEY, {});
+  const settings = { ...DEFAULT_PARENT_SETTINGS, ...saved, wordLists: { ...DEFAULT_WORD_LISTS, ...saved.wordLists } };
+  // settings saved before there were lists per language held the English ones
+  if (!saved.wordLists && blocklist && allowlist) settings.wordLists = { ...settings.wordLists, en: { blocklist, allowlist } };
+  return settings;
+}
+
+/** The filter lists for the language the toy is talking in. */
+export function wordListsFor(settings: ParentSettings, locale: LocaleCode): WordLists {
+  return settings.wordLists[locale] ?? DEFAULT_WORD_LISTS[locale];
+}
+
+export function saveParentSettings(settings: ParentSettings) {
+  writeJson(SETTINGS_KEY, settings);
+}
+
+// ---------- PIN ----------
+async function sha256Hex(text: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function isValidPin(pin: string) {
+  return /^\d{4,8}$/.test(pin);
+}
+
+/** Returns settings with a freshly salted hash of `pin`. */
+export async function withPin(settings: ParentSettings, pin: string): Promise<ParentSettings> {
+  const salt = Array.from(crypto.getRandomValues(new Uint8Array(16)), (b) => b.toString(16).padStart(2, '0')).join('');
+  return { ...settings, pinSalt: salt, pinHash: await sha256Hex(`${salt}:${pin}`) };
+}
+
+export async function verifyPin(settings: ParentSettings, pin: string): Promise<boolean> {
+  if (!settings.pinHash || !settings.pinSalt) return false;
+  return (await sha256Hex(`${settings.pinSalt}:${pin}`)) === settings.pinHash;
+}
+
+// ---------- Daily usage ----------
+export function todayKey(now = new Date()) {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+export function loadUsage(): DailyUsage {
+  const usage = readJson<DailyUsage | null>(USAGE_KEY, null);
+  return usage && usage.day === todayKey() ? usage : { day: todayKey(), activeMs: 0, commands: 0 };
+}
+
+/** Applies `change` to today's usage (rolling over at midnight) and persists it. */
+export function updateUsage(change: { activeMs?: number; commands?: number }): DailyUsage {
+  const usage = loadUsage();
+  const next = { ...usage, activeMs: usage.activeMs + (change.activeMs || 0), commands: usage.commands + (change.commands || 0) };
+  writeJson(USAGE_KEY, next);
+  return next;
+}
+
+/** Which daily limit, if any, has been reached. */
+export function limitReached(settings: ParentSettings, usage: DailyUsage): 'minutes' | 'commands' | null {
+  if (settings.dailyMinutes > 0 && usage.activeMs >= settings.dailyMinutes * 60_000) return 'minutes';
+  if (settings.dailyCommands > 0 && usage.commands >= settings.dailyCommands) return 'commands';
+  return null;
+}
+
+// ---------- Safety log ----------
+export function loadSafetyLog(): SafetyEvent[] {
+  return readJson<SafetyEvent[]>(LOG_KEY, []);
+}
+
+export function logSafetyEvent(event: Omit<SafetyEvent, 'at'>) {
+  const log = [{ ...event, at: Date.now() }, ...loadSafetyLog()].slice(0, MAX_LOG_ENTRIES);
+  writeJson(LOG_KEY, log);
+}
+
+export function clearSafetyLog() {
+  writeJson(LOG_KEY, []);
+}
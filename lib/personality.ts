@@ -0,0 +1,88 @@
+/**
+ * Per-toy personality profile and voice settings.
+ * The profile is turned into a persona description that goes into every prompt;
+ * the voice settings drive speech synthesis for that toy.
+ */
+
+// ---------- Types ----------
+export type AgeLevel = 'toddler' | 'preschool' | 'early-reader';
+
+export type ToyPersonality = {
+  traits: string[];
+  speakingStyle: string;
+  favouriteThings: string[];
+  ageLevel: AgeLevel;
+};
+
+export type VoiceSettings = {
+  voiceURI: string | null; // null = pick automatically
+  pitch: number;
+  rate: number;
+  volume: number;
+};
+
+// ---------- Presets ----------
+export const TRAIT_OPTIONS = ['playful', 'curious', 'brave', 'shy', 'silly', 'gentle', 'sleepy', 'bouncy'];
+
+export const SPEAKING_STYLES = ['giggly and bubbly', 'calm and cosy', 'rhyming and sing-song', 'dramatic like a storyteller', 'squeaky and excited'];
+
+export const AGE_LEVELS: { value: AgeLevel; label: string; guidance: string }[] = [
+  { value: 'toddler', label: 'Toddler (2-3)', guidance: 'Use very short sentences and the simplest words a 2-3 year old knows.' },
+  { value: 'preschool', label: 'Preschool (4-5)', guidance: 'Use short sentences and simple words for a 4-5 year old.' },
+  { value: 'early-reader', label: 'Early reader (6-8)', guidance: 'Use simple but lively language for a 6-8 year old, with an occasional new word explained.' },
+];
+
+export const DEFAULT_PERSONALITY: ToyPersonality = {
+  traits: ['playful'],
+  speakingStyle: SPEAKING_STYLES[0],
+  favouriteThings: [],
+  ageLevel: 'preschool',
+};
+
+export const DEFAULT_VOICE: VoiceSettings = { voiceURI: null, pitch: 1.5, rate: 1.15, volume: 0.95 };
+
+// ---------- Helpers ----------
+/** Accepts older records (personality stored as a single trait string) and partial data. */
+export function normalizePersonality(value: unknown): ToyPersonality {
+  if (typeof value === 'string') return { ...DEFAULT_PERSONALITY, traits: value ? [value] : DEFAULT_PERSONALITY.traits };
+  const v = (value || {}) as Partial<ToyPersonality>;
+  return {
+    traits: Array.isArray(v.traits) && v.traits.length ? v.traits.map(String) : DEFAULT_PERSONALITY.traits,
+    speakingStyle: typeof v.speakingStyle === 'string' && v.speakingStyle ? v.speakingStyle : DEFAULT_PERSONALITY.speakingStyle,
+    favouriteThings: Array.isArray(v.favouriteThings) ? v.favouriteThings.map(String) : [],
+    ageLevel: AGE_LEVELS.some((a) => a.value === v.ageLevel) ? (v.ageLevel as AgeLevel) : DEFAULT_PERSONALITY.ageLevel,
+  };
+}
+
+export function normalizeVoice(value: unknown): VoiceSettings {
+  const v = (value || {}) as Partial<VoiceSettings>;
+  const num = (x: unknown, fallback: number, min: number, max: number) => (typeof x === 'number' && Number.isFinite(x) ? Math.min(max, Math.max(min, x)) : fallback);
+  return {
+    voiceURI: typeof v.voiceURI === 'string' ? v.voiceURI : null,
+    pitch: num(v.pitch, DEFAULT_VOICE.pitch, 0, 2),
+    rate: num(v.rate, DEFAULT_VOICE.rate, 0.5, 2),
+    volume: num(v.volume, DEFAULT_VOICE.volume, 0, 1),
+  };
+}
+
+/** Comma-separated text box value <-> list. */
+export function parseList(text: string): string[] {
+  return text
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .slice(0, 8);
+}
+
+/** Persona paragraph injected at the top of every toy prompt. */
+export function personaPrompt(name: string, p: ToyPersonality): string {
+  const age = AGE_LEVELS.find((a) => a.value === p.ageLevel) || AGE_LEVELS[1];
+  const lines = [
+    `You are ${name}, a toy who has come to life to play with a child.`,
+    `Your personality: ${p.traits.join(', ')}.`,
+    `Your way of speaking: ${p.speakingStyle}.`,
+  ];
+  if (p.favouriteThings.length) lines.push(`Your favourite things: ${p.favouriteThings.join(', ')}. Mention them now and then when it fits.`);
+  lines.push(age.guidance);
+  return lines.join('\n');
+}
@@ -0,0 +1,97 @@
+/**
+ * Getting the toy photo ready: camera snapshots are rotated and cropped, and every photo
+ * (taken or picked) is scaled down to a JPEG of a few hundred KB before it is described or
+ * saved, since it goes to the model as inline data with every request.
+ */
+
+// ---------- Configuration ----------
+const MAX_PHOTO_SIZE = 1024; // longest side, px
+const JPEG_QUALITY = 0.85;
+const SMALL_ENOUGH_BYTES = 300_000; // photos this small and within the size limit are kept as they are
+const FRAME_GUIDE = 0.8; // the framing guide's share of the shorter side
+
+export const canUseCamera = !!navigator.mediaDevices?.getUserMedia;
+
+// ---------- Types ----------
+export type Rotation = 0 | 90 | 180 | 270; // clockwise
+
+/** A region of the (rotated) photo, as fractions of its width and height. */
+export type CropRect = { x: number; y: number; width: number; height: number };
+
+export type PhotoEdit = { rotation: Rotation; crop: CropRect };
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+// ---------- Framing and editing ----------
+/** The framing guide shown over the camera: a centred square, as a crop of a `width`×`height` frame. */
+export function guideCrop(width: number, height: number): CropRect {
+  const side = FRAME_GUIDE * Math.min(width, height);
+  return { x: (1 - side / width) / 2, y: (1 - side / height) / 2, width: side / width, height: side / height };
+}
+
+/** The same region after the photo is turned a quarter clockwise. */
+export function rotateCrop({ x, y, width, height }: CropRect): CropRect {
+  return { x: 1 - y - height, y: x, width: height, height: width };
+}
+
+/** The crop spanned by two corners (fractions), kept inside the photo. */
+export function cropBetween(ax: number, ay: number, bx: number, by: number): CropRect {
+  const clamp = (v: number) => Math.min(1, Math.max(0, v));
+  const [x0, x1] = [clamp(Math.min(ax, bx)), clamp(Math.max(ax, bx))];
+  const [y0, y1] = [clamp(Math.min(ay, by)), clamp(Math.max(ay, by))];
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+/** The source rotated and cropped onto a new canvas, its longest side at most `maxSize`. */
+export function renderPhoto(source: CanvasImageSource & { width: number; height: number }, { rotation, crop }: PhotoEdit, maxSize = MAX_PHOTO_SIZE): HTMLCanvasElement {
+  const turned = rotation === 90 || rotation === 270;
+  const rotatedWidth = turned ? source.height : source.width;
+  const rotatedHeight = turned ? source.width : source.height;
+  const cropWidth = Math.max(1, crop.width * rotatedWidth);
+  const cropHeight = Math.max(1, crop.height * rotatedHeight);
+  const scale = Math.min(1, maxSize / Math.max(cropWidth, cropHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(cropWidth * scale));
+  canvas.height = Math.max(1, Math.round(cropHeight * scale));
+  const ctx = canvas.getContext('2d')!;
+  // JPEG has no transparency, so see-through pixels become white rather than black
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.scale(scale, scale);
+  ctx.translate(-crop.x * rotatedWidth, -crop.y * rotatedHeight);
+  ctx.translate(rotatedWidth / 2, rotatedHeight / 2);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+}
+
+// ---------- Compression ----------
+function toJpeg(canvas: HTMLCanvasElement): Promise<File> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(new File([blob], 'toy-photo.jpg', { type: 'image/jpeg' })) : reject(new Error('Could not encode the photo.'))),
+      'image/jpeg',
+      JPEG_QUALITY
+    )
+  );
+}
+
+/**
+ * The photo as it should be sent and saved: rotated and cropped by `edit`, at most
+ * MAX_PHOTO_SIZE px on its longest side, as a JPEG. Small photos without edits pass through.
+ */
+export async function preparePhoto(source: Blob | HTMLCanvasElement, edit: PhotoEdit = { rotation: 0, crop: FULL_CROP }): Promise<File> {
+  if (source instanceof HTMLCanvasElement) return toJpeg(renderPhoto(source, edit));
+  // browsers apply the camera's EXIF orientation when decoding
+  const bitmap = await createImageBitmap(source);
+  try {
+    const unedited = edit.rotation === 0 && edit.crop === FULL_CROP;
+    if (unedited && Math.max(bitmap.width, bitmap.height) <= MAX_PHOTO_SIZE && source.size <= SMALL_ENOUGH_BYTES) {
+      return source instanceof File ? source : new File([source], 'toy-photo', { type: source.type });
+    }
+    return await toJpeg(renderPhoto(bitmap, edit));
+  } finally {
+    bitmap.close();
+  }
+}
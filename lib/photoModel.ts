@@ -0,0 +1,227 @@
+/**
+ * A 2.5D stand-in for toys without a 3D model file, made from the photo: the background is
+ * removed in the page (a segmentation model on transformers.js, or a flood fill from the
+ * photo's edges when the model cannot load), and the cut-out is inflated into a rounded,
+ * two-sided shape the 3D stage can orbit and animate like any other model.
+ */
+
+import * as THREE from 'three';
+import { loadPipeline } from './localModels';
+import { inspectModel } from './modelLoader';
+import type { LoadedModel } from './modelLoader';
+
+// ---------- Configuration ----------
+const SEGMENTATION_MODEL = 'briaai/RMBG-1.4'; // about 45 MB quantized, cached by the browser
+const CUTOUT_SIZE = 512; // longest side of the saved cut-out, px
+const EDGE_TOLERANCE = 40; // RGB distance from the photo's edge colours that still counts as background
+const MIN_COVERAGE = 0.03; // masks smaller or larger than this share of the photo are not trusted
+const MAX_COVERAGE = 0.97;
+const GRID = 72; // mesh cells along the longest side
+const THICKNESS = 0.3; // depth at the thickest point, relative to the longest side
+
+type Remover = (image: string) => Promise<{ toCanvas: () => HTMLCanvasElement }[]>;
+
+// ---------- Cut-out ----------
+const loadRemover = (onProgress?: (percent: number) => void) =>
+  loadPipeline<Remover>('background-removal', SEGMENTATION_MODEL, { dtype: 'q8' }, onProgress);
+
+/** Alpha per pixel of a `width`×`height` image: the toy opaque, the background clear. */
+async function segmentAlpha(photo: Blob, width: number, height: number, onProgress?: (percent: number) => void): Promise<Uint8ClampedArray> {
+  const remove = await loadRemover(onProgress);
+  const url = URL.createObjectURL(photo);
+  try {
+    const [result] = await remove(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(result.toCanvas(), 0, 0, width, height);
+    const pixels = ctx.getImageData(0, 0, width, height).data;
+    const alpha = new Uint8ClampedArray(width * height);
+    for (let i = 0; i < alpha.length; i++) alpha[i] = pixels[i * 4 + 3];
+    return alpha;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** Fallback mask: everything reachable from the edges through colours close to the edge they started at. */
+function edgeFillAlpha(pixels: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray {
+  const alpha = new Uint8ClampedArray(width * height).fill(255);
+  const seed = new Int32Array(width * height).fill(-1); // the edge pixel each background pixel was reached from
+  const queue: number[] = [];
+  const visit = (i: number, from: number) => {
+    if (seed[i] >= 0) return;
+    const dr = pixels[i * 4] - pixels[from * 4];
+    const dg = pixels[i * 4 + 1] - pixels[from * 4 + 1];
+    const db = pixels[i * 4 + 2] - pixels[from * 4 + 2];
+    if (dr * dr + dg * dg + db * db > EDGE_TOLERANCE * EDGE_TOLERANCE) return;
+    seed[i] = from;
+    alpha[i] = 0;
+    queue.push(i);
+  };
+  for (let x = 0; x < width; x++) {
+    visit(x, x);
+    visit((height - 1) * width + x, (height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width, y * width);
+    visit(y * width + width - 1, y * width + width - 1);
+  }
+  for (let q = 0; q < queue.length; q++) {
+    const i = queue[q];
+    const x = i % width;
+    if (x > 0) visit(i - 1, seed[i]);
+    if (x < width - 1) visit(i + 1, seed[i]);
+    if (i >= width) visit(i - width, seed[i]);
+    if (i < width * (height - 1)) visit(i + width, seed[i]);
+  }
+  return alpha;
+}
+
+function coverage(alpha: Uint8ClampedArray) {
+  let opaque = 0;
+  for (const a of alpha) if (a > 127) opaque++;
+  return opaque / alpha.length;
+}
+
+/**
+ * The toy cut out of its photo as a PNG with a transparent background, cropped to the toy.
+ * The first call downloads the segmentation model, reporting progress (0–100) through
+ * `onProgress`; without it the edge flood fill is used, and a mask that makes no sense
+ * keeps the whole photo.
+ */
+export async function cutOutToy(photo: Blob, onProgress?: (percent: number) => void): Promise<Blob> {
+  const bitmap = await createImageBitmap(photo);
+  const scale = Math.min(1, CUTOUT_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  const image = ctx.getImageData(0, 0, width, height);
+
+  let alpha: Uint8ClampedArray;
+  try {
+    alpha = await segmentAlpha(photo, width, height, onProgress);
+  } catch (err) {
+    console.warn('Background removal model unavailable, using the edge fill instead', err);
+    alpha = edgeFillAlpha(image.data, width, height);
+  }
+  const share = coverage(alpha);
+  if (share < MIN_COVERAGE || share > MAX_COVERAGE) alpha.fill(255);
+
+  // apply the mask and crop to the toy
+  let minX = width;
+  let minY = height;
+  let maxX = 0;
+  let maxY = 0;
+  for (let i = 0; i < alpha.length; i++) {
+    image.data[i * 4 + 3] = alpha[i];
+    if (alpha[i] <= 127) continue;
+    const x = i % width;
+    const y = (i - x) / width;
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  }
+  ctx.putImageData(image, 0, 0);
+  const crop = document.createElement('canvas');
+  crop.width = maxX - minX + 1;
+  crop.height = maxY - minY + 1;
+  crop.getContext('2d')!.drawImage(canvas, -minX, -minY);
+  return new Promise((resolve, reject) => crop.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the cut-out.'))), 'image/png'));
+}
+
+// ---------- Stand-in mesh ----------
+/** City-block distance of each inside cell to the nearest outside one (outside cells are 0). */
+function distanceField(inside: boolean[], cols: number, rows: number): Float32Array {
+  const dist = new Float32Array(cols * rows);
+  const at = (c: number, r: number) => (c < 0 || r < 0 || c >= cols || r >= rows ? 0 : dist[r * cols + c]);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (inside[r * cols + c]) dist[r * cols + c] = Math.min(at(c - 1, r), at(c, r - 1)) + 1;
+    }
+  }
+  for (let r = rows - 1; r >= 0; r--) {
+    for (let c = cols - 1; c >= 0; c--) {
+      const i = r * cols + c;
+      if (inside[i]) dist[i] = Math.min(dist[i], at(c + 1, r) + 1, at(c, r + 1) + 1);
+    }
+  }
+  return dist;
+}
+
+/**
+ * The cut-out inflated into a cushion: a grid over the toy's silhouette, pushed out in front
+ * and behind by a rounded profile of the distance to the edge, so the two halves meet at the
+ * outline. Both sides show the photo; the texture's alpha trims the blocky grid edge.
+ */
+export async function loadPhotoModel(cutout: Blob): Promise<LoadedModel> {
+  const bitmap = await createImageBitmap(cutout);
+  const picture = document.createElement('canvas');
+  picture.width = bitmap.width;
+  picture.height = bitmap.height;
+  picture.getContext('2d')!.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const cols = Math.max(2, Math.round(picture.width >= picture.height ? GRID : (GRID * picture.width) / picture.height));
+  const rows = Math.max(2, Math.round(picture.height >= picture.width ? GRID : (GRID * picture.height) / picture.width));
+  const sample = document.createElement('canvas');
+  sample.width = cols;
+  sample.height = rows;
+  const sampleCtx = sample.getContext('2d')!;
+  sampleCtx.drawImage(picture, 0, 0, cols, rows);
+  const pixels = sampleCtx.getImageData(0, 0, cols, rows).data;
+  const inside = Array.from({ length: cols * rows }, (_, i) => pixels[i * 4 + 3] > 127);
+  const dist = distanceField(inside, cols, rows);
+  const maxDist = Math.max(1, ...dist);
+  const halfDepth = (THICKNESS * Math.max(cols, rows)) / 2;
+
+  // grid corners take the smallest distance around them, so corners on the outline sit at depth 0
+  const cell = (c: number, r: number) => (c < 0 || r < 0 || c >= cols || r >= rows ? 0 : dist[r * cols + c]);
+  const positions: number[] = [];
+  const uvs: number[] = [];
+  const indices: number[] = [];
+  const vertexIds = new Map<number, [number, number]>(); // corner -> [front, back] vertex
+  const vertex = (c: number, r: number) => {
+    const key = r * (cols + 1) + c;
+    let ids = vertexIds.get(key);
+    if (!ids) {
+      const d = Math.min(cell(c - 1, r - 1), cell(c, r - 1), cell(c - 1, r), cell(c, r)) / maxDist;
+      const z = halfDepth * Math.sqrt(1 - (1 - d) * (1 - d));
+      const id = positions.length / 3;
+      positions.push(c - cols / 2, rows / 2 - r, z, c - cols / 2, rows / 2 - r, -z);
+      uvs.push(c / cols, 1 - r / rows, c / cols, 1 - r / rows);
+      ids = [id, id + 1];
+      vertexIds.set(key, ids);
+    }
+    return ids;
+  };
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (!inside[r * cols + c]) continue;
+      const [a, aBack] = vertex(c, r);
+      const [b, bBack] = vertex(c + 1, r);
+      const [d, dBack] = vertex(c + 1, r + 1);
+      const [e, eBack] = vertex(c, r + 1);
+      indices.push(a, e, d, a, d, b);
+      indices.push(aBack, dBack, eBack, aBack, bBack, dBack);
+    }
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+
+  const texture = new THREE.CanvasTexture(picture);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  const material = new THREE.MeshStandardMaterial({ map: texture, alphaTest: 0.5, roughness: 0.8, name: 'photo' });
+  const mesh = new THREE.Mesh(geometry, material);
+  return { object: mesh, animations: [], stats: inspectModel(mesh, [], 'photo'), release: () => texture.dispose() };
+}
@@ -0,0 +1,72 @@
+/**
+ * Playdates: friends from the toy library join the main toy in one scene.
+ * A command goes to the toys it names (or everyone), each answers in its own
+ * bubble and voice, and the action picture shows them together.
+ */
+
+import { DEFAULT_VOICE } from './personality';
+import type { ToyPersonality, VoiceSettings } from './personality';
+import type { InlineImagePart } from './conversation';
+import type { ReferenceSheet } from './referenceSheet';
+
+// ---------- Configuration ----------
+export const MAX_FRIENDS = 3; // the server accepts up to three companions
+const EVERYONE = /(^|[^\p{L}])(everyone|everybody|all of you|both|todos|todas|ambos|alle|beide)(?![\p{L}])/iu;
+// pitch/rate per seat for toys still on the default voice, so they don't all sound the same
+const SEAT_VOICES = [
+  { pitch: DEFAULT_VOICE.pitch, rate: DEFAULT_VOICE.rate },
+  { pitch: 0.8, rate: 1.0 },
+  { pitch: 1.9, rate: 1.25 },
+  { pitch: 1.15, rate: 0.9 },
+];
+
+// ---------- Types ----------
+/** One toy taking part in a command; `id` is unset for the main toy. */
+export type SceneToy = {
+  id?: string;
+  name: string;
+  personality: ToyPersonality;
+  voice: VoiceSettings;
+  image: InlineImagePart;
+};
+
+export type Friend = {
+  id: string; // toy library id
+  name: string;
+  personality: ToyPersonality;
+  voice: VoiceSettings;
+  description: string;
+  sheet: ReferenceSheet | null; // keeps the friend recognisable in shared pictures
+  image: InlineImagePart;
+  photoUrl: string; // object URL for display, revoked when the friend leaves
+};
+
+// ---------- Helpers ----------
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The toys a command is addressed to, in the order they are named ("teddy and robot, race!").
+ * Naming nobody, or saying "everyone" / "both", addresses the whole scene.
+ */
+export function addressedToys<T extends { name: string }>(command: string, toys: T[]): T[] {
+  if (EVERYONE.test(command)) return toys;
+  const named = toys
+    .map((toy) => ({ toy, at: toy.name.trim() ? command.search(new RegExp(`(^|[^\\p{L}])${escapeRegExp(toy.name.trim())}(?![\\p{L}])`, 'iu')) : -1 }))
+    .filter((m) => m.at >= 0)
+    .sort((a, b) => a.at - b.at)
+    .map((m) => m.toy);
+  return named.length ? named : toys;
+}
+
+/**
+ * A toy's voice for its seat in the scene (0 = main toy). Toys left on the default
+ * voice get a different pitch, rate and, when the device has several, system voice.
+ */
+export function seatVoice(voice: VoiceSettings, seat: number, localeVoices: SpeechSynthesisVoice[]): VoiceSettings {
+  const isDefault = !voice.voiceURI && voice.pitch === DEFAULT_VOICE.pitch && voice.rate === DEFAULT_VOICE.rate;
+  if (!seat || !isDefault) return voice;
+  const seatVoiceURI = localeVoices.length > 1 ? localeVoices[seat % localeVoices.length].voiceURI : null;
+  return { ...voice, ...SEAT_VOICES[seat % SEAT_VOICES.length], voiceURI: seatVoiceURI };
+}
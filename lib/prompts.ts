@@ -0,0 +1,139 @@
+/**
+ * Prompt builders for toy replies and action pictures.
+ */
+
+import { personaPrompt } from './personality';
+import type { ToyPersonality } from './personality';
+import { artStyleGuidance, DEFAULT_ART_STYLE, referenceSheetPrompt } from './referenceSheet';
+import type { ArtStyle, ReferenceSheet } from './referenceSheet';
+import { EMOTIONS } from './toyReply';
+
+export type ToyPromptContext = {
+  command: string;
+  name: string;
+  personality: ToyPersonality;
+  language: string; // e.g. 'Spanish', see Locale.promptLanguage
+  friends?: string[]; // names of the other toys on a playdate
+  sheets?: Record<string, ReferenceSheet>; // reference sheets by toy name, for pictures
+  artStyle?: ArtStyle;
+};
+
+function nameList(names: string[]) {
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names.join('');
+}
+
+/** The reference sheets of the toys in a picture that have one, as prompt lines. */
+function sheetLines(names: string[], sheets: Record<string, ReferenceSheet>) {
+  const lines = names.filter((n) => sheets[n]).map((n) => referenceSheetPrompt(n, sheets[n]));
+  return lines.length ? `\n${lines.join('\n')}` : '';
+}
+
+export function buildReplyPrompt({ command, name, personality, language, friends = [] }: ToyPromptContext): string {
+  const playdate = friends.length
+    ? `\nYou are on a playdate with your friends ${nameList(friends)} (their photos follow yours). Answer only as ${name}, never for your friends.
+You can talk to them by name and react to what they just said, but keep it short so everyone gets a turn.`
+    : '';
+  return `${personaPrompt(name, personality)}
+The child's command is: "${command}".${playdate}
+Based on the command, our conversation so far and the provided image of the toy,
+generate a short text reply from the toy's perspective, in character. Remember what we talked about before.
+If the command is unsafe or impossible for a toy, politely decline and set "declined" to true.
+Always reply in ${language}, even if earlier messages used another language.
+${replyFormat(language)}`;
+}
+
+/** The JSON shape of a toy reply, see lib/toyReply.ts. */
+function replyFormat(language: string) {
+  return `Answer as JSON: {"reply": string, "emotion": one of ${EMOTIONS.map((e) => `"${e}"`).join(', ')}, "action": one English verb for what you do (e.g. "dance", "spin") or "", "declined": boolean, "followUps": string[]}.
+"followUps" are 2 or 3 short, kind commands in ${language} (a few words each) the child could give you next.`;
+}
+
+export type HostedLinePromptContext = {
+  name: string;
+  personality: ToyPersonality;
+  language: string;
+  facts: string; // what just happened and what comes next, see gameFacts in lib/games.ts and lessonFacts in lib/lessons.ts
+};
+
+/** The toy's next line in a mini-game; the game itself is run by the app. */
+export function buildGameLinePrompt({ name, personality, language, facts }: HostedLinePromptContext): string {
+  return `${personaPrompt(name, personality)}
+You are playing a game with the child. The app keeps the rules and the score; you only say your next line.
+${facts}
+Say it in one to three short sentences, in character, warm and encouraging whether the child is right or not.
+Always reply in ${language}. Leave "followUps" empty.
+${replyFormat(language)}`;
+}
+
+/** The toy's next line in a lesson; the app checks the answers and picks the questions. */
+export function buildLessonLinePrompt({ name, personality, language, facts }: HostedLinePromptContext): string {
+  return `${personaPrompt(name, personality)}
+You are a patient teacher helping the child learn. The app checks the answers and picks the questions; you only say your next line.
+${facts}
+Say it in one to three short sentences, in character, warm and encouraging; never make the child feel bad about a wrong answer.
+Always reply in ${language}. Leave "followUps" empty.
+${replyFormat(language)}`;
+}
+
+export function buildActionImagePrompt({ command, name, personality, friends = [], sheets = {}, artStyle = DEFAULT_ART_STYLE }: ToyPromptContext): string {
+  const style = artStyleGuidance(artStyle);
+  if (friends.length) {
+    return `${personaPrompt(name, personality)}
+The child's command is: "${command}".
+If appropriate and safe, generate one new image in ${style}, showing ${name} together with ${nameList(friends)}, performing the action described.
+Each toy must look like its own photo (${name} is the first photo, then ${nameList(friends)} in that order).${sheetLines([name, ...friends], sheets)}
+Only the drawing style changes: keep each toy's colours, shape and details exactly.
+If the command is unsafe or impossible for toys, do not generate an image.`;
+  }
+  return `${personaPrompt(name, personality)}
+The child's command is: "${command}".
+If appropriate and safe, generate a new image in ${style} of the toy from the photo performing the action described.${sheetLines([name], sheets)}
+Only the drawing style changes: keep the toy's colours, shape and details exactly.
+If the command is unsafe or impossible for a toy, do not generate an image.`;
+}
+
+/** System instructions for a realtime voice session, which sees no photo. */
+export function buildLiveInstructions({ name, personality, language, description }: { name: string; personality: ToyPersonality; language: string; description?: string }): string {
+  return `${personaPrompt(name, personality)}
+${description ? `This is what you look like: ${description}\n` : ''}You are talking out loud with a child in real time, like a toy that has come to life.
+Answer in one or two short spoken sentences, in character, and let the child do most of the talking.
+If the child asks for something unsafe or impossible for a toy, politely decline and suggest a game instead.
+Always speak in ${language}, even if the child uses another language.`;
+}
+
+export type StoryPagePromptContext = {
+  name: string;
+  personality: ToyPersonality;
+  language: string;
+  theme: string;
+  pageNumber: number;
+  totalPages: number;
+  storySoFar: string;
+  branch: boolean;
+};
+
+export function buildStoryPagePrompt({ name, personality, language, theme, pageNumber, totalPages, storySoFar, branch }: StoryPagePromptContext): string {
+  const last = pageNumber >= totalPages;
+  return `${personaPrompt(name, personality)}
+You are telling a gentle picture-book story starring yourself, the toy in the photo.
+${theme ? `The child asked for a story about: "${theme}".\n` : ''}This is page ${pageNumber} of ${totalPages}. Write 2 or 3 short sentences for this page only, in ${language}.
+${storySoFar ? `The story so far:\n${storySoFar}\nContinue from there, following the child's latest choice if there is one.` : 'Start the story.'}
+${
+  last
+    ? 'This is the last page: bring the story to a happy, cosy ending, leave "choices" empty and set "ending" to true.'
+    : branch
+      ? `This page ends at a branch point: stop at an exciting moment and give 2 or 3 short options (a few words each, in ${language}) for what could happen next in "choices". Set "ending" to false.`
+      : 'Leave "choices" empty and set "ending" to false.'
+}
+Keep everything kind and safe for young children.
+Answer as JSON: {"text": string, "choices": string[], "ending": boolean}.`;
+}
+
+export type StoryIllustrationPromptContext = { name: string; pageText: string; sheet?: ReferenceSheet | null; artStyle?: ArtStyle };
+
+export function buildStoryIllustrationPrompt({ name, pageText, sheet, artStyle = DEFAULT_ART_STYLE }: StoryIllustrationPromptContext): string {
+  return `Draw a picture-book illustration for this page of a story starring ${name}, the toy in the photo:
+"${pageText}"
+The toy must look exactly like the one in the photo (same shape, colours and details) and like it did in the earlier illustration, if there is one.${sheet ? `\n${referenceSheetPrompt(name, sheet)}` : ''}
+Draw it in ${artStyleGuidance(artStyle)}, soft and colourful for young children. No words or letters in the picture.`;
+}
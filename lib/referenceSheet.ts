@@ -0,0 +1,68 @@
+/**
+ * Toy reference sheet and art style for generated pictures.
+ * The sheet lists what makes the toy recognisable (read once from its photo and description)
+ * and goes into every image prompt, so pictures keep the real toy's colours and shape;
+ * the art style is the child's pick for how the pictures are drawn.
+ */
+
+// ---------- Types ----------
+export type ReferenceSheet = {
+  shape: string; // overall body shape and proportions
+  colours: string[]; // main colours, most prominent first
+  materials: string[]; // plush, plastic, wood, knitted...
+  features: string[]; // distinctive details: a patch, a bow, one floppy ear
+};
+
+export type ArtStyle = 'cartoon' | 'watercolour' | 'claymation' | 'pixel-art';
+
+// ---------- Presets ----------
+export const ART_STYLES: { value: ArtStyle; guidance: string }[] = [
+  { value: 'cartoon', guidance: 'a bright cartoon style with clean outlines' },
+  { value: 'watercolour', guidance: 'a soft watercolour painting style with gentle washes of colour' },
+  { value: 'claymation', guidance: 'a claymation style, as if sculpted from modelling clay and photographed on a little set' },
+  { value: 'pixel-art', guidance: 'a chunky pixel-art style like a retro video game' },
+];
+
+export const DEFAULT_ART_STYLE: ArtStyle = 'cartoon';
+
+const MAX_ITEMS = 6;
+
+// ---------- Helpers ----------
+function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value
+        .filter((x): x is string => typeof x === 'string' && !!x.trim())
+        .map((x) => x.trim().slice(0, 80))
+        .slice(0, MAX_ITEMS)
+    : [];
+}
+
+/** Model output or a stored record; null when nothing usable is in it. */
+export function normalizeReferenceSheet(value: unknown): ReferenceSheet | null {
+  const v = (value || {}) as Partial<ReferenceSheet>;
+  const sheet = {
+    shape: typeof v.shape === 'string' ? v.shape.trim().slice(0, 200) : '',
+    colours: stringList(v.colours),
+    materials: stringList(v.materials),
+    features: stringList(v.features),
+  };
+  return sheet.shape || sheet.colours.length || sheet.features.length ? sheet : null;
+}
+
+export function normalizeArtStyle(value: unknown): ArtStyle {
+  return ART_STYLES.some((s) => s.value === value) ? (value as ArtStyle) : DEFAULT_ART_STYLE;
+}
+
+/** Lines for an image prompt describing how `name` must look. */
+export function referenceSheetPrompt(name: string, sheet: ReferenceSheet): string {
+  const lines = [`Reference sheet for ${name} (keep every picture true to it):`];
+  if (sheet.shape) lines.push(`- shape: ${sheet.shape}`);
+  if (sheet.colours.length) lines.push(`- colours: ${sheet.colours.join(', ')}`);
+  if (sheet.materials.length) lines.push(`- materials: ${sheet.materials.join(', ')}`);
+  if (sheet.features.length) lines.push(`- distinctive features: ${sheet.features.join(', ')}`);
+  return lines.join('\n');
+}
+
+export function artStyleGuidance(style: ArtStyle): string {
+  return (ART_STYLES.find((s) => s.value === style) || ART_STYLES[0]).guidance;
+}
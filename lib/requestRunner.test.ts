@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest';
+import { classifyError, runRequest } from './requestRunner';
+import { ToyApiError } from './toyApi';
+
+const apiError = (status: number, code: string, retryAfterMs?: number) => new ToyApiError('failed', status, code, retryAfterMs);
+
+/** A task failing with `errors` in turn, then resolving to 'done'. */
+function failing(...errors: unknown[]) {
+  return vi.fn(async () => {
+    const err = errors.shift();
+    if (err) throw err;
+    return 'done';
+  });
+}
+
+describe('classifyError', () => {
+  it('reads the server error code and status', () => {
+    expect(classifyError(apiError(422, 'safety_blocked'))).toBe('safety');
+    expect(classifyError(apiError(429, 'rate_limited'))).toBe('rate_limited');
+    expect(classifyError(apiError(429, 'quota_exceeded'))).toBe('quota');
+    expect(classifyError(apiError(503, 'upstream_error'))).toBe('server');
+    expect(classifyError(apiError(502, 'upstream_rejected'))).toBe('rejected');
+    expect(classifyError(apiError(400, 'bad_request'))).toBe('rejected');
+  });
+
+  it('tells a missing response from anything else', () => {
+    expect(classifyError(new TypeError('Failed to fetch'))).toBe('network');
+    expect(classifyError(new SyntaxError('Unexpected token'))).toBe('unknown');
+  });
+});
+
+describe('runRequest', () => {
+  it('resolves to the value', async () => {
+    expect(await runRequest(async () => 42)).toEqual({ kind: 'ok', value: 42 });
+  });
+
+  it('retries server and network failures', async () => {
+    const task = failing(apiError(503, 'upstream_error'), new TypeError('Failed to fetch'));
+    const onRetry = vi.fn();
+    expect(await runRequest(task, { baseDelayMs: 1, onRetry })).toEqual({ kind: 'ok', value: 'done' });
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([info]) => info.failure)).toEqual(['server', 'network']);
+  });
+
+  it('gives up after `retries` retries', async () => {
+    const task = failing(...Array.from({ length: 5 }, () => apiError(503, 'upstream_error')));
+    const outcome = await runRequest(task, { retries: 2, baseDelayMs: 1 });
+    expect(outcome).toMatchObject({ kind: 'failed', failure: 'server' });
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry rejected, safety or unknown failures', async () => {
+    for (const err of [apiError(502, 'upstream_rejected'), apiError(422, 'safety_blocked'), new Error('boom')]) {
+      const task = failing(err);
+      expect((await runRequest(task, { baseDelayMs: 1 })).kind).toBe('failed');
+      expect(task).toHaveBeenCalledTimes(1);
+    }
+  });
+
+  it('waits out a short Retry-After and reports a long one', async () => {
+    const onRetry = vi.fn();
+    expect((await runRequest(failing(apiError(429, 'quota_exceeded', 20)), { baseDelayMs: 1, onRetry })).kind).toBe('ok');
+    expect(onRetry.mock.calls[0][0].delayMs).toBeGreaterThanOrEqual(20);
+
+    const outcome = await runRequest(failing(apiError(429, 'rate_limited', 60_000)), { baseDelayMs: 1 });
+    expect(outcome).toMatchObject({ kind: 'failed', failure: 'rate_limited', retryAfterMs: 60_000 });
+  });
+
+  it('stops retrying when canRetry says no', async () => {
+    const task = failing(apiError(503, 'upstream_error'));
+    expect(await runRequest(task, { baseDelayMs: 1, canRetry: () => false })).toMatchObject({ kind: 'failed', failure: 'server' });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('is aborted before the first try and while waiting to retry', async () => {
+    const ctrl = new AbortController();
+    ctrl.abort();
+    const task = failing();
+    expect(await runRequest(task, { signal: ctrl.signal })).toEqual({ kind: 'aborted' });
+    expect(task).not.toHaveBeenCalled();
+
+    const waiting = new AbortController();
+    const outcome = runRequest(failing(apiError(503, 'upstream_error')), { signal: waiting.signal, baseDelayMs: 10_000, onRetry: () => waiting.abort() });
+    expect(await outcome).toEqual({ kind: 'aborted' });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Shared request runner for every model call the app makes.
+ * - Classifies failures structurally (HTTP status + server error code, abort, network)
+ * - Retries only what is worth retrying, with full-jitter exponential backoff
+ * - Honours Retry-After when the server or model quota sends one
+ * - Cancellable through an AbortSignal, including while waiting to retry
+ * - Resolves to a typed outcome instead of throwing
+ */
+
+import { ToyApiError } from './toyApi';
+
+// ---------- Configuration ----------
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 800;
+const MAX_BACKOFF_MS = 8000;
+const MAX_HONOURED_RETRY_AFTER_MS = 15000; // longer waits are reported instead of silently retried
+
+// ---------- Types ----------
+export type FailureKind =
+  | 'rate_limited' // our proxy's per-client limit
+  | 'quota' // the model's quota
+  | 'safety' // the model blocked the prompt or output
+  | 'network' // no response at all
+  | 'server' // proxy or model unavailable (5xx)
+  | 'rejected' // bad request / upstream refused, retrying won't help
+  | 'unknown';
+
+export type RequestOutcome<T> =
+  | { kind: 'ok'; value: T }
+  | { kind: 'aborted' }
+  | { kind: 'failed'; failure: FailureKind; error: unknown; retryAfterMs?: number };
+
+export type RunOptions = {
+  signal?: AbortSignal;
+  retries?: number;
+  baseDelayMs?: number;
+  onRetry?: (info: { attempt: number; delayMs: number; failure: FailureKind }) => void;
+  /** Asked before each retry; false ends the request with the failure (e.g. a reply already being spoken). */
+  canRetry?: () => boolean;
+};
+
+// ---------- Classification ----------
+export function isAbortError(err: any): boolean {
+  return !!err && (err.name === 'AbortError' || err.name === 'TimeoutError');
+}
+
+export function classifyError(err: any): FailureKind {
+  if (err instanceof ToyApiError) {
+    if (err.code === 'safety_blocked') return 'safety';
+    if (err.code === 'upstream_rejected') return 'rejected'; // a 502, but the model said no (e.g. a bad key)
+    if (err.status === 429) return err.code === 'rate_limited' ? 'rate_limited' : 'quota';
+    if (err.status >= 500) return 'server';
+    if (err.status >= 400) return 'rejected';
+    return 'unknown';
+  }
+  // fetch() rejects with a TypeError when the request never got a response
+  if (err instanceof TypeError) return 'network';
+  return 'unknown';
+}
+
+function isRetryable(failure: FailureKind, retryAfterMs?: number) {
+  switch (failure) {
+    case 'network':
+    case 'server':
+      return true;
+    case 'rate_limited':
+    case 'quota':
+      return retryAfterMs !== undefined && retryAfterMs <= MAX_HONOURED_RETRY_AFTER_MS;
+    default:
+      return false;
+  }
+}
+
+function backoffDelay(attempt: number, baseDelayMs: number, retryAfterMs?: number) {
+  const jitter = Math.random() * Math.min(MAX_BACKOFF_MS, baseDelayMs * 2 ** attempt);
+  // when the server names a wait, never go below it; spread clients out a little past it
+  return retryAfterMs !== undefined ? retryAfterMs + Math.random() * baseDelayMs : jitter;
+}
+
+function abortableSleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// ---------- Runner ----------
+export async function runRequest<T>(task: (signal: AbortSignal | undefined) => Promise<T>, options: RunOptions = {}): Promise<RequestOutcome<T>> {
+  const { signal, retries = DEFAULT_RETRIES, baseDelayMs = DEFAULT_BASE_DELAY_MS, onRetry, canRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) return { kind: 'aborted' };
+    try {
+      return { kind: 'ok', value: await task(signal) };
+    } catch (err) {
+      if (signal?.aborted || isAbortError(err)) return { kind: 'aborted' };
+      const failure = classifyError(err);
+      const retryAfterMs = err instanceof ToyApiError ? err.retryAfterMs : undefined;
+      if (attempt >= retries || !isRetryable(failure, retryAfterMs) || (canRetry && !canRetry())) {
+        return { kind: 'failed', failure, error: err, retryAfterMs };
+      }
+      const delayMs = backoffDelay(attempt + 1, baseDelayMs, retryAfterMs);
+      onRetry?.({ attempt: attempt + 1, delayMs, failure });
+      try {
+        await abortableSleep(delayMs, signal);
+      } catch {
+        return { kind: 'aborted' };
+      }
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { checkText, DEFAULT_WORD_LISTS, finishedWords } from './safety';
+
+const check = (text: string, locale: keyof typeof DEFAULT_WORD_LISTS = 'en') => {
+  const { blocklist, allowlist } = DEFAULT_WORD_LISTS[locale];
+  return checkText(text, blocklist, allowlist);
+};
+
+describe('checkText', () => {
+  it('reports the first blocked word', () => {
+    expect(check('Can I have a gun?')).toEqual({ ok: false, matched: 'gun' });
+    expect(check('Let us play tag')).toEqual({ ok: true, matched: null });
+  });
+
+  it('matches whole words only', () => {
+    expect(check('Hello! Look at this shell.').ok).toBe(true);
+    expect(check('What the hell').ok).toBe(false);
+  });
+
+  it('lets allow-listed phrases through', () => {
+    expect(check('I have a water gun').ok).toBe(true);
+    expect(check('A water gun and a real gun').ok).toBe(false);
+    expect(check('Look, a shooting star!').ok).toBe(true);
+  });
+
+  it('sees through case, accents, spacing and digits for letters', () => {
+    expect(check('K1LL it').ok).toBe(false);
+    expect(check('shut     up').ok).toBe(false);
+    expect(check('eres ESTUPIDO', 'es').ok).toBe(false);
+    expect(check('So eine Scheisse', 'de').ok).toBe(false);
+  });
+
+  it('checks each language against its own list', () => {
+    expect(check('Die Sonne ist hell', 'de').ok).toBe(true);
+    expect(check('Ich habe Messer und Gabel', 'de').ok).toBe(true);
+  });
+});
+
+describe('finishedWords', () => {
+  it('leaves out the word still being written', () => {
+    expect(finishedWords('Hello there fri')).toBe('Hello there');
+    expect(finishedWords('Hell')).toBe('');
+    expect(finishedWords('All done ')).toBe('All done');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Local word filter for commands (typed, preset or spoken) and model replies, with lists for
+ * the app's language. Allow-listed phrases are cut out before the block list is checked, so
+ * "water gun" can be fine while "gun" is not.
+ */
+
+import type { LocaleCode } from './i18n';
+
+// ---------- Defaults ----------
+export type WordLists = { blocklist: string[]; allowlist: string[] };
+
+/**
+ * One pair of lists per app language, since replies are written in it and a word can be harmless
+ * in one language and not in another (German "hell" means bright).
+ */
+export const DEFAULT_WORD_LISTS: Record<LocaleCode, WordLists> = {
+  en: {
+    blocklist: [
+      'kill', 'murder', 'blood', 'bloody', 'gun', 'knife', 'weapon', 'bomb', 'shoot', 'stab', 'suicide',
+      'drug', 'drugs', 'alcohol', 'beer', 'wine', 'vodka', 'cigarette', 'vape',
+      'sex', 'sexy', 'naked', 'nude', 'porn',
+      'stupid', 'idiot', 'dumb', 'shut up', 'hate you', 'ugly',
+      'damn', 'hell', 'crap', 'shit', 'fuck', 'bitch', 'bastard',
+    ],
+    allowlist: ['water gun', 'glue gun', 'shoot a basket', 'shoot hoops', 'shooting star', 'shoot for the stars'],
+  },
+  es: {
+    blocklist: [
+      'matar', 'asesinar', 'sangre', 'pistola', 'cuchillo', 'arma', 'bomba', 'disparar', 'apuñalar', 'suicidio',
+      'droga', 'drogas', 'alcohol', 'cerveza', 'vodka', 'cigarro', 'cigarrillo', 'vapear',
+      'sexo', 'sexy', 'desnudo', 'desnuda', 'porno',
+      'estúpido', 'estúpida', 'idiota', 'tonto', 'tonta', 'cállate', 'te odio', 'feo', 'fea',
+      'maldito', 'mierda', 'joder', 'coño', 'puta', 'cabrón',
+    ],
+    allowlist: ['pistola de agua', 'pistola de silicona', 'bomba de agua', 'disparar a canasta'],
+  },
+  de: {
+    blocklist: [
+      'töten', 'umbringen', 'mord', 'blut', 'blutig', 'pistole', 'gewehr', 'messer', 'waffe', 'bombe', 'erschießen', 'erstechen', 'selbstmord',
+      'droge', 'drogen', 'alkohol', 'bier', 'schnaps', 'wodka', 'zigarette', 'vapen',
+      'sex', 'sexy', 'nackt', 'porno',
+      'dumm', 'blöd', 'idiot', 'halt die klappe', 'ich hasse dich', 'hässlich',
+      'verdammt', 'scheiße', 'scheiß', 'arschloch', 'schlampe', 'hure', 'mistkerl',
+    ],
+    allowlist: ['messer und gabel'],
+  },
+};
+
+export type FilterResult = { ok: boolean; matched: string | null };
+
+// ---------- Matching ----------
+function normalize(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // strip accents
+    .replace(/0/g, 'o')
+    .replace(/1/g, 'i')
+    .replace(/3/g, 'e')
+    .replace(/@/g, 'a')
+    .replace(/[$5]/g, 's')
+    .replace(/[^a-z'\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function phraseRegExp(phrase: string) {
+  // whole words only, tolerating repeated spacing inside multi-word phrases
+  const body = normalize(phrase).split(' ').map(escapeRegExp).join('\\s+');
+  return new RegExp(`(^|\\s)${body}(?=\\s|$)`, 'g');
+}
+
+/** Checks a text against the lists; reports the first blocked word or phrase found. */
+export function checkText(text: string, blocklist: string[], allowlist: string[]): FilterResult {
+  let haystack = ` ${normalize(text)} `;
+  for (const allowed of allowlist) {
+    if (allowed.trim()) haystack = haystack.replace(phraseRegExp(allowed), ' ');
+  }
+  for (const blocked of blocklist) {
+    if (blocked.trim() && phraseRegExp(blocked).test(haystack)) return { ok: false, matched: blocked };
+  }
+  return { ok: true, matched: null };
+}
+
+/** The finished words of a text still coming in: up to its last space, since "Hell" may yet become "Hello". */
+export function finishedWords(text: string) {
+  const end = text.search(/\s\S*$/);
+  return end < 0 ? '' : text.slice(0, end);
+}
+
+/** Parses a textarea of words/phrases (one per line or comma separated). */
+export function parseWordList(text: string): string[] {
+  return Array.from(
+    new Set(
+      text
+        .split(/[\n,]/)
+        .map((w) => w.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+}
@@ -0,0 +1,64 @@
+/**
+ * Speech helpers for streamed replies.
+ * Text arrives in arbitrary chunks; speech wants whole sentences, so the
+ * chunker hands each finished sentence over as soon as it is complete,
+ * together with where it starts in the full text (for word highlighting).
+ */
+
+/** Where an utterance's text sits inside a transcript turn. */
+export type SpokenTarget = { turnId: string; offset: number };
+
+// sentence end: terminal punctuation, optional closing quotes/brackets, then whitespace
+const SENTENCE_END = /[.!?…]+["'”’)\]]*\s+/g;
+
+export function createSentenceChunker(onSentence: (sentence: string, offset: number) => void) {
+  let consumed = 0; // how much of the full text has already been handed over
+
+  const emit = (sentence: string, start: number) => {
+    const clean = sentence.trim();
+    if (clean) onSentence(clean, start + sentence.indexOf(clean));
+  };
+
+  return {
+    /** Call with the full text so far; emits every newly completed sentence. */
+    update(fullText: string) {
+      SENTENCE_END.lastIndex = consumed;
+      let match: RegExpExecArray | null;
+      while ((match = SENTENCE_END.exec(fullText))) {
+        const end = match.index + match[0].length;
+        emit(fullText.slice(consumed, end), consumed);
+        consumed = end;
+      }
+    },
+    /** Call once the stream is finished; emits whatever is left. */
+    flush(fullText: string) {
+      emit(fullText.slice(consumed), consumed);
+      consumed = fullText.length;
+    },
+  };
+}
+
+/** A finished text as sentences with their offsets, e.g. to replay a reply. */
+export function splitSentences(text: string): { sentence: string; offset: number }[] {
+  const out: { sentence: string; offset: number }[] = [];
+  const chunker = createSentenceChunker((sentence, offset) => out.push({ sentence, offset }));
+  chunker.update(text);
+  chunker.flush(text);
+  return out;
+}
+
+/** [start, end) of the word at `charIndex`; `charLength` is used when the browser reports it. */
+export function wordRangeAt(text: string, charIndex: number, charLength?: number): [number, number] {
+  if (charLength) return [charIndex, charIndex + charLength];
+  const word = /^\S+/.exec(text.slice(charIndex));
+  return [charIndex, charIndex + (word ? word[0].length : 0)];
+}
+
+/** Start index of every word, for estimating progress when a voice sends no boundary events. */
+export function wordStarts(text: string): number[] {
+  const starts: number[] = [];
+  const re = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text))) starts.push(match.index);
+  return starts;
+}
@@ -0,0 +1,56 @@
+/**
+ * Storybook mode: a multi-page story starring the toy, written one page at a time.
+ * Some pages end at a branch point where the child picks what happens next; the
+ * choice is fed into the prompt for the following page.
+ */
+
+// ---------- Configuration ----------
+export const STORY_PAGE_COUNT = 6;
+const BRANCH_PAGES = new Set([2, 4]); // 1-based pages that end with choices
+
+// ---------- Types ----------
+export type StoryPage = {
+  id: string;
+  text: string;
+  choices: string[];
+  chosen: string | null;
+  imageUrl: string | null;
+  imageStatus: 'pending' | 'ready' | 'none';
+  ending: boolean;
+};
+
+export type Story = {
+  id: string;
+  theme: string; // what the child asked the story to be about, may be empty
+  pages: StoryPage[];
+  current: number; // index of the page on screen
+  writing: boolean; // a page request is in flight
+};
+
+// ---------- Helpers ----------
+function storyId(prefix: string) {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createStory(theme: string): Story {
+  return { id: storyId('story'), theme, pages: [], current: 0, writing: false };
+}
+
+export function createStoryPage(content: { text: string; choices: string[]; ending: boolean }): StoryPage {
+  return { id: storyId('page'), chosen: null, imageUrl: null, imageStatus: 'pending', ...content };
+}
+
+export function isBranchPage(pageNumber: number) {
+  return BRANCH_PAGES.has(pageNumber);
+}
+
+/** The pages so far as prompt text, including the choices the child made. */
+export function storySoFar(pages: StoryPage[]): string {
+  return pages.map((p, i) => `Page ${i + 1}: ${p.text}${p.chosen ? `\n(The child chose: "${p.chosen}")` : ''}`).join('\n');
+}
+
+/** The next page may be written once the last one is not an ending and its choice (if any) is made. */
+export function canContinue(story: Story): boolean {
+  const last = story.pages[story.pages.length - 1];
+  return !!last && !last.ending && !story.writing && (!last.choices.length || !!last.chosen);
+}
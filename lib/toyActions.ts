@@ -0,0 +1,94 @@
+/**
+ * Body reactions for the 3D toy: which action a command asks for, which embedded
+ * GLTF clip (if any) plays it, and procedural poses for models without clips.
+ */
+
+import type { AnimationClip } from 'three';
+
+// ---------- Types ----------
+export type ToyAction = 'bounce' | 'spin' | 'wiggle' | 'jump' | 'dance';
+
+/** Offsets applied on top of the model's resting transform. */
+export type ToyPose = {
+  y: number; // lift, in model units (the model is scaled to ~5 units)
+  rotY: number;
+  rotZ: number;
+  squash: number; // 1 = none; <1 flattens, >1 stretches
+};
+
+export const REST_POSE: ToyPose = { y: 0, rotY: 0, rotZ: 0, squash: 1 };
+
+// ---------- Command -> action ----------
+// checked in order; words for every supported language (see lib/i18n.ts)
+const COMMAND_ACTIONS: [ToyAction, RegExp][] = [
+  ['dance', /\b(danc\w*|boogie|baila\w*|tanz\w*)/i],
+  ['jump', /\b(jump\w*|hop\w*|leap\w*|salta\w*|brinca\w*|spring\w*|h(ü|ue)pf\w*)/i],
+  ['spin', /\b(spin\w*|twirl\w*|turn around|roll\w*|gira\w*|da una vuelta|dreh\w*)/i],
+  ['wiggle', /\b(wiggl\w*|wave|waving|shake|hi|hello|angry|mad|hola|saluda\w*|enfadad\w*|hallo|wink\w*|w(ü|ue)tend)\b/i],
+];
+
+/** The reaction for a command; any other command gets a happy bounce. */
+export function actionForCommand(command: string): ToyAction {
+  for (const [action, pattern] of COMMAND_ACTIONS) {
+    if (pattern.test(command)) return action;
+  }
+  return 'bounce';
+}
+
+// ---------- Embedded clips ----------
+// clip names in exported models are nearly always English ("Dance", "Jump_Loop", "Wave")
+const CLIP_NAMES: Record<ToyAction, RegExp> = {
+  dance: /danc/i,
+  jump: /jump|hop|leap/i,
+  spin: /spin|twirl|turn/i,
+  wiggle: /wave|wiggl|shake|hello|greet/i,
+  bounce: /happy|cheer|celebrat|bounce|yes/i,
+};
+
+export function findClip(clips: AnimationClip[], action: ToyAction): AnimationClip | null {
+  return clips.find((c) => CLIP_NAMES[action].test(c.name)) || null;
+}
+
+export function findIdleClip(clips: AnimationClip[]): AnimationClip | null {
+  return clips.find((c) => /idle|breath|stand/i.test(c.name)) || null;
+}
+
+// ---------- Procedural poses ----------
+const TAU = Math.PI * 2;
+
+/** Pose `t` seconds into a looping procedural action. */
+export function proceduralPose(action: ToyAction, t: number): ToyPose {
+  switch (action) {
+    case 'bounce': {
+      const h = Math.abs(Math.sin(t * TAU * 0.9));
+      return { y: h * 0.4, rotY: 0, rotZ: 0, squash: 0.92 + h * 0.1 };
+    }
+    case 'jump': {
+      const period = 1.2;
+      const p = (t % period) / period;
+      // crouch, leap, land
+      if (p < 0.15) return { y: 0, rotY: 0, rotZ: 0, squash: 1 - Math.sin((p / 0.15) * Math.PI) * 0.15 };
+      if (p < 0.75) return { y: Math.sin(((p - 0.15) / 0.6) * Math.PI) * 1.5, rotY: 0, rotZ: 0, squash: 1.08 };
+      return { y: 0, rotY: 0, rotZ: 0, squash: 1 - Math.sin(((p - 0.75) / 0.25) * Math.PI) * 0.1 };
+    }
+    case 'spin':
+      return { y: Math.abs(Math.sin(t * TAU * 0.5)) * 0.15, rotY: t * TAU * 0.7, rotZ: 0, squash: 1 };
+    case 'wiggle':
+      return { y: 0, rotY: 0, rotZ: Math.sin(t * TAU * 2.5) * 0.22, squash: 1 };
+    case 'dance': {
+      const beat = Math.sin(t * TAU * 1.8);
+      return { y: Math.abs(beat) * 0.3, rotY: Math.sin(t * Math.PI) * 0.7, rotZ: beat * 0.18, squash: 0.95 + Math.abs(beat) * 0.08 };
+    }
+  }
+}
+
+/** Moves `from` a step towards rest; full turns are unwound to the nearest one, not spun back. */
+export function easeToRest(from: ToyPose, k: number): ToyPose {
+  const restY = Math.round(from.rotY / TAU) * TAU;
+  return {
+    y: from.y * (1 - k),
+    rotY: from.rotY + (restY - from.rotY) * k,
+    rotZ: from.rotZ * (1 - k),
+    squash: from.squash + (1 - from.squash) * k,
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Browser client for the toy API proxy (server/toyApi.ts).
+ * The Gemini key never reaches the browser; every model call goes through here.
+ */
+
+import { historyForRequest } from './conversation';
+import type { ChatTurn, Companion, InlineImagePart } from './conversation';
+import type { ReferenceSheet } from './referenceSheet';
+import { normalizeToyReply } from './toyReply';
+import type { ToyReply } from './toyReply';
+
+export type ToyCommandResult = {
+  text: string;
+  reply: ToyReply;
+  image: { data: string; mimeType: string } | null;
+};
+
+/** `reply` is null if the stream ended before the structured reply (an older server, say). */
+export type StreamedReply = { text: string; reply: ToyReply | null };
+
+export type StoryPageResult = {
+  text: string;
+  choices: string[];
+  ending: boolean;
+};
+
+export class ToyApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code: string,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ToyApiError';
+  }
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const at = Date.parse(header);
+  return Number.isNaN(at) ? undefined : Math.max(0, at - Date.now());
+}
+
+async function toApiError(res: Response) {
+  let code = 'http_error';
+  let message = `Request failed with status ${res.status}`;
+  try {
+    const payload = await res.json();
+    code = payload?.error?.code || code;
+    message = payload?.error?.message || message;
+  } catch {}
+  return new ToyApiError(message, res.status, code, parseRetryAfter(res.headers.get('Retry-After')));
+}
+
+function post(path: string, body: unknown, signal?: AbortSignal) {
+  return fetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+}
+
+async function postJson<T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> {
+  const res = await post(path, body, signal);
+  if (!res.ok) throw await toApiError(res);
+  return res.json();
+}
+
+/** `language` (e.g. 'Spanish') is the language the description is written in. */
+export function describeToy(image: InlineImagePart, language: string, signal?: AbortSignal) {
+  return postJson<{ text: string }>('/api/describe-toy', { image, language }, signal);
+}
+
+/** What the toy looks like, for image prompts; `description` is the text shown to the child. */
+export function describeReferenceSheet(image: InlineImagePart, description: string, signal?: AbortSignal) {
+  return postJson<{ sheet: ReferenceSheet }>('/api/reference-sheet', { image, description }, signal);
+}
+
+/** `prompt` drives the text reply; `imagePrompt`, when given, also asks for an action picture. */
+export function sendToyCommand(params: { image: InlineImagePart; history: ChatTurn[]; prompt: string; imagePrompt?: string }, signal?: AbortSignal) {
+  return postJson<ToyCommandResult>('/api/toy-command', { ...params, history: historyForRequest(params.history) }, signal);
+}
+
+/** `companions` and `self` are only sent on a playdate (see lib/conversation.ts). */
+export type ConversationParams = { image: InlineImagePart; history: ChatTurn[]; prompt: string; companions?: Companion[]; self?: string };
+
+/**
+ * Streams the toy's reply. `onText` receives the whole text so far after each
+ * chunk; the promise resolves to the final text and the structured reply.
+ */
+export async function streamToyReply(params: ConversationParams, onText: (textSoFar: string) => void, signal?: AbortSignal): Promise<StreamedReply> {
+  const res = await post('/api/toy-command/stream', { ...params, history: historyForRequest(params.history) }, signal);
+  if (!res.ok) throw await toApiError(res);
+  if (!res.body) throw new ToyApiError('Streaming is not supported here.', res.status, 'no_stream');
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  let text = '';
+  let reply: ToyReply | null = null;
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const msg = JSON.parse(line);
+    if (msg.type === 'text') {
+      text += msg.text;
+      onText(text);
+    } else if (msg.type === 'reply') {
+      reply = normalizeToyReply(msg.reply);
+    } else if (msg.type === 'error') {
+      // the stream started fine, so this came from the model mid-reply
+      throw new ToyApiError(msg.message || 'The reply stream failed.', msg.code === 'safety_blocked' ? 422 : 502, msg.code || 'stream_error');
+    }
+  };
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffered += value;
+      let newline = buffered.indexOf('\n');
+      while (newline >= 0) {
+        handleLine(buffered.slice(0, newline));
+        buffered = buffered.slice(newline + 1);
+        newline = buffered.indexOf('\n');
+      }
+    }
+    handleLine(buffered);
+  } catch (err) {
+    reader.cancel().catch(() => {});
+    throw err;
+  }
+  return { text, reply };
+}
+
+export function requestActionImage(params: ConversationParams, signal?: AbortSignal) {
+  return postJson<{ image: ToyCommandResult['image'] }>('/api/action-image', { ...params, history: historyForRequest(params.history) }, signal);
+}
+
+/** One page of a storybook story; the prompt carries the story so far (see lib/prompts.ts). */
+export function writeStoryPage(params: { image: InlineImagePart; prompt: string }, signal?: AbortSignal) {
+  return postJson<{ page: StoryPageResult }>('/api/story-page', params, signal);
+}
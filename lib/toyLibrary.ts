@@ -0,0 +1,159 @@
+/**
+ * Persistent toy library (IndexedDB).
+ * Each saved toy keeps its photo, description, optional 3D model, name,
+ * personality, voice, picture reference sheet and art style, game scores and conversation history so the child
+ * can pick up where they left off.
+ * Every picture a toy generates also goes into its gallery (a separate store, keyed by toy).
+ */
+
+import type { ChatTurn } from './conversation';
+import type { GameScores } from './games';
+import type { ToyPersonality, VoiceSettings } from './personality';
+import type { ArtStyle, ReferenceSheet } from './referenceSheet';
+
+// ---------- Configuration ----------
+const DB_NAME = 'ai-toy-companion';
+const DB_VERSION = 2;
+const TOY_STORE = 'toys';
+const IMAGE_STORE = 'images';
+
+// ---------- Types ----------
+export type ToyRecord = {
+  id: string;
+  name: string;
+  personality: ToyPersonality; // older records may hold a plain trait string, see normalizePersonality
+  voice: VoiceSettings;
+  photo: Blob;
+  description: string;
+  sheet?: ReferenceSheet | null; // missing on records saved before reference sheets, see normalizeReferenceSheet
+  artStyle?: ArtStyle;
+  model: File | null; // optional 3D model, a zip when it came with sidecar files (lib/modelLoader.ts)
+  cutout?: Blob | null; // the toy cut out of its photo for the 2.5D stand-in (lib/photoModel.ts); made again when missing
+  turns: ChatTurn[];
+  scores?: GameScores; // mini-game results (lib/games.ts), missing until a game is played
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type GalleryImage = {
+  id: string;
+  toyId: string;
+  imageUrl: string; // data: URL
+  kind: 'action' | 'story';
+  command: string; // what the child asked for; the page text for story pictures
+  turnId: string | null; // transcript turn showing the picture, if any
+  favourite: boolean;
+  createdAt: number;
+};
+
+// ---------- DB helpers ----------
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('IndexedDB is not available in this browser.'));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(TOY_STORE)) {
+        const store = db.createObjectStore(TOY_STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+        const store = db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+        store.createIndex('toyId', 'toyId');
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error || new Error('Could not open the toy library.'));
+  });
+  // let a later call try again if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted.'));
+  });
+}
+
+async function withStore<T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  const done = transactionDone(tx);
+  const result = await promisify(fn(tx.objectStore(storeName)));
+  await done;
+  return result;
+}
+
+// ---------- Public API ----------
+export function createToyId() {
+  return `toy-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** All saved toys, most recently played first. */
+export async function listToys(): Promise<ToyRecord[]> {
+  const all = await withStore<ToyRecord[]>(TOY_STORE, 'readonly', (store) => store.getAll());
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function getToy(id: string): Promise<ToyRecord | undefined> {
+  return withStore<ToyRecord | undefined>(TOY_STORE, 'readonly', (store) => store.get(id));
+}
+
+export async function saveToy(record: ToyRecord): Promise<void> {
+  await withStore(TOY_STORE, 'readwrite', (store) => store.put({ ...record, updatedAt: Date.now() }));
+}
+
+export async function renameToy(id: string, name: string): Promise<void> {
+  const record = await getToy(id);
+  if (!record) return;
+  await saveToy({ ...record, name });
+}
+
+/** Deletes the toy together with its gallery. */
+export async function deleteToy(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([TOY_STORE, IMAGE_STORE], 'readwrite');
+  const done = transactionDone(tx);
+  tx.objectStore(TOY_STORE).delete(id);
+  const images = tx.objectStore(IMAGE_STORE);
+  const keys = await promisify(images.index('toyId').getAllKeys(id));
+  keys.forEach((key) => images.delete(key));
+  await done;
+}
+
+// ---------- Gallery ----------
+export function createImageId() {
+  return `img-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** A toy's pictures, newest first. */
+export async function listImages(toyId: string): Promise<GalleryImage[]> {
+  const all = await withStore<GalleryImage[]>(IMAGE_STORE, 'readonly', (store) => store.index('toyId').getAll(toyId));
+  return all.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function saveImage(image: GalleryImage): Promise<void> {
+  await withStore(IMAGE_STORE, 'readwrite', (store) => store.put(image));
+}
+
+export async function deleteImage(id: string): Promise<void> {
+  await withStore(IMAGE_STORE, 'readwrite', (store) => store.delete(id));
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { parseToyReply, replyTextSoFar } from './toyReply';
+
+describe('parseToyReply', () => {
+  it('reads and checks a JSON reply', () => {
+    const raw = JSON.stringify({
+      reply: '  Wheee!  ',
+      emotion: 'grumpy',
+      action: ' Dance ',
+      declined: 'yes',
+      followUps: ['Jump', '', 7, 'Sing', 'Spin', 'Wave', 'x'.repeat(61)],
+    });
+    expect(parseToyReply(raw)).toEqual({ reply: 'Wheee!', emotion: null, action: 'dance', declined: false, followUps: ['Jump', 'Sing', 'Spin'] });
+    expect(parseToyReply('{"reply":"No thanks","emotion":"calm","declined":true}')).toMatchObject({ emotion: 'calm', declined: true });
+  });
+
+  it('takes plain text as the reply', () => {
+    expect(parseToyReply(' Hi there! ')).toEqual({ reply: 'Hi there!', emotion: null, action: '', declined: false, followUps: [] });
+  });
+
+  it('keeps the reply text of cut-off or unusable JSON', () => {
+    expect(parseToyReply('{"reply": "I can jump').reply).toBe('I can jump');
+    expect(parseToyReply('{"reply": "", "emotion": "happy"}').reply).toBe('');
+  });
+});
+
+describe('replyTextSoFar', () => {
+  it('reads the reply out of unfinished JSON', () => {
+    expect(replyTextSoFar('{"emotion":"happy","reply": "Hi the')).toBe('Hi the');
+    expect(replyTextSoFar('{"reply":"Done!","emotion":"hap')).toBe('Done!');
+    expect(replyTextSoFar('{"emotion":"happy"')).toBe('');
+  });
+
+  it('decodes escapes, waiting for ones cut in half', () => {
+    expect(replyTextSoFar('{"reply":"Say \\"hi\\"\\nCaf\\u00e9')).toBe('Say "hi"\nCafé');
+    expect(replyTextSoFar('{"reply":"ab\\')).toBe('ab');
+    expect(replyTextSoFar('{"reply":"ab\\u00')).toBe('ab');
+  });
+
+  it('returns plain text as is', () => {
+    expect(replyTextSoFar('Just words')).toBe('Just words');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Structured toy replies: the model answers as JSON with the spoken reply, an emotion, an
+ * action verb, whether it declined the command and a few follow-up ideas. Everything is
+ * checked at runtime; the reply text is read out of the JSON while it streams, and output
+ * that is not the expected JSON degrades to a plain-text reply without the extras.
+ */
+
+// ---------- Types ----------
+export const EMOTIONS = ['happy', 'excited', 'silly', 'curious', 'calm', 'surprised', 'sad', 'sleepy'] as const;
+export type Emotion = (typeof EMOTIONS)[number];
+
+export type ToyReply = {
+  reply: string; // what the toy says
+  emotion: Emotion | null;
+  action: string; // one verb for what the toy does ("dance"), or ''
+  declined: boolean; // the toy politely refused an unsafe or impossible command
+  followUps: string[]; // short commands the child could try next
+};
+
+const MAX_FOLLOW_UPS = 3;
+const MAX_FOLLOW_UP_CHARS = 60;
+
+// ---------- Parsing ----------
+/** A parsed JSON value as a reply, or null when it has no reply text. */
+export function normalizeToyReply(value: unknown): ToyReply | null {
+  const v = (value || {}) as Record<string, unknown>;
+  if (typeof v.reply !== 'string' || !v.reply.trim()) return null;
+  return {
+    reply: v.reply.trim(),
+    emotion: EMOTIONS.includes(v.emotion as Emotion) ? (v.emotion as Emotion) : null,
+    action: typeof v.action === 'string' ? v.action.trim().toLowerCase().slice(0, 30) : '',
+    declined: v.declined === true,
+    followUps: Array.isArray(v.followUps)
+      ? v.followUps
+          .filter((f): f is string => typeof f === 'string' && !!f.trim() && f.length <= MAX_FOLLOW_UP_CHARS)
+          .map((f) => f.trim())
+          .slice(0, MAX_FOLLOW_UPS)
+      : [],
+  };
+}
+
+function plainReply(reply: string): ToyReply {
+  return { reply: reply.trim(), emotion: null, action: '', declined: false, followUps: [] };
+}
+
+/** The complete model output as a reply; never throws. */
+export function parseToyReply(raw: string): ToyReply {
+  if (!raw.trimStart().startsWith('{')) return plainReply(raw);
+  try {
+    const reply = normalizeToyReply(JSON.parse(raw));
+    if (reply) return reply;
+  } catch {}
+  // truncated or malformed JSON: keep whatever reply text made it through
+  return plainReply(replyTextSoFar(raw));
+}
+
+/**
+ * The reply text in a (possibly unfinished) JSON reply, decoded as far as it goes;
+ * plain-text output is returned as is.
+ */
+export function replyTextSoFar(raw: string): string {
+  if (!raw.trimStart().startsWith('{')) return raw;
+  const start = /"reply"\s*:\s*"/.exec(raw);
+  if (!start) return '';
+  let text = '';
+  for (let i = start.index + start[0].length; i < raw.length; i++) {
+    const ch = raw[i];
+    if (ch === '"') break;
+    if (ch !== '\\') {
+      text += ch;
+      continue;
+    }
+    // an escape sequence cut off by the end of the chunk waits for the next one
+    const escape = raw[i + 1];
+    if (escape === undefined) break;
+    if (escape === 'u') {
+      const hex = raw.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      text += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+      continue;
+    }
+    text += ({ n: '\n', t: '\t', r: '', b: '', f: '' } as Record<string, string>)[escape] ?? escape;
+    i += 1;
+  }
+  return text;
+}
@@ -0,0 +1,162 @@
+/**
+ * Local fake Gemini responder for developing and testing the proxy offline.
+ *
+ *   npm run fake-gemini
+ *   GEMINI_API_KEY=fake GEMINI_BASE_URL=http://localhost:8788 npm run dev
+ *
+ * Answers `models/*:generateContent` with canned text (echoing the last user
+ * text), a canned toy reply, story page or reference sheet when JSON output is requested and,
+ * when IMAGE output is requested, a tiny placeholder PNG. Streamed answers arrive in a few pieces.
+ * Also speaks the Live API's BidiGenerateContent WebSocket protocol: each typed
+ * turn, or each stretch of microphone audio followed by a pause, gets babble
+ * audio with a canned transcript.
+ * Set FAKE_GEMINI_STATUS (e.g. 429 or 503) to make every call fail, or
+ * FAKE_GEMINI_BLOCK=1 to answer every call with a safety block.
+ */
+
+import { createServer } from 'node:http';
+import { WebSocketServer } from 'ws';
+import type { WebSocket } from 'ws';
+import { isSpeechChunk, pretendSpeech } from './providers/mock';
+
+const port = Number(process.env.FAKE_GEMINI_PORT) || 8788;
+const failStatus = Number(process.env.FAKE_GEMINI_STATUS) || 0;
+const blockEverything = process.env.FAKE_GEMINI_BLOCK === '1';
+
+// 1x1 placeholder PNG
+const PLACEHOLDER_PNG =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
+
+function lastUserText(body: any): string {
+  const contents: any[] = Array.isArray(body?.contents) ? body.contents : [body?.contents].filter(Boolean);
+  for (let i = contents.length - 1; i >= 0; i--) {
+    const text = (contents[i]?.parts || []).map((p: any) => p?.text || '').join(' ').trim();
+    if (text) return text;
+  }
+  return '';
+}
+
+function fakeResponse(body: any) {
+  if (blockEverything) return { promptFeedback: { blockReason: 'SAFETY' }, candidates: [] };
+  const heard = lastUserText(body).replace(/\s+/g, ' ').slice(0, 80);
+  const wantsImage = (body?.generationConfig?.responseModalities || []).includes('IMAGE');
+  const schema = body?.generationConfig?.responseSchema?.properties;
+  if (body?.generationConfig?.responseMimeType === 'application/json' && schema?.reply) {
+    const reply = { reply: `Wheee! I'm a pretend toy and I heard: "${heard}"`, emotion: 'excited', action: 'dance', declined: false, followUps: ['Jump again', 'Tell me a joke'] };
+    return { candidates: [{ content: { role: 'model', parts: [{ text: JSON.stringify(reply) }] }, finishReason: 'STOP', index: 0 }] };
+  }
+  if (body?.generationConfig?.responseMimeType === 'application/json' && schema?.colours) {
+    const sheet = { shape: 'small and round', colours: ['pretend pink'], materials: ['plush'], features: ['a very fake smile'] };
+    return { candidates: [{ content: { role: 'model', parts: [{ text: JSON.stringify(sheet) }] }, finishReason: 'STOP', index: 0 }] };
+  }
+  if (body?.generationConfig?.responseMimeType === 'application/json') {
+    const page = { text: `Once upon a pretend time, a toy heard: "${heard}"`, choices: ['Go left', 'Go right'], ending: false };
+    return { candidates: [{ content: { role: 'model', parts: [{ text: JSON.stringify(page) }] }, finishReason: 'STOP', index: 0 }] };
+  }
+  const parts: any[] = [{ text: `Wheee! I'm a pretend toy and I heard: "${heard}"` }];
+  if (wantsImage) parts.push({ inlineData: { mimeType: 'image/png', data: PLACEHOLDER_PNG } });
+  return { candidates: [{ content: { role: 'model', parts }, finishReason: 'STOP', index: 0 }] };
+}
+
+/** Splits a text answer into three chunks, the way the real stream delivers them. */
+function streamPieces(payload: any): any[] {
+  const candidate = payload.candidates?.[0];
+  const text = candidate?.content?.parts?.[0]?.text;
+  if (typeof text !== 'string' || candidate.content.parts.length > 1) return [payload];
+  const size = Math.ceil(text.length / 3);
+  const pieces = [text.slice(0, size), text.slice(size, size * 2), text.slice(size * 2)];
+  return pieces.map((piece, i) => ({
+    candidates: [{ content: { role: 'model', parts: [{ text: piece }] }, finishReason: i === pieces.length - 1 ? 'STOP' : undefined, index: 0 }],
+  }));
+}
+
+// ---------- Live API ----------
+const LIVE_PAUSE_MS = 600;
+
+function fakeLive(ws: WebSocket) {
+  // the real service closes the socket with a reason instead of answering with an HTTP error
+  if (failStatus) return ws.close(1011, `Fake failure ${failStatus}`);
+  const send = (message: unknown) => ws.send(JSON.stringify(message));
+  let heardSpeech = false;
+  let pauseTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const reply = (heard: string, transcribe: boolean) => {
+    if (blockEverything) return ws.close(1008, 'Request contains prohibited content.');
+    const text = `Wheee! I'm a pretend toy and I heard: "${heard.replace(/\s+/g, ' ').slice(0, 80)}"`;
+    if (transcribe) send({ serverContent: { inputTranscription: { text: heard } } });
+    for (const data of pretendSpeech(text)) {
+      send({ serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data } }] } } });
+    }
+    send({ serverContent: { outputTranscription: { text } } });
+    send({ serverContent: { generationComplete: true } });
+    send({ serverContent: { turnComplete: true } });
+  };
+  const replyToAudio = () => {
+    clearTimeout(pauseTimer);
+    pauseTimer = undefined;
+    if (!heardSpeech) return;
+    heardSpeech = false;
+    reply('some pretend words', true);
+  };
+
+  ws.on('message', (raw) => {
+    let message: any = {};
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {}
+    if (message.setup) send({ setupComplete: {} });
+    else if (message.clientContent) {
+      const turns: any[] = message.clientContent.turns || [];
+      reply(turns.flatMap((t) => (t.parts || []).map((p: any) => p.text || '')).join(' '), false);
+    } else if (message.realtimeInput?.audio?.data) {
+      if (isSpeechChunk(message.realtimeInput.audio.data)) {
+        heardSpeech = true;
+        clearTimeout(pauseTimer);
+        pauseTimer = undefined;
+      } else if (heardSpeech && !pauseTimer) pauseTimer = setTimeout(replyToAudio, LIVE_PAUSE_MS);
+    } else if (message.realtimeInput?.audioStreamEnd) replyToAudio();
+  });
+  ws.on('close', () => clearTimeout(pauseTimer));
+}
+
+const liveServer = new WebSocketServer({ noServer: true });
+
+// ---------- HTTP ----------
+const server = createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on('data', (c: Buffer) => chunks.push(c));
+  req.on('end', () => {
+    const match = /\/models\/([^/:]+):(generateContent|streamGenerateContent)/.exec(req.url || '');
+    if (!match || req.method !== 'POST') {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { code: 404, message: 'Not found', status: 'NOT_FOUND' } }));
+      return;
+    }
+    if (failStatus) {
+      res.writeHead(failStatus, { 'Content-Type': 'application/json' });
+      const error: any = { code: failStatus, message: `Fake failure ${failStatus}`, status: 'FAKE' };
+      if (failStatus === 429) error.details = [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '2s' }];
+      res.end(JSON.stringify({ error }));
+      return;
+    }
+    let body: any = {};
+    try {
+      body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+    } catch {}
+    const payload = fakeResponse(body);
+    if (match[2] === 'streamGenerateContent') {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.end(streamPieces(payload).map((piece) => `data: ${JSON.stringify(piece)}\n\n`).join(''));
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  });
+});
+server.on('upgrade', (req, socket, head) => {
+  if (!/BidiGenerateContent/.test(req.url || '')) return socket.destroy();
+  liveServer.handleUpgrade(req, socket, head, fakeLive);
+});
+server.listen(port, () => {
+  console.log(`Fake Gemini listening on http://localhost:${port}`);
+});
@@ -0,0 +1,75 @@
+/**
+ * Standalone server: the toy API proxy (and its /api/live voice socket) plus the built app from dist/.
+ *
+ *   npm run build && npm run serve
+ *
+ * Reads GEMINI_API_KEY (and optional TOY_MODEL_PROVIDER, GEMINI_BASE_URL, PORT)
+ * from the environment or .env.local, like the Vite config does.
+ */
+
+import { createReadStream, existsSync, statSync } from 'node:fs';
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import path from 'node:path';
+import { loadEnv } from 'vite';
+import { createLiveApi } from './liveApi';
+import { createModelProvider, providerConfigFromEnv } from './providers';
+import { createToyApi } from './toyApi';
+
+const env = { ...loadEnv('production', '.', ''), ...process.env };
+const port = Number(env.PORT) || 8787;
+const distDir = path.resolve('dist');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.wasm': 'application/wasm',
+};
+
+function serveStatic(req: IncomingMessage, res: ServerResponse) {
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname);
+  } catch {
+    res.writeHead(400, { 'Content-Type': 'text/plain' });
+    res.end('Bad request path');
+    return;
+  }
+  let filePath = path.join(distDir, pathname);
+  // keep requests inside dist/ (not a sibling like dist-old/), and fall back to the app shell for unknown paths
+  const relative = path.relative(distDir, filePath);
+  if (relative.startsWith('..') || path.isAbsolute(relative) || !existsSync(filePath) || statSync(filePath).isDirectory()) {
+    filePath = path.join(distDir, 'index.html');
+  }
+  if (!existsSync(filePath)) {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('Build the app first: npm run build');
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(filePath)] || 'application/octet-stream' });
+  createReadStream(filePath).pipe(res);
+}
+
+const provider = createModelProvider(providerConfigFromEnv(env));
+const trustProxy = env.TRUST_PROXY === '1';
+const toyApi = createToyApi({ provider, trustProxy });
+const liveApi = createLiveApi({ provider, trustProxy });
+
+const server = createServer((req, res) => {
+  toyApi(req, res, () => serveStatic(req, res)).catch((err) => {
+    console.error('[server] request failed:', err);
+    if (!res.headersSent) res.writeHead(500, { 'Content-Type': 'text/plain' });
+    res.end('Internal server error');
+  });
+});
+server.on('upgrade', (req, socket, head) => {
+  if (!liveApi(req, socket, head)) socket.destroy();
+});
+server.listen(port, () => {
+  console.log(`AI Toy Companion server on http://localhost:${port}`);
+});
@@ -0,0 +1,165 @@
+/**
+ * Realtime voice bridge: the browser opens a WebSocket to /api/live and the server relays it
+ * to the provider's live session, so the API key stays here like for the HTTP routes.
+ *
+ * Browser -> server (JSON text frames):
+ * - { type: 'start', instructions, voiceName?, languageCode? }  first message, opens the session
+ * - { type: 'audio', data }                                    base64 PCM16 mono at 16 kHz
+ * - { type: 'text', text }                                     a typed command, answered in voice
+ * - { type: 'end' }                                            the microphone was switched off
+ * Server -> browser: { type: 'ready' }, then the provider's LiveEvents (audio, input, output,
+ * interrupted, turnComplete), and { type: 'error', code, message } right before closing.
+ *
+ * Session starts share the per-client rate limiting idea of server/toyApi.ts, and sessions
+ * end after MAX_SESSION_MS. Attach `handleUpgrade` to the HTTP server's 'upgrade' event.
+ */
+
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { WebSocketServer } from 'ws';
+import type { WebSocket } from 'ws';
+import { ProviderConfigError } from './providers';
+import type { LiveSession, LiveSessionRequest, ModelProvider } from './providers';
+import { createRateLimiter } from './rateLimit';
+import type { RateLimitOptions } from './rateLimit';
+import { clientKey } from './toyApi';
+
+// ---------- Configuration ----------
+const LIVE_PATH = '/api/live';
+const MAX_MESSAGE_BYTES = 256 * 1024; // audio arrives in ~100 ms chunks, far below this
+const MAX_INSTRUCTIONS_CHARS = 4000;
+const MAX_TEXT_CHARS = 500;
+const MAX_SESSION_MS = 10 * 60_000;
+const START_TIMEOUT_MS = 10_000; // the browser must send 'start' this soon after connecting
+const INPUT_MIME_TYPE = 'audio/pcm;rate=16000';
+const DEFAULT_RATE_LIMIT: RateLimitOptions = { capacity: 3, refillPerMinute: 6 };
+
+export type LiveApiOptions = {
+  provider: ModelProvider;
+  rateLimit?: RateLimitOptions;
+  /** Use X-Forwarded-For / X-Forwarded-Host (only behind a trusted proxy). */
+  trustProxy?: boolean;
+};
+
+// ---------- Validation ----------
+function parseStart(message: any): LiveSessionRequest | null {
+  const { instructions, voiceName, languageCode } = message;
+  if (typeof instructions !== 'string' || !instructions.trim() || instructions.length > MAX_INSTRUCTIONS_CHARS) return null;
+  if (voiceName !== undefined && (typeof voiceName !== 'string' || !/^[A-Za-z]{2,20}$/.test(voiceName))) return null;
+  if (languageCode !== undefined && (typeof languageCode !== 'string' || !/^[a-z]{2,3}(-[A-Z]{2})?$/.test(languageCode))) return null;
+  return { instructions, voiceName, languageCode };
+}
+
+/** Browsers always send Origin on WebSocket requests; other sites may not use our key. */
+function sameOrigin(req: IncomingMessage, trustProxy: boolean) {
+  const origin = req.headers.origin;
+  if (!origin) return true; // not a browser
+  const fwdHost = trustProxy ? req.headers['x-forwarded-host'] : undefined;
+  const host = (Array.isArray(fwdHost) ? fwdHost[0] : fwdHost) || req.headers.host;
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+// ---------- Handler ----------
+export function createLiveApi({ provider, rateLimit = DEFAULT_RATE_LIMIT, trustProxy = false }: LiveApiOptions) {
+  const limiter = createRateLimiter(rateLimit);
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+
+  const bridge = (ws: WebSocket, req: IncomingMessage) => {
+    let session: LiveSession | null = null;
+    let starting = false;
+    let closed = false;
+
+    const send = (message: unknown) => {
+      if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(message));
+    };
+    const fail = (code: string, message: string) => {
+      send({ type: 'error', code, message });
+      ws.close();
+    };
+    const startTimer = setTimeout(() => fail('bad_request', 'The live session was never started.'), START_TIMEOUT_MS);
+    const sessionTimer = setTimeout(() => fail('session_timeout', 'The live session reached its time limit.'), MAX_SESSION_MS);
+
+    const start = async (message: any) => {
+      starting = true;
+      clearTimeout(startTimer);
+      const limit = limiter.take(clientKey(req, trustProxy));
+      if (!limit.ok) return fail('rate_limited', 'Too many live sessions, slow down a little.');
+      const request = parseStart(message);
+      if (!request) return fail('bad_request', 'Invalid start message.');
+      try {
+        const opened = await provider.connectLive(request, (event) => {
+          if (event.type !== 'closed') send(event);
+          else if (!closed) {
+            console.warn('[live-api] upstream session closed:', event.reason);
+            fail('upstream_error', 'The voice connection ended.');
+          }
+        });
+        // the browser may have gone away while the session was opening
+        if (closed) return opened.close();
+        session = opened;
+        send({ type: 'ready' });
+      } catch (err) {
+        if (err instanceof ProviderConfigError) return fail('server_misconfigured', err.message);
+        console.error('[live-api] could not open a session:', err);
+        fail('upstream_error', 'The AI voice is unavailable right now.');
+      }
+    };
+
+    ws.on('message', (raw) => {
+      let message: any;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return fail('bad_request', 'Messages must be JSON.');
+      }
+      if (!session) {
+        if (message?.type === 'start' && !starting) start(message);
+        else if (!starting) fail('bad_request', 'Start the session first.');
+        return; // audio sent while the session opens is dropped
+      }
+      switch (message?.type) {
+        case 'audio':
+          if (typeof message.data === 'string' && message.data) session.sendAudio(message.data, INPUT_MIME_TYPE);
+          break;
+        case 'text':
+          if (typeof message.text === 'string' && message.text.trim() && message.text.length <= MAX_TEXT_CHARS) session.sendText(message.text.trim());
+          break;
+        case 'end':
+          session.endAudio();
+          break;
+        default:
+          fail('bad_request', 'Unknown message type.');
+      }
+    });
+
+    ws.on('close', () => {
+      closed = true;
+      clearTimeout(startTimer);
+      clearTimeout(sessionTimer);
+      session?.close();
+      session = null;
+    });
+  };
+
+  /** Takes over upgrade requests for /api/live and returns true; leaves every other path alone. */
+  return function handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): boolean {
+    let pathname: string;
+    try {
+      pathname = new URL(req.url || '/', 'http://localhost').pathname;
+    } catch {
+      socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+      return true;
+    }
+    if (pathname !== LIVE_PATH) return false;
+    if (!sameOrigin(req, trustProxy)) {
+      socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
+      return true;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => bridge(ws, req));
+    return true;
+  };
+}
@@ -0,0 +1,268 @@
+/**
+ * Gemini implementation of the model provider (holds the API key).
+ */
+
+import { ApiError, GoogleGenAI, HarmBlockThreshold, HarmCategory, Modality, Type } from '@google/genai';
+import type { GenerateContentResponse, LiveServerMessage, SafetySetting, Schema } from '@google/genai';
+import { buildConversationContents } from '../../lib/conversation';
+import { normalizeReferenceSheet } from '../../lib/referenceSheet';
+import { EMOTIONS } from '../../lib/toyReply';
+import { ProviderConfigError, ProviderSafetyError, ProviderUpstreamError } from './types';
+import type { LiveEvent, ModelProvider, ReferenceSheet, StoryPage } from './types';
+
+const DESCRIBE_MODEL = 'gemini-2.5-flash';
+const REPLY_MODEL = 'gemini-2.5-flash';
+const IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+const LIVE_MODEL = 'gemini-live-2.5-flash-preview';
+const BLOCKING_FINISH_REASONS = new Set(['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY']);
+
+// The audience is young children, so block anything above negligible risk rather than relying on the defaults.
+const SAFETY_SETTINGS: SafetySetting[] = [
+  HarmCategory.HARM_CATEGORY_HARASSMENT,
+  HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+].map((category) => ({ category, threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE }));
+
+const STORY_PAGE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    text: { type: Type.STRING },
+    choices: { type: Type.ARRAY, items: { type: Type.STRING } },
+    ending: { type: Type.BOOLEAN },
+  },
+  required: ['text', 'choices', 'ending'],
+};
+
+// the reply comes first so it can be shown and spoken while the rest is still on its way
+const REPLY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    reply: { type: Type.STRING },
+    emotion: { type: Type.STRING, enum: [...EMOTIONS] },
+    action: { type: Type.STRING },
+    declined: { type: Type.BOOLEAN },
+    followUps: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['reply', 'emotion', 'action', 'declined', 'followUps'],
+  propertyOrdering: ['reply', 'emotion', 'action', 'declined', 'followUps'],
+};
+
+const REFERENCE_SHEET_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    shape: { type: Type.STRING },
+    colours: { type: Type.ARRAY, items: { type: Type.STRING } },
+    materials: { type: Type.ARRAY, items: { type: Type.STRING } },
+    features: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['shape', 'colours', 'materials', 'features'],
+};
+
+export type GeminiProviderOptions = {
+  apiKey: string;
+  /** Overrides the Gemini endpoint, e.g. a local fake responder. */
+  baseUrl?: string;
+};
+
+/**
+ * The SDK's HTTP errors as ProviderUpstreamError. Their message is the JSON error body (after
+ * "got status: ..." in a stream), whose RetryInfo detail says how long a 429 should wait.
+ */
+function upstreamError(err: unknown) {
+  if (!(err instanceof ApiError)) return err;
+  let retryAfterMs: number | undefined;
+  try {
+    const body = JSON.parse(err.message.slice(err.message.indexOf('{')));
+    const delay = body?.error?.details?.find((detail: any) => typeof detail?.retryDelay === 'string')?.retryDelay;
+    const seconds = parseFloat(delay); // e.g. "2s" or "1.5s"
+    if (Number.isFinite(seconds)) retryAfterMs = seconds * 1000;
+  } catch {
+    // no JSON body, so no delay to honour
+  }
+  return new ProviderUpstreamError(err.status, err.message, retryAfterMs);
+}
+
+async function upstream<T>(request: () => Promise<T>): Promise<T> {
+  try {
+    return await request();
+  } catch (err) {
+    throw upstreamError(err);
+  }
+}
+
+/** Turns a blocked prompt or a safety-stopped candidate into a ProviderSafetyError. */
+function assertNotBlocked(response: GenerateContentResponse) {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new ProviderSafetyError(blockReason);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.has(finishReason)) throw new ProviderSafetyError(finishReason);
+}
+
+/** JSON mode output is usually well-formed, but a truncated page is treated as an upstream failure. */
+function parseStoryPage(raw: string | undefined): StoryPage {
+  let page: any;
+  try {
+    page = JSON.parse(raw || '');
+  } catch {
+    throw new Error('The model returned an unreadable story page.');
+  }
+  if (typeof page?.text !== 'string' || !page.text.trim()) throw new Error('The model returned an empty story page.');
+  const choices = Array.isArray(page.choices) ? page.choices.filter((c: unknown) => typeof c === 'string' && c.trim()).slice(0, 3) : [];
+  return { text: page.text.trim(), choices, ending: page.ending === true };
+}
+
+function parseReferenceSheet(raw: string | undefined): ReferenceSheet {
+  let sheet: ReferenceSheet | null = null;
+  try {
+    sheet = normalizeReferenceSheet(JSON.parse(raw || ''));
+  } catch {}
+  if (!sheet) throw new Error('The model returned an unreadable reference sheet.');
+  return sheet;
+}
+
+/** The pieces of one Live API message, in the order the client should handle them. */
+function liveEvents(message: LiveServerMessage): LiveEvent[] {
+  const content = message.serverContent;
+  if (!content) return [];
+  const events: LiveEvent[] = [];
+  if (content.interrupted) events.push({ type: 'interrupted' });
+  if (content.inputTranscription?.text) events.push({ type: 'input', text: content.inputTranscription.text });
+  for (const part of content.modelTurn?.parts || []) {
+    if (part.inlineData?.data && part.inlineData.mimeType?.startsWith('audio/')) {
+      events.push({ type: 'audio', data: part.inlineData.data, mimeType: part.inlineData.mimeType });
+    }
+  }
+  if (content.outputTranscription?.text) events.push({ type: 'output', text: content.outputTranscription.text });
+  if (content.turnComplete) events.push({ type: 'turnComplete' });
+  return events;
+}
+
+export function createGeminiProvider({ apiKey, baseUrl }: GeminiProviderOptions): ModelProvider {
+  // made on first use, so a build or a server without a key stays quiet until a model is called
+  let client: GoogleGenAI | null = null;
+  const requireClient = () => {
+    if (!apiKey) throw new ProviderConfigError('GEMINI_API_KEY is not set on the server.');
+    client ??= new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+    return client;
+  };
+
+  return {
+    name: 'gemini',
+
+    async describeImage({ image, prompt }, signal) {
+      const ai = requireClient();
+      const response = await upstream(() =>
+        ai.models.generateContent({
+          model: DESCRIBE_MODEL,
+          contents: { parts: [image, { text: prompt }] },
+          config: { safetySettings: SAFETY_SETTINGS, abortSignal: signal },
+        })
+      );
+      assertNotBlocked(response);
+      return response.text?.trim() ?? '';
+    },
+
+    async describeReferenceSheet({ image, prompt }, signal) {
+      const ai = requireClient();
+      const response = await upstream(() =>
+        ai.models.generateContent({
+          model: DESCRIBE_MODEL,
+          contents: { parts: [image, { text: prompt }] },
+          config: { responseMimeType: 'application/json', responseSchema: REFERENCE_SHEET_SCHEMA, safetySettings: SAFETY_SETTINGS, abortSignal: signal },
+        })
+      );
+      assertNotBlocked(response);
+      return parseReferenceSheet(response.text);
+    },
+
+    async replyToCommand({ image, history, prompt, companions, self }, signal) {
+      const ai = requireClient();
+      const response = await upstream(() =>
+        ai.models.generateContent({
+          model: REPLY_MODEL,
+          contents: buildConversationContents(image, history, prompt, { companions, self }),
+          config: { responseMimeType: 'application/json', responseSchema: REPLY_SCHEMA, safetySettings: SAFETY_SETTINGS, abortSignal: signal },
+        })
+      );
+      assertNotBlocked(response);
+      return response.text?.trim() ?? '';
+    },
+
+    async *streamReply({ image, history, prompt, companions, self }, signal) {
+      const ai = requireClient();
+      const stream = await upstream(() =>
+        ai.models.generateContentStream({
+          model: REPLY_MODEL,
+          contents: buildConversationContents(image, history, prompt, { companions, self }),
+          config: { responseMimeType: 'application/json', responseSchema: REPLY_SCHEMA, safetySettings: SAFETY_SETTINGS, abortSignal: signal },
+        })
+      );
+      try {
+        for await (const chunk of stream) {
+          assertNotBlocked(chunk);
+          const text = chunk.text;
+          if (text) yield text;
+        }
+      } catch (err) {
+        throw upstreamError(err);
+      }
+    },
+
+    async generateActionImage({ image, history, prompt, companions, self }, signal) {
+      const ai = requireClient();
+      const response = await upstream(() =>
+        ai.models.generateContent({
+          model: IMAGE_MODEL,
+          contents: buildConversationContents(image, history, prompt, { companions, self }),
+          config: { responseModalities: [Modality.IMAGE, Modality.TEXT], safetySettings: SAFETY_SETTINGS, abortSignal: signal },
+        })
+      );
+      assertNotBlocked(response);
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData?.data) return { data: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' };
+      }
+      return null;
+    },
+
+    async writeStoryPage({ image, prompt }, signal) {
+      const ai = requireClient();
+      const response = await upstream(() =>
+        ai.models.generateContent({
+          model: REPLY_MODEL,
+          contents: { parts: [image, { text: prompt }] },
+          config: { responseMimeType: 'application/json', responseSchema: STORY_PAGE_SCHEMA, safetySettings: SAFETY_SETTINGS, abortSignal: signal },
+        })
+      );
+      assertNotBlocked(response);
+      return parseStoryPage(response.text);
+    },
+
+    // Live sessions take no safety settings; the persona instructions and the client's word filter apply instead
+    async connectLive({ instructions, voiceName, languageCode }, onEvent) {
+      const ai = requireClient();
+      const session = await ai.live.connect({
+        model: LIVE_MODEL,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          systemInstruction: instructions,
+          speechConfig: { languageCode, voiceConfig: voiceName ? { prebuiltVoiceConfig: { voiceName } } : undefined },
+          // both sides come back as text: the child's words for the parent's filter, the toy's for the chat
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+        },
+        callbacks: {
+          onmessage: (message) => liveEvents(message).forEach(onEvent),
+          onerror: (e) => onEvent({ type: 'closed', reason: e.message || 'error' }),
+          onclose: (e) => onEvent({ type: 'closed', reason: e.reason }),
+        },
+      });
+      return {
+        sendAudio: (data, mimeType) => session.sendRealtimeInput({ audio: { data, mimeType } }),
+        sendText: (text) => session.sendClientContent({ turns: text, turnComplete: true }),
+        endAudio: () => session.sendRealtimeInput({ audioStreamEnd: true }),
+        close: () => session.close(),
+      };
+    },
+  };
+}
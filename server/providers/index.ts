@@ -0,0 +1,39 @@
+/**
+ * Picks the model provider from config:
+ *   TOY_MODEL_PROVIDER=gemini (default) | mock
+ */
+
+import { createGeminiProvider } from './gemini';
+import { createMockProvider } from './mock';
+import type { ModelProvider } from './types';
+
+export type { ConversationRequest, DescribeImageRequest, GeneratedImage, LiveEvent, LiveSession, LiveSessionRequest, ModelProvider, ReferenceSheet, StoryPage, StoryPageRequest } from './types';
+export { ProviderConfigError, ProviderSafetyError, ProviderUpstreamError } from './types';
+
+export type ProviderConfig = {
+  kind?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  mockDelayMs?: number;
+};
+
+export function createModelProvider({ kind = 'gemini', apiKey = '', baseUrl, mockDelayMs }: ProviderConfig): ModelProvider {
+  switch (kind) {
+    case 'mock':
+      return createMockProvider({ delayMs: mockDelayMs });
+    case 'gemini':
+      return createGeminiProvider({ apiKey, baseUrl });
+    default:
+      throw new Error(`Unknown TOY_MODEL_PROVIDER "${kind}" (expected "gemini" or "mock").`);
+  }
+}
+
+/** Reads the provider settings from an env-like record. */
+export function providerConfigFromEnv(env: Record<string, string | undefined>): ProviderConfig {
+  return {
+    kind: env.TOY_MODEL_PROVIDER || 'gemini',
+    apiKey: env.GEMINI_API_KEY || '',
+    baseUrl: env.GEMINI_BASE_URL || undefined,
+    mockDelayMs: Number(env.MOCK_DELAY_MS) || 0,
+  };
+}
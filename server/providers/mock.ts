@@ -0,0 +1,232 @@
+/**
+ * Deterministic offline provider: canned text and placeholder SVG images.
+ * The same request always gets the same answer, so demos and automated
+ * checks do not depend on network or quota.
+ */
+
+import { EMOTIONS } from '../../lib/toyReply';
+import type { ToyReply } from '../../lib/toyReply';
+import type { LiveEvent, ModelProvider } from './types';
+
+export type MockProviderOptions = {
+  /** Artificial latency per call, to exercise spinners and cancellation. */
+  delayMs?: number;
+};
+
+const DESCRIPTIONS = [
+  'A cuddly little friend with a big, happy smile!',
+  'A brave and colourful toy who loves adventures!',
+  'A soft, sleepy buddy who is great at hugs!',
+];
+
+const SHEETS = [
+  { shape: 'round and squishy, with a big head and short arms', colours: ['honey brown', 'cream'], materials: ['plush'], features: ['stitched smile', 'round ears'] },
+  { shape: 'tall and boxy, with square hands', colours: ['bright red', 'silver'], materials: ['plastic'], features: ['antenna on top', 'dial on the tummy'] },
+  { shape: 'long and floppy, with dangly legs', colours: ['pale blue', 'white'], materials: ['knitted wool'], features: ['one floppy ear', 'button eyes'] },
+];
+
+const REPLIES = [
+  "Wheee! That was so much fun! Let's do it again!",
+  "Ooh, I love that idea! Look at me go!",
+  "Hee hee, you're the best playmate ever!",
+  "Hmm, let me think... Okay, I did it! Ta-da!",
+  "Yay! My tummy is full of giggles now!",
+];
+
+const FOLLOW_UPS = [
+  ['Dance again', 'Tell me a joke'],
+  ['Jump really high', 'Sing a song'],
+  ['Spin around', 'Wave hello'],
+];
+
+const STORY_PAGES = [
+  'Once upon a time, a little toy woke up and found a shiny map under the bed.',
+  'The map led across the garden, past the sleepy snail and the giggling flowers.',
+  'A friendly bird landed nearby and offered to help find the treasure.',
+  'Together they followed the dotted line all the way to the old oak tree.',
+  'Inside a hollow in the tree was a box full of warm, sparkly hugs.',
+];
+
+const STORY_CHOICES = [
+  ['Climb the tall tree', 'Follow the butterfly'],
+  ['Knock on the tiny door', 'Sing a loud song'],
+  ['Share the snack', 'Build a pillow fort'],
+];
+
+const COLOURS = ['#FDE68A', '#BFDBFE', '#FBCFE8', '#BBF7D0', '#DDD6FE'];
+
+const SPEECH_RATE = 24_000; // Hz, like the Live API's output audio
+const SPEECH_CHUNK_MS = 100;
+const LIVE_PAUSE_MS = 600; // quiet after speech that counts as the end of what the child said
+const SPEECH_RMS = 500; // PCM16 level above which a chunk counts as someone talking
+
+// FNV-1a, good enough to spread canned answers
+function hash(text: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** A structured reply (lib/toyReply.ts); the action is the first word of the child's command. */
+function cannedReply(historyLength: number, prompt: string): ToyReply {
+  const seed = hash(`${historyLength}:${prompt}`);
+  const command = /command is: "([^"]*)"/.exec(prompt)?.[1] ?? '';
+  return {
+    reply: REPLIES[seed % REPLIES.length],
+    emotion: EMOTIONS[seed % EMOTIONS.length],
+    action: command.split(/\s+/)[0].toLowerCase(),
+    declined: false,
+    followUps: FOLLOW_UPS[seed % FOLLOW_UPS.length],
+  };
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  if (!ms) return Promise.resolve();
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason ?? new Error('aborted'));
+    });
+  });
+}
+
+function placeholderSvg(seed: number) {
+  const colour = COLOURS[seed % COLOURS.length];
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">
+<rect width="512" height="512" rx="48" fill="${colour}"/>
+<circle cx="256" cy="236" r="120" fill="#fff" stroke="#4F46E5" stroke-width="12"/>
+<circle cx="212" cy="212" r="14" fill="#1F2937"/><circle cx="300" cy="212" r="14" fill="#1F2937"/>
+<path d="M196 270 q60 50 120 0" fill="none" stroke="#EC4899" stroke-width="12" stroke-linecap="round"/>
+<text x="256" y="440" font-family="sans-serif" font-size="32" text-anchor="middle" fill="#4F46E5">pretend picture #${seed % 1000}</text>
+</svg>`;
+  return Buffer.from(svg, 'utf8').toString('base64');
+}
+
+/**
+ * Babble that sounds like speech: one soft gliding tone per syllable of `text`, as base64
+ * PCM16 chunks of SPEECH_CHUNK_MS. Also used by the fake Gemini Live server.
+ */
+export function pretendSpeech(text: string): string[] {
+  const syllables = Math.max(2, Math.round(text.length / 3));
+  const perSyllable = Math.round(SPEECH_RATE * 0.16);
+  const samples = new Int16Array(syllables * perSyllable);
+  let phase = 0;
+  for (let s = 0; s < syllables; s++) {
+    const pitch = 220 + ((hash(`${text}:${s}`) % 8) * 25);
+    for (let i = 0; i < perSyllable; i++) {
+      const envelope = Math.sin((Math.PI * i) / perSyllable);
+      phase += (2 * Math.PI * (pitch + i / 40)) / SPEECH_RATE;
+      samples[s * perSyllable + i] = Math.round(Math.sin(phase) * envelope * 6000);
+    }
+  }
+  const bytes = Buffer.from(samples.buffer);
+  const chunkBytes = (SPEECH_RATE * 2 * SPEECH_CHUNK_MS) / 1000;
+  const chunks: string[] = [];
+  for (let at = 0; at < bytes.length; at += chunkBytes) chunks.push(bytes.subarray(at, at + chunkBytes).toString('base64'));
+  return chunks;
+}
+
+/** Whether a base64 PCM16 chunk is loud enough to be someone talking. */
+export function isSpeechChunk(data: string): boolean {
+  const bytes = Buffer.from(data, 'base64');
+  const samples = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.length / 2));
+  if (!samples.length) return false;
+  let sum = 0;
+  for (const s of samples) sum += s * s;
+  return Math.sqrt(sum / samples.length) > SPEECH_RMS;
+}
+
+export function createMockProvider({ delayMs = 0 }: MockProviderOptions = {}): ModelProvider {
+  return {
+    name: 'mock',
+
+    async describeImage({ image }, signal) {
+      await wait(delayMs, signal);
+      return DESCRIPTIONS[hash(image.inlineData.data.slice(0, 2048)) % DESCRIPTIONS.length];
+    },
+
+    async describeReferenceSheet({ image }, signal) {
+      await wait(delayMs, signal);
+      return SHEETS[hash(image.inlineData.data.slice(0, 2048)) % SHEETS.length];
+    },
+
+    async replyToCommand({ history, prompt }, signal) {
+      await wait(delayMs, signal);
+      return JSON.stringify(cannedReply(history.length, prompt));
+    },
+
+    // the JSON in small pieces, like a streamed model answer
+    async *streamReply({ history, prompt }, signal) {
+      const raw = JSON.stringify(cannedReply(history.length, prompt));
+      const pieces = raw.match(/[\s\S]{1,12}/g) || [];
+      for (const piece of pieces) {
+        await wait(delayMs / pieces.length, signal);
+        yield piece;
+      }
+    },
+
+    async generateActionImage({ history, prompt }, signal) {
+      await wait(delayMs, signal);
+      return { data: placeholderSvg(hash(`${history.length}:${prompt}`)), mimeType: 'image/svg+xml' };
+    },
+
+    // follows the page numbering and branch instructions in the story prompt (lib/prompts.ts)
+    async writeStoryPage({ prompt }, signal) {
+      await wait(delayMs, signal);
+      const [, page = '1', total = '5'] = /page (\d+) of (\d+)/i.exec(prompt) || [];
+      const ending = Number(page) >= Number(total);
+      const seed = hash(prompt);
+      return {
+        text: ending ? 'And they all went home, happy and sleepy. The end!' : STORY_PAGES[(Number(page) - 1 + seed) % STORY_PAGES.length],
+        choices: !ending && /branch point/i.test(prompt) ? STORY_CHOICES[seed % STORY_CHOICES.length] : [],
+        ending,
+      };
+    },
+
+    // answers each typed command, or each stretch of audio once it goes quiet, with a canned reply
+    async connectLive({ instructions }, onEvent) {
+      await wait(delayMs);
+      let closed = false;
+      let heardSpeech = false;
+      let pauseTimer: ReturnType<typeof setTimeout> | undefined;
+      let turns = 0;
+      const emit = (event: LiveEvent) => {
+        if (!closed) onEvent(event);
+      };
+      const answer = (heard: string | null) => {
+        const reply = REPLIES[hash(`${turns++}:${instructions}:${heard}`) % REPLIES.length];
+        if (heard) emit({ type: 'input', text: heard });
+        pretendSpeech(reply).forEach((data) => emit({ type: 'audio', data, mimeType: `audio/pcm;rate=${SPEECH_RATE}` }));
+        emit({ type: 'output', text: reply });
+        emit({ type: 'turnComplete' });
+      };
+      const answerAudio = () => {
+        clearTimeout(pauseTimer);
+        pauseTimer = undefined;
+        if (!heardSpeech) return;
+        heardSpeech = false;
+        answer('(pretend words)');
+      };
+      return {
+        sendAudio(data) {
+          if (isSpeechChunk(data)) {
+            heardSpeech = true;
+            clearTimeout(pauseTimer);
+            pauseTimer = undefined;
+          } else if (heardSpeech && !pauseTimer) pauseTimer = setTimeout(answerAudio, LIVE_PAUSE_MS);
+        },
+        sendText: (text) => setTimeout(() => answer(null), delayMs),
+        endAudio: answerAudio,
+        close() {
+          clearTimeout(pauseTimer);
+          emit({ type: 'closed' });
+          closed = true;
+        },
+      };
+    },
+  };
+}
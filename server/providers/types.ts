@@ -0,0 +1,99 @@
+/**
+ * Model provider contract used by the toy API.
+ * Implementations: Gemini (real model) and mock (deterministic, offline).
+ */
+
+import type { ChatTurn, Companion, InlineImagePart } from '../../lib/conversation';
+import type { ReferenceSheet } from '../../lib/referenceSheet';
+
+export type { ReferenceSheet };
+
+export type GeneratedImage = { data: string; mimeType: string };
+
+export type DescribeImageRequest = { image: InlineImagePart; prompt: string };
+
+export type ConversationRequest = {
+  image: InlineImagePart; // the toy photo
+  history: ChatTurn[];
+  prompt: string;
+  companions?: Companion[]; // the other toys on a playdate
+  self?: string; // which toy is answering, see ConversationOptions
+};
+
+/** The prompt carries the story so far; the photo keeps the toy recognisable. */
+export type StoryPageRequest = { image: InlineImagePart; prompt: string };
+
+export type StoryPage = {
+  text: string;
+  choices: string[]; // empty unless this page ends at a branch point
+  ending: boolean;
+};
+
+/** A realtime voice conversation: the child's microphone audio in, the toy's voice out. */
+export type LiveSessionRequest = {
+  instructions: string; // the toy's persona, built by the client (lib/prompts.ts)
+  voiceName?: string; // a prebuilt voice, see lib/liveVoice.ts
+  languageCode?: string; // BCP 47, e.g. 'es-ES'
+};
+
+export type LiveEvent =
+  | { type: 'audio'; data: string; mimeType: string } // base64 PCM, e.g. 'audio/pcm;rate=24000'
+  | { type: 'input'; text: string } // transcript of what the child said, in pieces
+  | { type: 'output'; text: string } // transcript of what the toy says, in pieces
+  | { type: 'interrupted' } // the child talked over the toy; drop queued audio
+  | { type: 'turnComplete' }
+  | { type: 'closed'; reason?: string };
+
+export interface LiveSession {
+  /** base64 PCM16 mono, `mimeType` like 'audio/pcm;rate=16000'. */
+  sendAudio(data: string, mimeType: string): void;
+  /** A typed command, answered in voice. */
+  sendText(text: string): void;
+  /** The microphone went quiet for good (muted or stopped). */
+  endAudio(): void;
+  close(): void;
+}
+
+export interface ModelProvider {
+  readonly name: string;
+  describeImage(req: DescribeImageRequest, signal?: AbortSignal): Promise<string>;
+  /** Structured looks of the toy in the photo, for keeping generated pictures true to it. */
+  describeReferenceSheet(req: DescribeImageRequest, signal?: AbortSignal): Promise<ReferenceSheet>;
+  /** The raw reply, normally JSON following lib/toyReply.ts; plain text is accepted too. */
+  replyToCommand(req: ConversationRequest, signal?: AbortSignal): Promise<string>;
+  /** Same as replyToCommand, yielding raw chunks as the model produces them. */
+  streamReply(req: ConversationRequest, signal?: AbortSignal): AsyncIterable<string>;
+  /** Resolves to null when the model chose not to draw anything. */
+  generateActionImage(req: ConversationRequest, signal?: AbortSignal): Promise<GeneratedImage | null>;
+  writeStoryPage(req: StoryPageRequest, signal?: AbortSignal): Promise<StoryPage>;
+  /** Opens a realtime voice session; `onEvent` gets everything the model sends until 'closed'. */
+  connectLive(req: LiveSessionRequest, onEvent: (event: LiveEvent) => void): Promise<LiveSession>;
+}
+
+/** Raised when the model refused the request or its output for safety reasons. */
+export class ProviderSafetyError extends Error {
+  constructor(public reason: string) {
+    super(`The model blocked this request (${reason}).`);
+    this.name = 'ProviderSafetyError';
+  }
+}
+
+/** Raised when the model service answered with an HTTP error (quota, bad key, outage). */
+export class ProviderUpstreamError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public retryAfterMs?: number // how long the service asked us to wait
+  ) {
+    super(message);
+    this.name = 'ProviderUpstreamError';
+  }
+}
+
+/** Raised when a provider cannot run at all (e.g. missing API key). */
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderConfigError';
+  }
+}
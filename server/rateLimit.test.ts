@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimit';
+
+describe('createRateLimiter', () => {
+  it('allows a burst of `capacity` requests, then names the wait', () => {
+    const limiter = createRateLimiter({ capacity: 3, refillPerMinute: 60 });
+    for (let i = 0; i < 3; i++) expect(limiter.take('a', 0)).toEqual({ ok: true, retryAfterMs: 0 });
+    expect(limiter.take('a', 0)).toEqual({ ok: false, retryAfterMs: 1000 });
+  });
+
+  it('refills over time, up to capacity', () => {
+    const limiter = createRateLimiter({ capacity: 2, refillPerMinute: 60 });
+    limiter.take('a', 0);
+    limiter.take('a', 0);
+    expect(limiter.take('a', 500).ok).toBe(false);
+    expect(limiter.take('a', 1000).ok).toBe(true);
+    expect(limiter.take('a', 1000).ok).toBe(false);
+    // a long pause doesn't bank more than `capacity`
+    expect(limiter.take('a', 600_000).ok).toBe(true);
+    expect(limiter.take('a', 600_000).ok).toBe(true);
+    expect(limiter.take('a', 600_000).ok).toBe(false);
+  });
+
+  it('keeps a bucket per client', () => {
+    const limiter = createRateLimiter({ capacity: 1, refillPerMinute: 1 });
+    expect(limiter.take('a', 0).ok).toBe(true);
+    expect(limiter.take('a', 0).ok).toBe(false);
+    expect(limiter.take('b', 0).ok).toBe(true);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Per-client token bucket rate limiter (in-memory, single process).
+ * Each client gets `capacity` requests up front, refilled at `refillPerMinute`.
+ */
+
+export type RateLimitOptions = {
+  capacity: number;
+  refillPerMinute: number;
+};
+
+/** `retryAfterMs` is 0 when the request is allowed. */
+export type RateLimitResult = { ok: boolean; retryAfterMs: number };
+
+type Bucket = { tokens: number; updatedAt: number };
+
+const PRUNE_THRESHOLD = 1000; // buckets kept before idle ones are swept
+
+export function createRateLimiter({ capacity, refillPerMinute }: RateLimitOptions) {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = refillPerMinute / 60_000;
+
+  const refill = (bucket: Bucket, now: number) => {
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+  };
+
+  const prune = (now: number) => {
+    for (const [key, bucket] of buckets) {
+      refill(bucket, now);
+      if (bucket.tokens >= capacity) buckets.delete(key);
+    }
+  };
+
+  return {
+    take(clientKey: string, now = Date.now()): RateLimitResult {
+      if (buckets.size > PRUNE_THRESHOLD) prune(now);
+      let bucket = buckets.get(clientKey);
+      if (!bucket) {
+        bucket = { tokens: capacity, updatedAt: now };
+        buckets.set(clientKey, bucket);
+      }
+      refill(bucket, now);
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { ok: true, retryAfterMs: 0 };
+      }
+      return { ok: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+    },
+  };
+}
@@ -0,0 +1,140 @@
+import { createServer, request } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createMockProvider } from './providers/mock';
+import { ProviderUpstreamError } from './providers';
+import type { ModelProvider } from './providers';
+import { createToyApi } from './toyApi';
+import type { ToyApiOptions } from './toyApi';
+
+const IMAGE = { inlineData: { data: 'aGVsbG8=', mimeType: 'image/png' } };
+
+let server: Server | undefined;
+let base = '';
+
+afterEach(async () => {
+  await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+  server = undefined;
+});
+
+/** Serves the API on a free port; it answers like server/index.ts does. */
+async function start(options: Partial<ToyApiOptions> = {}) {
+  const toyApi = createToyApi({ provider: createMockProvider(), ...options });
+  server = createServer((req, res) => void toyApi(req, res));
+  await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function post(path: string, body: unknown) {
+  return fetch(`${base}${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+}
+
+/** A raw request, for paths fetch() would tidy up. */
+function rawGet(path: string) {
+  return new Promise<{ status: number; body: any }>((resolve, reject) => {
+    request(`${base}/`, { path }, (res) => {
+      let text = '';
+      res.on('data', (chunk) => (text += chunk));
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body: JSON.parse(text) }));
+    })
+      .on('error', reject)
+      .end();
+  });
+}
+
+/** The mock provider with one method swapped out. */
+function providerWith(overrides: Partial<ModelProvider>): ModelProvider {
+  return { ...createMockProvider(), ...overrides };
+}
+
+describe('toy API', () => {
+  it('describes a toy and answers a command', async () => {
+    await start();
+    const described = await post('/api/describe-toy', { image: IMAGE });
+    expect(described.status).toBe(200);
+    expect(typeof (await described.json()).text).toBe('string');
+
+    const command = await (await post('/api/toy-command', { image: IMAGE, history: [], prompt: 'The command is: "dance"' })).json();
+    expect(command.reply).toMatchObject({ action: 'dance' });
+    expect(command.text).toBe(command.reply.reply);
+  });
+
+  it('streams the reply as NDJSON', async () => {
+    await start();
+    const res = await post('/api/toy-command/stream', { image: IMAGE, prompt: 'The command is: "jump"' });
+    const lines = (await res.text()).trim().split('\n').map((line) => JSON.parse(line));
+    const text = lines.filter((l) => l.type === 'text').map((l) => l.text).join('');
+    expect(lines.at(-2)).toMatchObject({ type: 'reply', reply: { reply: text, action: 'jump' } });
+    expect(lines.at(-1)).toEqual({ type: 'done' });
+  });
+
+  it('answers a malformed URL with 400 and keeps serving', async () => {
+    await start();
+    expect(await rawGet('//')).toEqual({ status: 400, body: { error: { code: 'bad_request', message: 'Invalid request path.' } } });
+    expect((await rawGet('/api/health')).body).toEqual({ ok: true, provider: 'mock' });
+  });
+
+  it('rejects bad bodies and methods', async () => {
+    await start();
+    expect((await post('/api/describe-toy', [])).status).toBe(400);
+    expect((await post('/api/describe-toy', { image: { inlineData: { data: 'x', mimeType: 'text/plain' } } })).status).toBe(400);
+    expect((await post('/api/toy-command', { image: IMAGE, history: 'all of it', prompt: 'hi' })).status).toBe(400);
+    expect((await fetch(`${base}/api/describe-toy`)).status).toBe(405);
+    expect((await post('/api/nope', {})).status).toBe(404);
+  });
+
+  it('limits each client with 429 and Retry-After', async () => {
+    await start({ rateLimit: { capacity: 1, refillPerMinute: 1 } });
+    expect((await post('/api/describe-toy', { image: IMAGE })).status).toBe(200);
+    const limited = await post('/api/describe-toy', { image: IMAGE });
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('60');
+    expect((await limited.json()).error.code).toBe('rate_limited');
+  });
+
+  it('passes the model quota on as 429 with its retry delay', async () => {
+    await start({
+      provider: providerWith({
+        describeImage: async () => {
+          throw new ProviderUpstreamError(429, 'Resource exhausted', 2000);
+        },
+      }),
+    });
+    const res = await post('/api/describe-toy', { image: IMAGE });
+    expect(res.status).toBe(429);
+    expect(res.headers.get('Retry-After')).toBe('2');
+    expect((await res.json()).error.code).toBe('quota_exceeded');
+  });
+
+  it('answers a request the model refused with 502, not a retryable 503', async () => {
+    await start({
+      provider: providerWith({
+        describeImage: async () => {
+          throw new ProviderUpstreamError(400, 'API key not valid');
+        },
+      }),
+    });
+    const res = await post('/api/describe-toy', { image: IMAGE });
+    expect(res.status).toBe(502);
+    expect((await res.json()).error.code).toBe('upstream_rejected');
+  });
+
+  it('cuts an oversized history down to its newest turns', async () => {
+    let received: unknown[] = [];
+    const mock = createMockProvider();
+    await start({
+      provider: providerWith({
+        replyToCommand: (req, signal) => {
+          received = req.history;
+          return mock.replyToCommand(req, signal);
+        },
+      }),
+    });
+    const history = Array.from({ length: 250 }, (_, i) => ({ id: String(i), role: i % 2 ? 'toy' : 'child', text: `turn ${i}`, at: i }));
+    const res = await post('/api/toy-command', { image: IMAGE, history, prompt: 'The command is: "wave"' });
+    expect(res.status).toBe(200);
+    expect(received).toHaveLength(200);
+    expect(received[0]).toMatchObject({ id: '50', text: 'turn 50' });
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * Model proxy for the toy companion.
+ * - Holds the API key (inside the provider); the browser only talks to these endpoints
+ * - POST /api/describe-toy  { image, language? }                       -> { text }
+ * - POST /api/reference-sheet { image, description? }                  -> { sheet: { shape, colours, materials, features } }
+ * - POST /api/toy-command   { image, history, prompt, imagePrompt? }   -> { text, reply, image }
+ * - POST /api/toy-command/stream { image, history, prompt }            -> NDJSON text chunks, then the reply
+ *   (`reply` is the structured answer from lib/toyReply.ts; `text` is its reply text)
+ * - POST /api/action-image  { image, history, prompt }                 -> { image }
+ *   (conversation routes also take `companions` [{ name, image }] and `self` for playdates)
+ * - POST /api/story-page    { image, prompt }                          -> { page: { text, choices, ending } }
+ * - WebSocket /api/live for realtime voice lives next door (server/liveApi.ts)
+ * - Per-client rate limiting with Retry-After on 429
+ * - Errors carry a machine-readable `code` (rate_limited, quota_exceeded,
+ *   safety_blocked, upstream_error, ...) for the client's request runner
+ * - Upstream calls are aborted when the browser goes away
+ *
+ * Works as connect-style middleware (Vite dev/preview) or inside a plain
+ * node:http server (see server/index.ts).
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ChatTurn, Companion, InlineImagePart } from '../lib/conversation';
+import { parseToyReply, replyTextSoFar } from '../lib/toyReply';
+import { ProviderConfigError, ProviderSafetyError, ProviderUpstreamError } from './providers';
+import type { GeneratedImage, ModelProvider } from './providers';
+import { createRateLimiter } from './rateLimit';
+import type { RateLimitOptions } from './rateLimit';
+
+// ---------- Configuration ----------
+const DESCRIBE_PROMPT = 'Describe this toy in a few simple, friendly words for a child.';
+const REFERENCE_SHEET_PROMPT = `Make a reference sheet for this toy so an illustrator can draw it consistently.
+List its overall shape and proportions, its main colours (most prominent first, specific names like "mustard yellow"),
+its materials, and the distinctive features that make it recognisable (markings, patches, accessories, eye and nose style).
+Only list what is visible in the photo. Write in English, a few words per item.`;
+const MAX_DESCRIPTION_CHARS = 2000;
+const MAX_BODY_BYTES = 12 * 1024 * 1024; // photos + a few generated images in history
+const MAX_HISTORY_TURNS = 200; // older turns are dropped; the client already sends fewer
+const MAX_PROMPT_CHARS = 4000;
+const MAX_COMPANIONS = 3;
+const DEFAULT_RATE_LIMIT: RateLimitOptions = { capacity: 10, refillPerMinute: 20 };
+
+export type ToyApiOptions = {
+  provider: ModelProvider;
+  rateLimit?: RateLimitOptions;
+  /** Use the first X-Forwarded-For address as the client key (only behind a trusted proxy). */
+  trustProxy?: boolean;
+};
+
+type Next = (err?: unknown) => void;
+
+class HttpError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// ---------- Request helpers ----------
+function readJsonBody(req: IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'payload_too_large', 'Request body is too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      let body: unknown;
+      try {
+        body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+      } catch {
+        reject(new HttpError(400, 'bad_request', 'Request body must be JSON.'));
+        return;
+      }
+      if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        reject(new HttpError(400, 'bad_request', 'Request body must be a JSON object.'));
+        return;
+      }
+      resolve(body);
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, err: HttpError) {
+  const headers: Record<string, string> = {};
+  if (err.retryAfterMs !== undefined) headers['Retry-After'] = String(Math.max(1, Math.ceil(err.retryAfterMs / 1000)));
+  sendJson(res, err.status, { error: { code: err.code, message: err.message } }, headers);
+}
+
+export function clientKey(req: IncomingMessage, trustProxy: boolean) {
+  if (trustProxy) {
+    const fwd = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(fwd) ? fwd[0] : fwd)?.split(',')[0]?.trim();
+    if (first) return first;
+  }
+  return req.socket.remoteAddress || 'unknown';
+}
+
+// ---------- Validation ----------
+function parseImagePart(value: any): InlineImagePart {
+  const data = value?.inlineData?.data;
+  const mimeType = value?.inlineData?.mimeType;
+  if (typeof data !== 'string' || !data || typeof mimeType !== 'string' || !mimeType.startsWith('image/')) {
+    throw new HttpError(400, 'bad_request', 'An inline image part is required.');
+  }
+  return { inlineData: { data, mimeType } };
+}
+
+function parseHistory(value: any): ChatTurn[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new HttpError(400, 'bad_request', 'Invalid conversation history.');
+  return value.slice(-MAX_HISTORY_TURNS).map((t: any): ChatTurn => {
+    if (!t || typeof t.text !== 'string' || (t.role !== 'child' && t.role !== 'toy')) {
+      throw new HttpError(400, 'bad_request', 'Invalid conversation turn.');
+    }
+    const base = { id: String(t.id ?? ''), text: t.text, at: Number(t.at) || 0 };
+    if (t.role === 'child') return { ...base, role: 'child' };
+    return {
+      ...base,
+      role: 'toy',
+      imageUrl: typeof t.imageUrl === 'string' ? t.imageUrl : undefined,
+      speakerId: typeof t.speakerId === 'string' ? t.speakerId : undefined,
+      speakerName: typeof t.speakerName === 'string' ? t.speakerName.slice(0, 40) : undefined,
+    };
+  });
+}
+
+/** The other toys on a playdate: a short name and a photo each. */
+function parseCompanions(value: any): Companion[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_COMPANIONS) throw new HttpError(400, 'bad_request', 'Invalid companions.');
+  return value.map((c: any) => {
+    if (typeof c?.name !== 'string' || !c.name.trim() || c.name.length > 40) throw new HttpError(400, 'bad_request', 'Invalid companion name.');
+    return { name: c.name.trim(), image: parseImagePart(c.image) };
+  });
+}
+
+function parseSelf(value: any): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string' || value.length > 100) throw new HttpError(400, 'bad_request', 'Invalid speaker.');
+  return value;
+}
+
+/** Fields shared by every conversation route. */
+function parseConversation(body: any) {
+  return {
+    image: parseImagePart(body.image),
+    history: parseHistory(body.history),
+    prompt: parsePrompt(body.prompt),
+    companions: parseCompanions(body.companions),
+    self: parseSelf(body.self),
+  };
+}
+
+/** Optional language name ("Spanish") the description should be written in. */
+function parseLanguage(value: any): string | null {
+  if (value === undefined) return null;
+  if (typeof value !== 'string' || !/^[A-Za-z][A-Za-z ()-]{1,39}$/.test(value)) throw new HttpError(400, 'bad_request', 'Invalid language.');
+  return value;
+}
+
+function parseDescription(value: any): string {
+  if (value === undefined) return '';
+  if (typeof value !== 'string' || value.length > MAX_DESCRIPTION_CHARS) throw new HttpError(400, 'bad_request', 'Invalid description.');
+  return value.trim();
+}
+
+function parsePrompt(value: any, optional = false): string {
+  if (optional && value === undefined) return '';
+  if (typeof value !== 'string' || !value.trim() || value.length > MAX_PROMPT_CHARS) {
+    throw new HttpError(400, 'bad_request', 'A prompt is required.');
+  }
+  return value;
+}
+
+// ---------- Upstream errors ----------
+function toHttpError(err: any): HttpError {
+  if (err instanceof HttpError) return err;
+  if (err instanceof ProviderConfigError) return new HttpError(500, 'server_misconfigured', err.message);
+  if (err instanceof ProviderSafetyError) return new HttpError(422, 'safety_blocked', err.message);
+  if (err instanceof ProviderUpstreamError && err.status === 429) {
+    return new HttpError(429, 'quota_exceeded', 'The AI model quota or rate limit was reached.', err.retryAfterMs);
+  }
+  if (err instanceof ProviderUpstreamError && err.status >= 400 && err.status < 500) {
+    return new HttpError(502, 'upstream_rejected', 'The AI model rejected the request.');
+  }
+  // 5xx or no status at all (DNS, reset connection): worth retrying
+  return new HttpError(503, 'upstream_error', 'The AI model is unavailable right now.');
+}
+
+// ---------- Handler ----------
+export function createToyApi({ provider, rateLimit = DEFAULT_RATE_LIMIT, trustProxy = false }: ToyApiOptions) {
+  const limiter = createRateLimiter(rateLimit);
+
+  const describeToy = async (body: any, signal: AbortSignal) => {
+    const image = parseImagePart(body.image);
+    const language = parseLanguage(body.language);
+    const prompt = language ? `${DESCRIBE_PROMPT} Answer in ${language}.` : DESCRIBE_PROMPT;
+    return { text: await provider.describeImage({ image, prompt }, signal) };
+  };
+
+  // the description written for the child goes along as a hint; the photo is what counts
+  const referenceSheet = async (body: any, signal: AbortSignal) => {
+    const image = parseImagePart(body.image);
+    const description = parseDescription(body.description);
+    const prompt = description ? `${REFERENCE_SHEET_PROMPT}\nThe toy was described as: "${description}"` : REFERENCE_SHEET_PROMPT;
+    return { sheet: await provider.describeReferenceSheet({ image, prompt }, signal) };
+  };
+
+  // reply text and action image run side by side; a failed picture never loses the reply
+  const toyCommand = async (body: any, signal: AbortSignal) => {
+    const conversation = parseConversation(body);
+    const imagePrompt = parsePrompt(body.imagePrompt, true);
+    const [raw, picture] = await Promise.all([
+      provider.replyToCommand(conversation, signal),
+      imagePrompt
+        ? provider.generateActionImage({ ...conversation, prompt: imagePrompt }, signal).catch((err): GeneratedImage | null => {
+            console.warn('[toy-api] action image failed:', err);
+            return null;
+          })
+        : Promise.resolve(null),
+    ]);
+    const reply = parseToyReply(raw);
+    return { text: reply.reply, reply, image: picture };
+  };
+
+  const actionImage = async (body: any, signal: AbortSignal) => {
+    return { image: await provider.generateActionImage(parseConversation(body), signal) };
+  };
+
+  const storyPage = async (body: any, signal: AbortSignal) => {
+    const image = parseImagePart(body.image);
+    const prompt = parsePrompt(body.prompt);
+    return { page: await provider.writeStoryPage({ image, prompt }, signal) };
+  };
+
+  /**
+   * Streams the reply as NDJSON lines: {type:'text', text} ... {type:'reply', reply} {type:'done'}.
+   * The text lines carry only the reply text, read out of the model's JSON as it arrives.
+   * Failures before the first chunk use the normal JSON error response (so the
+   * client can retry); later ones end the stream with {type:'error', code, message}.
+   */
+  const toyCommandStream = async (body: any, signal: AbortSignal, res: ServerResponse) => {
+    const iterator = provider.streamReply(parseConversation(body), signal)[Symbol.asyncIterator]();
+    const first = await iterator.next();
+
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store' });
+    const writeLine = (line: unknown) => res.write(`${JSON.stringify(line)}\n`);
+    let raw = '';
+    let sent = '';
+    const sendText = (text: string) => {
+      // only ever appends: text that does not extend what was sent is left out
+      if (text.length > sent.length && text.startsWith(sent)) {
+        writeLine({ type: 'text', text: text.slice(sent.length) });
+        sent = text;
+      }
+    };
+    try {
+      for (let step = first; !step.done; step = await iterator.next()) {
+        raw += step.value || '';
+        sendText(replyTextSoFar(raw));
+      }
+      const reply = parseToyReply(raw);
+      sendText(reply.reply);
+      writeLine({ type: 'reply', reply: { ...reply, reply: sent } });
+      writeLine({ type: 'done' });
+    } catch (err) {
+      if (!signal.aborted) {
+        const httpErr = toHttpError(err);
+        console.warn('[toy-api] reply stream failed:', err);
+        writeLine({ type: 'error', code: httpErr.code, message: httpErr.message });
+      }
+    }
+    res.end();
+  };
+
+  const routes: Record<string, (body: any, signal: AbortSignal) => Promise<unknown>> = {
+    '/api/describe-toy': describeToy,
+    '/api/reference-sheet': referenceSheet,
+    '/api/toy-command': toyCommand,
+    '/api/action-image': actionImage,
+    '/api/story-page': storyPage,
+  };
+  const streamingRoutes: Record<string, (body: any, signal: AbortSignal, res: ServerResponse) => Promise<void>> = {
+    '/api/toy-command/stream': toyCommandStream,
+  };
+
+  return async function toyApi(req: IncomingMessage, res: ServerResponse, next?: Next) {
+    let pathname: string;
+    try {
+      pathname = new URL(req.url || '/', 'http://localhost').pathname;
+    } catch {
+      sendError(res, new HttpError(400, 'bad_request', 'Invalid request path.'));
+      return;
+    }
+    if (!pathname.startsWith('/api/')) {
+      if (next) next();
+      else sendJson(res, 404, { error: { code: 'not_found', message: 'Not found.' } });
+      return;
+    }
+
+    // cancel the upstream model call if the browser disconnects (e.g. Start Over)
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      if (pathname === '/api/health') {
+        sendJson(res, 200, { ok: true, provider: provider.name });
+        return;
+      }
+      const streamingRoute = streamingRoutes[pathname];
+      const route = routes[pathname];
+      if (!route && !streamingRoute) throw new HttpError(404, 'not_found', 'Not found.');
+      if (req.method !== 'POST') throw new HttpError(405, 'method_not_allowed', 'Use POST.');
+
+      const limit = limiter.take(clientKey(req, trustProxy));
+      if (!limit.ok) throw new HttpError(429, 'rate_limited', 'Too many requests, slow down a little.', limit.retryAfterMs);
+
+      const body = await readJsonBody(req);
+      if (streamingRoute) await streamingRoute(body, controller.signal, res);
+      else sendJson(res, 200, await route(body, controller.signal));
+    } catch (err) {
+      if (controller.signal.aborted) return; // nobody is listening any more
+      const httpErr = toHttpError(err);
+      if (httpErr.status >= 500) console.error(`[toy-api] ${pathname} failed:`, err);
+      if (!res.headersSent) sendError(res, httpErr);
+    }
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Mounts the toy API proxy on the Vite dev and preview servers, so
+ * `npm run dev` serves the app and the model endpoints from one origin.
+ * The /api/live voice socket shares the HTTP server with Vite's own HMR socket.
+ */
+
+import type { Plugin } from 'vite';
+import { createLiveApi } from './liveApi';
+import { createToyApi } from './toyApi';
+import type { ToyApiOptions } from './toyApi';
+
+export function toyApiPlugin(options: ToyApiOptions): Plugin {
+  const liveApi = createLiveApi({ provider: options.provider, trustProxy: options.trustProxy });
+  return {
+    name: 'toy-api',
+    configureServer(server) {
+      server.middlewares.use(createToyApi(options));
+      server.httpServer?.on('upgrade', liveApi);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(createToyApi(options));
+      server.httpServer.on('upgrade', liveApi);
+    },
+  };
+}
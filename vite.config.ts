@@ -1,14 +1,19 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import { createModelProvider, providerConfigFromEnv } from './server/providers';
+import { toyApiPlugin } from './server/vitePlugin';
 
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
-      plugins: [],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // the model provider (and its key) stays in the Node process; the browser calls /api/*
+      plugins: [
+        toyApiPlugin({ provider: createModelProvider(providerConfigFromEnv(env)) }),
+      ],
+      // transformers.js finds its WebAssembly runtime next to its own module, which pre-bundling would move
+      optimizeDeps: {
+        exclude: ['@huggingface/transformers', 'onnxruntime-web'],
       },
       resolve: {
         alias: {